@@ -0,0 +1,39 @@
+
+// --- WORKSHOP CATALOGUE ---
+// Search and filtering for the student workshop browser. Everything runs over the already loaded
+// events, so changing a filter never costs a round trip.
+
+import { Event } from './types';
+
+export interface CatalogFilters {
+  search: string; // Matched against title, description, venue and organizer
+  department: string; // Department code, or '' for all
+  tagId: string; // '' for all
+  from: string; // YYYY-MM-DD, inclusive; '' for no lower bound
+  to: string; // YYYY-MM-DD, inclusive; '' for no upper bound
+  includePast: boolean;
+}
+
+export const DEFAULT_CATALOG_FILTERS: CatalogFilters = { search: '', department: '', tagId: '', from: '', to: '', includePast: false };
+
+// When the last part of an event ends, in epoch milliseconds.
+export const eventEnd = (e: Event): number =>
+  [e, ...e.sessions].map(s => new Date(`${s.date}T${s.endTime || '23:59'}`).getTime()).reduce((a, b) => Math.max(a, b));
+
+const startsAt = (e: Event) => `${e.date}T${e.startTime}`;
+
+/** Events matching every filter, soonest first. A workshop counts as past once its last session ends. */
+export const browseEvents = (events: Event[], filters: CatalogFilters, now: number = Date.now()): Event[] => {
+  const terms = filters.search.trim().toLowerCase().split(/\s+/).filter(Boolean);
+  return events
+    .filter(e => filters.includePast || eventEnd(e) >= now)
+    .filter(e => !filters.department || e.department === filters.department)
+    .filter(e => !filters.tagId || e.tagIds.includes(filters.tagId))
+    .filter(e => !filters.from || e.date >= filters.from)
+    .filter(e => !filters.to || e.date <= filters.to)
+    .filter(e => {
+      const haystack = [e.title, e.description, e.venue, e.organizerName].join(' ').toLowerCase();
+      return terms.every(t => haystack.includes(t));
+    })
+    .sort((a, b) => startsAt(a).localeCompare(startsAt(b)));
+};
@@ -2,23 +2,80 @@
 /* 
   --- SUPABASE SQL SETUP SCRIPT (CLEAN RESET & SETUP) ---
   -- RUN THIS IN YOUR SUPABASE SQL EDITOR TO FIX COLUMN ERRORS --
+  -- Accounts live in Supabase Auth (salted password hashes, JWT sessions with refresh);
+  -- the users table only holds the public profile and is protected by row-level security.
 
   -- Drop existing tables to update schema
+  drop trigger if exists on_auth_user_created on auth.users;
+  drop function if exists handle_new_user cascade;
+  drop function if exists enforce_capacity cascade;
+  drop function if exists sign_registration_pass cascade;
+  drop function if exists sign_pass;
+  drop function if exists pass_rejection;
+  drop function if exists pass_claims;
+  drop function if exists pass_expiry;
+  drop function if exists base64url;
+  drop function if exists check_in_registration;
+  drop function if exists check_out_registration;
+  drop function if exists check_in_session;
+  drop function if exists replay_check_in;
+  drop function if exists event_occupancy;
+  drop function if exists promote_waitlist;
+  drop function if exists release_registration;
+  drop function if exists set_user_status;
+  drop function if exists uni_id_taken;
+  drop function if exists set_user_role;
+  drop function if exists assign_gate_staff;
+  drop function if exists create_event;
+  drop function if exists update_event;
+  drop function if exists reissue_pass;
+  drop function if exists cancel_event;
+  drop function if exists review_event;
+  drop function if exists resubmit_event;
+  drop function if exists resubmit_account;
+  drop table if exists event_status_history cascade;
+  drop table if exists user_status_history cascade;
+  drop function if exists review_series;
+  drop function if exists event_conflicts;
+  drop function if exists venue_conflicts;
+  drop function if exists venue_slots;
+  drop function if exists search_users;
+  drop function if exists search_activity;
+  drop function if exists live_attendance;
+  drop table if exists venues cascade;
+  drop table if exists event_series cascade;
+  drop table if exists event_tags cascade;
+  drop table if exists tags cascade;
+  drop table if exists departments cascade;
+  drop table if exists notifications cascade;
+  drop table if exists event_changes cascade;
+  drop table if exists app_settings cascade;
+  drop table if exists session_attendance cascade;
+  drop table if exists event_sessions cascade;
   drop table if exists participants cascade;
   drop table if exists registrations cascade;
   drop table if exists events cascade;
+  drop table if exists event_staff cascade;
+  drop table if exists role_capabilities cascade;
   drop table if exists users cascade;
+  drop table if exists pass_signing_key cascade;
+  drop function if exists can;
+  drop function if exists on_gate_duty;
+  drop function if exists owns_event;
+  drop function if exists email_verified;
 
-  -- 1. Create Users Table
+  -- 1. Create Users Table (profile for each auth.users account)
   create table users (
-    id uuid default gen_random_uuid() primary key,
+    id uuid primary key references auth.users(id) on delete cascade,
     name text not null,
     email text unique not null,
-    password text not null,
-    role text not null check (role in ('student', 'organizer', 'admin')),
+    role text not null check (role in ('student', 'organizer', 'coordinator', 'volunteer', 'auditor', 'admin')),
     uni_id text unique not null,
+    intake_year integer,
+    department text,
     profile_photo text,
-    status text default 'approved' check (status in ('pending', 'approved', 'rejected')),
+    status text default 'approved' check (status in ('pending', 'approved', 'rejected', 'changes_requested')),
+    review_comment text, -- Latest reviewer comment, shown to the account holder
     created_at timestamp with time zone default now()
   );
 
@@ -36,8 +93,14 @@
     start_time text,
     end_time text,
     max_participants integer default 50,
-    status text default 'pending' check (status in ('pending', 'approved', 'rejected')),
+    cancellation_cutoff_hours integer default 24,
+    min_attendance_minutes integer default 0,
+    status text default 'pending' check (status in ('pending', 'approved', 'rejected', 'changes_requested', 'cancelled')),
+    review_comment text, -- Latest reviewer comment, shown to the organizer
     poster_url text,
+    cancellation_reason text,
+    cancelled_at timestamp with time zone,
+    cancelled_by uuid references users(id),
     created_at timestamp with time zone default now()
   );
 
@@ -49,11 +112,17 @@
     event_id uuid references events(id) on delete cascade,
     event_title text,
     timestamp timestamp with time zone default now(),
-    status text default 'registered' check (status in ('registered', 'checked-in')),
+    -- 'cancelled' is released by the student; 'voided' means the workshop itself was cancelled
+    status text default 'registered' check (status in ('registered', 'checked-in', 'waitlisted', 'cancelled', 'voided')),
     qr_payload text,
-    check_in_time timestamp with time zone
+    check_in_time timestamp with time zone,
+    check_out_time timestamp with time zone,
+    cancelled_at timestamp with time zone
   );
 
+  -- One live pass per student and workshop; released and voided passes stay on record beside it
+  create unique index registrations_one_live_pass on registrations (user_id, event_id) where status not in ('cancelled', 'voided');
+
   -- 4. Create Participants Table (Attendance Log)
   create table participants (
     id uuid default gen_random_uuid() primary key,
@@ -62,194 +131,1673 @@
     event_id uuid references events(id) on delete cascade,
     user_name text,
     event_title text,
-    check_in_time timestamp with time zone default now()
+    check_in_time timestamp with time zone default now(),
+    check_out_time timestamp with time zone,
+    scanned_by uuid references users(id),
+    scanned_by_name text,
+    unique (registration_id)
+  );
+
+  -- 5. Create Event Sessions Table (multi-day / multi-track events)
+  create table event_sessions (
+    id uuid default gen_random_uuid() primary key,
+    event_id uuid references events(id) on delete cascade,
+    title text not null,
+    venue text,
+    date date,
+    start_time text,
+    end_time text,
+    capacity integer
+  );
+
+  -- 6. Create Session Attendance Table
+  create table session_attendance (
+    id uuid default gen_random_uuid() primary key,
+    session_id uuid references event_sessions(id) on delete cascade,
+    registration_id uuid references registrations(id) on delete cascade,
+    user_id uuid references users(id) on delete cascade,
+    user_name text,
+    check_in_time timestamp with time zone default now(),
+    scanned_by uuid references users(id),
+    scanned_by_name text,
+    unique (session_id, registration_id)
+  );
+
+  -- 7. Role Capabilities & Gate Staff (mirrors ROLE_CAPABILITIES in permissions.ts)
+  create table role_capabilities (
+    role text not null,
+    capability text not null,
+    scope text not null check (scope in ('all', 'department', 'own', 'assigned')),
+    primary key (role, capability)
+  );
+
+  insert into role_capabilities (role, capability, scope) values
+    ('student', 'events.register', 'all'),
+    ('organizer', 'events.propose', 'all'),
+    ('organizer', 'events.edit', 'own'),
+    ('organizer', 'events.cancel', 'own'),
+    ('organizer', 'checkin.scan', 'own'),
+    ('organizer', 'attendance.view', 'own'),
+    ('organizer', 'staff.assign', 'own'),
+    ('coordinator', 'events.review', 'department'),
+    ('coordinator', 'attendance.view', 'department'),
+    ('coordinator', 'reports.export', 'department'),
+    ('volunteer', 'checkin.scan', 'assigned'),
+    ('auditor', 'attendance.view', 'all'),
+    ('auditor', 'users.view', 'all'),
+    ('auditor', 'reports.export', 'all'),
+    ('admin', 'events.review', 'all'),
+    ('admin', 'events.edit', 'all'),
+    ('admin', 'events.cancel', 'all'),
+    ('admin', 'events.delete', 'all'),
+    ('admin', 'checkin.scan', 'all'),
+    ('admin', 'attendance.view', 'all'),
+    ('admin', 'staff.assign', 'all'),
+    ('admin', 'users.view', 'all'),
+    ('admin', 'users.review', 'all'),
+    ('admin', 'venues.manage', 'all'),
+    ('admin', 'taxonomy.manage', 'all'),
+    ('admin', 'reports.export', 'all');
+
+  -- Time-limited grants to run the entry terminal for one event; any approved account can hold one
+  create table event_staff (
+    event_id uuid references events(id) on delete cascade,
+    user_id uuid references users(id) on delete cascade,
+    user_name text,
+    user_email text,
+    valid_from timestamp with time zone not null default now(),
+    valid_until timestamp with time zone not null,
+    assigned_by uuid references users(id),
+    created_at timestamp with time zone default now(),
+    primary key (event_id, user_id),
+    check (valid_until > valid_from)
+  );
+
+  -- 8. Auth Helpers & Signup Trigger
+  -- True while the signed-in user holds an unexpired gate grant for the event (or for any event when p_event_id is null).
+  -- p_at checks the grant at another moment, e.g. when an offline scan happened.
+  create or replace function on_gate_duty(p_event_id uuid default null, p_at timestamp with time zone default now()) returns boolean
+  language sql stable security definer set search_path = public as $$
+    select exists (
+      select 1 from event_staff s
+      join users u on u.id = s.user_id
+      where s.user_id = auth.uid() and u.status = 'approved'
+        and (p_event_id is null or s.event_id = p_event_id)
+        and p_at between s.valid_from and s.valid_until
+    );
+  $$;
+
+  -- True when the signed-in, approved user holds the capability for the event (or at any scope when p_event_id is null).
+  -- Gate grants add checkin.scan on top of whatever the role allows; p_at is the moment they have to cover.
+  create or replace function can(p_capability text, p_event_id uuid default null, p_at timestamp with time zone default now()) returns boolean
+  language sql stable security definer set search_path = public as $$
+    select (p_capability = 'checkin.scan' and on_gate_duty(p_event_id, p_at)) or exists (
+      select 1 from users u
+      join role_capabilities rc on rc.role = u.role and rc.capability = p_capability
+      left join events e on e.id = p_event_id
+      where u.id = auth.uid() and u.status = 'approved'
+        and (
+          p_event_id is null
+          or rc.scope = 'all'
+          or (rc.scope = 'own' and e.organizer_id = u.id)
+          or (rc.scope = 'department' and e.department = u.department)
+          or (rc.scope = 'assigned' and on_gate_duty(e.id, p_at))
+        )
+    );
+  $$;
+
+  create or replace function email_verified() returns boolean
+  language sql stable security definer set search_path = public as $$
+    select exists (select 1 from auth.users where id = auth.uid() and email_confirmed_at is not null);
+  $$;
+
+  create or replace function owns_event(p_event_id uuid) returns boolean
+  language sql stable security definer set search_path = public as $$
+    select exists (select 1 from events where id = p_event_id and organizer_id = auth.uid());
+  $$;
+
+  -- Profiles are created server-side from signup metadata, so nobody can enroll themselves as an admin.
+  -- Signups must meet the enrollment rules in enrollment.ts even when they skip the app's form: an
+  -- institutional email (app_settings.allowed_email_domains) and a University ID in the role's format.
+  -- Intake year and department are read from the ID, not taken from the metadata. Addresses listed in
+  -- app_settings.enrollment_exempt_emails (the initial admin) skip the rules.
+  create or replace function handle_new_user() returns trigger
+  language plpgsql security definer set search_path = public as $$
+  declare
+    requested_role text := coalesce(new.raw_user_meta_data->>'role', 'student');
+    requested_uni_id text := upper(trim(coalesce(new.raw_user_meta_data->>'uni_id', '')));
+    email_domain text := lower(split_part(new.email, '@', 2));
+    id_parts text[];
+    intake integer;
+    dept text;
+  begin
+    if requested_role not in ('student', 'organizer') then
+      requested_role := 'student';
+    end if;
+
+    if lower(new.email) = any (string_to_array(coalesce((select value from app_settings where key = 'enrollment_exempt_emails'), ''), ',')) then
+      intake := (new.raw_user_meta_data->>'intake_year')::integer;
+      dept := new.raw_user_meta_data->>'department';
+    else
+      if not exists (
+        select 1 from unnest(string_to_array(coalesce((select value from app_settings where key = 'allowed_email_domains'), ''), ',')) d
+        where trim(d) <> '' and (email_domain = lower(trim(d)) or email_domain like '%.' || lower(trim(d)))
+      ) then
+        raise exception 'Use your institutional email address.' using errcode = '22023';
+      end if;
+
+      if requested_role = 'student' then
+        id_parts := regexp_match(requested_uni_id, '^(\d{4})/([A-Z]{2,4})/\d{3}$');
+        intake := id_parts[1]::integer;
+        dept := id_parts[2];
+      else
+        id_parts := regexp_match(requested_uni_id, '^STAFF/([A-Z]{2,4})/\d{3}$');
+        dept := id_parts[1];
+      end if;
+      if dept is null or not exists (select 1 from departments where code = dept) then
+        raise exception 'University ID "%" is not valid for a % account.', requested_uni_id, requested_role using errcode = '22023';
+      end if;
+      if intake is not null and intake not between 2016 and extract(year from now())::integer + 1 then
+        raise exception 'Intake year % is not valid.', intake using errcode = '22023';
+      end if;
+    end if;
+
+    insert into users (id, name, email, role, uni_id, intake_year, department, status)
+    values (
+      new.id,
+      coalesce(new.raw_user_meta_data->>'name', new.email),
+      new.email,
+      requested_role,
+      coalesce(nullif(requested_uni_id, ''), new.id::text),
+      intake,
+      dept,
+      case when requested_role = 'organizer' then 'pending' else 'approved' end
+    );
+    return new;
+  end;
+  $$;
+
+  create trigger on_auth_user_created
+    after insert on auth.users
+    for each row execute function handle_new_user();
+
+  -- Lets the enrollment form report a duplicate University ID before signup (profiles aren't readable anonymously)
+  create or replace function uni_id_taken(p_uni_id text) returns boolean
+  language sql stable security definer set search_path = public as $$
+    select exists (select 1 from users where uni_id = p_uni_id);
+  $$;
+
+  -- Capacity is enforced by the database too; a full event always yields a waitlisted registration
+  create or replace function enforce_capacity() returns trigger
+  language plpgsql security definer set search_path = public as $$
+  begin
+    perform 1 from events where id = new.event_id for update;
+    if new.status = 'registered' and
+      (select count(*) from registrations where event_id = new.event_id and status in ('registered', 'checked-in'))
+        >= (select max_participants from events where id = new.event_id) then
+      new.status := 'waitlisted';
+    end if;
+    return new;
+  end;
+  $$;
+
+  create trigger registrations_enforce_capacity
+    before insert on registrations
+    for each row execute function enforce_capacity();
+
+  -- Admission passes are signed here with a key no client role can read, so only the database can mint one
+  create extension if not exists pgcrypto with schema extensions;
+
+  create table pass_signing_key (
+    id boolean primary key default true check (id),
+    secret bytea not null default extensions.gen_random_bytes(32)
+  );
+  insert into pass_signing_key default values;
+  alter table pass_signing_key enable row level security;
+  revoke all on pass_signing_key from anon, authenticated;
+
+  create or replace function base64url(p_bytes bytea) returns text
+  language sql immutable as $$
+    select rtrim(translate(encode(p_bytes, 'base64'), E'+/\n', '-_'), '=');
+  $$;
+
+  -- Mirrors passExpiry in repository.ts: a few hours after the last session ends, in the event_timezone setting
+  create or replace function pass_expiry(p_event_id uuid) returns bigint
+  language plpgsql stable security definer set search_path = public as $$
+  declare
+    tz text := coalesce((select value from app_settings where key = 'event_timezone'), 'Asia/Colombo');
+  begin
+    return (
+      select extract(epoch from max((s.date + coalesce(nullif(s.end_time, ''), '00:00')::time) at time zone tz))::bigint
+      from (
+        select date, end_time from events where id = p_event_id
+        union all
+        select date, end_time from event_sessions where event_id = p_event_id
+      ) s
+    ) + 6 * 60 * 60;
+  end;
+  $$;
+
+  create or replace function sign_pass(p_registration_id uuid, p_event_id uuid) returns text
+  language plpgsql stable security definer set search_path = public as $$
+  declare
+    body text := base64url(convert_to(json_build_object(
+      'rid', p_registration_id, 'eid', p_event_id, 'iat', extract(epoch from now())::bigint, 'exp', pass_expiry(p_event_id)
+    )::text, 'utf8'));
+  begin
+    return body || '.' || base64url(extensions.hmac(convert_to(body, 'utf8'), (select secret from pass_signing_key), 'sha256'));
+  end;
+  $$;
+  revoke execute on function sign_pass from public, anon, authenticated;
+
+  -- The claims of a pass the database signed, or null for anything else
+  create or replace function pass_claims(p_qr_payload text) returns json
+  language plpgsql stable security definer set search_path = public as $$
+  declare
+    body text := split_part(p_qr_payload, '.', 1);
+  begin
+    if p_qr_payload is null or p_qr_payload !~ '^[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+$'
+      or split_part(p_qr_payload, '.', 2) <> base64url(extensions.hmac(convert_to(body, 'utf8'), (select secret from pass_signing_key), 'sha256')) then
+      return null;
+    end if;
+    return convert_from(decode(rpad(translate(body, '-_', '+/'), (length(body) + 3) / 4 * 4, '='), 'base64'), 'utf8')::json;
+  end;
+  $$;
+
+  -- The reason a scanned pass is refused ('forged', 'expired' or 'wrong-event'), or null when it is genuine
+  create or replace function pass_rejection(p_qr_payload text, p_event_id uuid) returns text
+  language plpgsql stable security definer set search_path = public as $$
+  declare
+    claims json := pass_claims(p_qr_payload);
+  begin
+    if claims is null then
+      return 'forged';
+    end if;
+    if (claims->>'exp')::bigint < extract(epoch from now()) then
+      return 'expired';
+    end if;
+    if claims->>'eid' is distinct from p_event_id::text then
+      return 'wrong-event';
+    end if;
+    return null;
+  end;
+  $$;
+
+  -- Whatever qr_payload an insert carries is replaced by a pass the database signed
+  create or replace function sign_registration_pass() returns trigger
+  language plpgsql security definer set search_path = public as $$
+  begin
+    new.qr_payload := sign_pass(new.id, new.event_id);
+    return new;
+  end;
+  $$;
+
+  create trigger registrations_sign_pass
+    before insert on registrations
+    for each row execute function sign_registration_pass();
+
+  -- 9. Row-Level Security
+  alter table users enable row level security;
+  alter table events enable row level security;
+  alter table registrations enable row level security;
+  alter table participants enable row level security;
+  alter table event_sessions enable row level security;
+  alter table session_attendance enable row level security;
+  alter table role_capabilities enable row level security;
+  alter table event_staff enable row level security;
+
+  -- Users may edit their own name and photo; role and status only change through set_user_status / set_user_role / resubmit_account
+  revoke update on users from authenticated;
+  grant update (name, profile_photo) on users to authenticated;
+
+  create policy users_read on users for select using (id = auth.uid() or can('users.view'));
+  create policy users_update_self on users for update using (id = auth.uid());
+
+  create policy events_read on events for select
+    using (status = 'approved' or organizer_id = auth.uid() or can('events.review', id) or can('attendance.view', id));
+  create policy events_propose on events for insert
+    with check (organizer_id = auth.uid() and status = 'pending' and can('events.propose'));
+  -- Anything with registrations is cancelled instead, so its history stays available for reporting
+  create policy events_delete on events for delete
+    using (can('events.delete', id) and not exists (select 1 from registrations where registrations.event_id = events.id));
+
+  -- Students insert their own passes, but the id, timestamps and signed pass are the database's to set.
+  -- Passes are released through release_registration, which enforces the cancellation cutoff.
+  revoke insert, update on registrations from authenticated;
+  grant insert (user_id, user_name, event_id, event_title, status) on registrations to authenticated;
+
+  create policy registrations_read on registrations for select
+    using (user_id = auth.uid() or can('attendance.view', event_id) or can('checkin.scan', event_id));
+  create policy registrations_create on registrations for insert
+    with check (
+      user_id = auth.uid() and status in ('registered', 'waitlisted') and email_verified() and can('events.register')
+      and exists (select 1 from events where id = event_id and status = 'approved')
+    );
+
+  create policy participants_read on participants for select
+    using (user_id = auth.uid() or can('attendance.view', event_id));
+
+  create policy sessions_read on event_sessions for select
+    using (exists (select 1 from events where id = event_id));
+  create policy sessions_create on event_sessions for insert with check (owns_event(event_id));
+
+  create policy session_attendance_read on session_attendance for select
+    using (
+      user_id = auth.uid()
+      or exists (select 1 from event_sessions where id = session_id and can('attendance.view', event_id))
+    );
+
+  create policy role_capabilities_read on role_capabilities for select using (true);
+
+  create policy event_staff_read on event_staff for select
+    using (user_id = auth.uid() or can('staff.assign', event_id));
+  create policy event_staff_revoke on event_staff for delete using (can('staff.assign', event_id));
+
+  -- 10. Atomic Check-in (locks the registration row so concurrent terminals cannot both admit a pass)
+  create or replace function check_in_registration(
+    p_registration_id uuid,
+    p_event_id uuid,
+    p_qr_payload text
+  ) returns json language plpgsql security definer set search_path = public as $$
+  declare
+    reg registrations%rowtype;
+    rejection text;
+  begin
+    if not can('checkin.scan', p_event_id) then
+      return json_build_object('code', 'not_authorised');
+    end if;
+    rejection := pass_rejection(p_qr_payload, p_event_id);
+    if rejection is not null then
+      return json_build_object('code', rejection);
+    end if;
+
+    select * into reg from registrations
+      where id = p_registration_id and event_id = p_event_id and qr_payload = p_qr_payload
+      for update;
+    if not found then
+      return json_build_object('code', 'not_found');
+    end if;
+    if reg.status <> 'registered' then
+      return json_build_object('code', reg.status, 'registration', row_to_json(reg));
+    end if;
+
+    update registrations set status = 'checked-in', check_in_time = now()
+      where id = reg.id returning * into reg;
+    insert into participants (registration_id, user_id, event_id, user_name, event_title, check_in_time, scanned_by, scanned_by_name)
+      values (reg.id, reg.user_id, reg.event_id, reg.user_name, reg.event_title, reg.check_in_time,
+        auth.uid(), (select name from users where id = auth.uid()));
+    return json_build_object('code', 'ok', 'registration', row_to_json(reg));
+  end;
+  $$;
+
+  -- 11. Atomic Check-out
+  create or replace function check_out_registration(
+    p_registration_id uuid,
+    p_event_id uuid,
+    p_qr_payload text
+  ) returns json language plpgsql security definer set search_path = public as $$
+  declare
+    reg registrations%rowtype;
+    rejection text;
+  begin
+    if not can('checkin.scan', p_event_id) then
+      return json_build_object('code', 'not_authorised');
+    end if;
+    rejection := pass_rejection(p_qr_payload, p_event_id);
+    if rejection is not null then
+      return json_build_object('code', rejection);
+    end if;
+
+    select * into reg from registrations
+      where id = p_registration_id and event_id = p_event_id and qr_payload = p_qr_payload
+      for update;
+    if not found then
+      return json_build_object('code', 'not_found');
+    end if;
+    if reg.status <> 'checked-in' then
+      return json_build_object('code', 'not_checked_in', 'registration', row_to_json(reg));
+    end if;
+    if reg.check_out_time is not null then
+      return json_build_object('code', 'checked_out', 'registration', row_to_json(reg));
+    end if;
+
+    update registrations set check_out_time = now() where id = reg.id returning * into reg;
+    update participants set check_out_time = reg.check_out_time where registration_id = reg.id;
+    return json_build_object('code', 'ok', 'registration', row_to_json(reg));
+  end;
+  $$;
+
+  -- 12. Atomic Session Check-in (the first session attended also checks the registration in)
+  create or replace function check_in_session(
+    p_registration_id uuid,
+    p_session_id uuid,
+    p_event_id uuid,
+    p_qr_payload text
+  ) returns json language plpgsql security definer set search_path = public as $$
+  declare
+    reg registrations%rowtype;
+    sess event_sessions%rowtype;
+    now_ts timestamp with time zone := now();
+    scanner_name text := (select name from users where id = auth.uid());
+    rejection text := pass_rejection(p_qr_payload, p_event_id);
+  begin
+    if not can('checkin.scan', p_event_id) then
+      return json_build_object('code', 'not_authorised');
+    end if;
+    if rejection is not null then
+      return json_build_object('code', rejection);
+    end if;
+
+    -- Locking the session serialises capacity checks across terminals
+    select * into sess from event_sessions where id = p_session_id and event_id = p_event_id for update;
+    if not found then
+      return json_build_object('code', 'session_not_found');
+    end if;
+
+    select * into reg from registrations
+      where id = p_registration_id and event_id = p_event_id and qr_payload = p_qr_payload
+      for update;
+    if not found then
+      return json_build_object('code', 'not_found');
+    end if;
+    if reg.status not in ('registered', 'checked-in') then
+      return json_build_object('code', reg.status, 'registration', row_to_json(reg));
+    end if;
+    if exists (select 1 from session_attendance where session_id = sess.id and registration_id = reg.id) then
+      return json_build_object('code', 'session_checked_in', 'registration', row_to_json(reg));
+    end if;
+    if sess.capacity is not null and (select count(*) from session_attendance where session_id = sess.id) >= sess.capacity then
+      return json_build_object('code', 'session_full', 'registration', row_to_json(reg));
+    end if;
+
+    insert into session_attendance (session_id, registration_id, user_id, user_name, check_in_time, scanned_by, scanned_by_name)
+      values (sess.id, reg.id, reg.user_id, reg.user_name, now_ts, auth.uid(), scanner_name);
+    if reg.status = 'registered' then
+      update registrations set status = 'checked-in', check_in_time = now_ts
+        where id = reg.id returning * into reg;
+      insert into participants (registration_id, user_id, event_id, user_name, event_title, check_in_time, scanned_by, scanned_by_name)
+        values (reg.id, reg.user_id, reg.event_id, reg.user_name, reg.event_title, now_ts, auth.uid(), scanner_name);
+    end if;
+    return json_build_object('code', 'ok', 'registration', row_to_json(reg));
+  end;
+  $$;
+
+  -- 13. Offline Check-in Replay (keeps the time the pass was scanned at the door)
+  -- The scan time has to be in the past and within the event's hours, give or take the pass grace period, and the
+  -- scanner has to have held checkin.scan for the event at that time.
+  create or replace function replay_check_in(
+    p_registration_id uuid,
+    p_event_id uuid,
+    p_check_in_time timestamp with time zone
+  ) returns json language plpgsql security definer set search_path = public as $$
+  declare
+    reg registrations%rowtype;
+    tz text := coalesce((select value from app_settings where key = 'event_timezone'), 'Asia/Colombo');
+    opens timestamp with time zone;
+    closes timestamp with time zone;
+  begin
+    if not can('checkin.scan', p_event_id, p_check_in_time) then
+      return json_build_object('code', 'not_authorised');
+    end if;
+
+    select min((s.date + coalesce(nullif(s.start_time, ''), '00:00')::time) at time zone tz),
+      max((s.date + coalesce(nullif(s.end_time, ''), '00:00')::time) at time zone tz)
+      into opens, closes
+      from (
+        select date, start_time, end_time from events where id = p_event_id
+        union all
+        select date, start_time, end_time from event_sessions where event_id = p_event_id
+      ) s;
+    if p_check_in_time is null or p_check_in_time > now()
+      or p_check_in_time not between opens - interval '6 hours' and closes + interval '6 hours' then
+      return json_build_object('code', 'outside_window');
+    end if;
+
+    select * into reg from registrations where id = p_registration_id and event_id = p_event_id for update;
+    if not found then
+      return json_build_object('code', 'not_found');
+    end if;
+    if reg.status <> 'registered' then
+      return json_build_object('code', reg.status, 'registration', row_to_json(reg));
+    end if;
+
+    update registrations set status = 'checked-in', check_in_time = p_check_in_time
+      where id = reg.id returning * into reg;
+    insert into participants (registration_id, user_id, event_id, user_name, event_title, check_in_time, scanned_by, scanned_by_name)
+      values (reg.id, reg.user_id, reg.event_id, reg.user_name, reg.event_title, p_check_in_time,
+        auth.uid(), (select name from users where id = auth.uid()));
+    return json_build_object('code', 'ok', 'registration', row_to_json(reg));
+  end;
+  $$;
+
+  -- 14. Seat Occupancy & Waitlist Promotion (aggregate-only, so students never see other passes)
+  -- Every event's occupancy, or only p_event_id's
+  create or replace function event_occupancy(p_event_id uuid default null)
+  returns table (event_id uuid, seats_taken integer, waitlist uuid[])
+  language sql stable security definer set search_path = public as $$
+    select r.event_id,
+      (count(*) filter (where r.status in ('registered', 'checked-in')))::integer,
+      coalesce(array_agg(r.id order by r.timestamp) filter (where r.status = 'waitlisted'), '{}')
+    from registrations r
+    where p_event_id is null or r.event_id = p_event_id
+    group by r.event_id;
+  $$;
+
+  create or replace function promote_waitlist(p_event_id uuid) returns integer
+  language plpgsql security definer set search_path = public as $$
+  declare
+    free_seats integer;
+    promoted integer;
+  begin
+    perform 1 from events where id = p_event_id for update;
+    select e.max_participants - (
+      select count(*) from registrations where event_id = e.id and status in ('registered', 'checked-in')
+    ) into free_seats from events e where e.id = p_event_id;
+    if free_seats is null or free_seats <= 0 then
+      return 0;
+    end if;
+
+    update registrations set status = 'registered'
+      where id in (
+        select id from registrations
+        where event_id = p_event_id and status = 'waitlisted'
+        order by timestamp
+        limit free_seats
+      );
+    get diagnostics promoted = row_count;
+    return promoted;
+  end;
+  $$;
+
+  -- The holder gives up an unused pass, up to the event's cancellation cutoff; a freed seat goes to the waitlist
+  create or replace function release_registration(p_registration_id uuid) returns json
+  language plpgsql security definer set search_path = public as $$
+  declare
+    reg registrations%rowtype;
+    evt events%rowtype;
+    tz text := coalesce((select value from app_settings where key = 'event_timezone'), 'Asia/Colombo');
+    cutoff_hours integer;
+  begin
+    select * into reg from registrations where id = p_registration_id and user_id = auth.uid() for update;
+    if not found then
+      return json_build_object('code', 'not_found');
+    end if;
+    if reg.status not in ('registered', 'waitlisted') then
+      return json_build_object('code', reg.status, 'registration', row_to_json(reg));
+    end if;
+
+    select * into evt from events where id = reg.event_id;
+    cutoff_hours := coalesce(evt.cancellation_cutoff_hours, 24);
+    if now() > ((evt.date + coalesce(nullif(evt.start_time, ''), '00:00')::time) at time zone tz) - make_interval(hours => cutoff_hours) then
+      return json_build_object('code', 'past_cutoff', 'cutoff_hours', cutoff_hours, 'registration', row_to_json(reg));
+    end if;
+
+    update registrations set status = 'cancelled', cancelled_at = now() where id = reg.id returning * into reg;
+    perform promote_waitlist(reg.event_id);
+    return json_build_object('code', 'ok', 'registration', row_to_json(reg));
+  end;
+  $$;
+
+  -- 15. Staff Account Review & Role Assignment
+  -- Rejecting an account or asking for changes needs a comment for the account holder
+  create or replace function set_user_status(p_user_id uuid, p_status text, p_comment text default null) returns json
+  language plpgsql security definer set search_path = public as $$
+  declare
+    previous text;
+  begin
+    if not can('users.review') then
+      return json_build_object('code', 'not_authorised');
+    end if;
+    if p_status in ('rejected', 'changes_requested') and coalesce(trim(p_comment), '') = '' then
+      return json_build_object('code', 'comment_required');
+    end if;
+    select status into previous from users where id = p_user_id for update;
+    if not found then
+      return json_build_object('code', 'not_found');
+    end if;
+
+    update users set status = p_status, review_comment = nullif(trim(p_comment), '') where id = p_user_id;
+    insert into user_status_history (user_id, from_status, to_status, comment, acted_by, acted_by_name)
+      values (p_user_id, previous, p_status, nullif(trim(p_comment), ''), auth.uid(), (select name from users where id = auth.uid()));
+    return json_build_object('code', 'ok');
+  end;
+  $$;
+
+  create or replace function set_user_role(p_user_id uuid, p_role text) returns boolean
+  language plpgsql security definer set search_path = public as $$
+  begin
+    if not can('users.review') or p_user_id = auth.uid() then
+      return false;
+    end if;
+    update users set role = p_role where id = p_user_id;
+    return found;
+  end;
+  $$;
+
+  -- Organizers can't read the registry, so gate staff are looked up by email on the server.
+  -- Re-assigning someone replaces their grant window.
+  create or replace function assign_gate_staff(
+    p_event_id uuid,
+    p_email text,
+    p_valid_from timestamp with time zone,
+    p_valid_until timestamp with time zone
+  ) returns json language plpgsql security definer set search_path = public as $$
+  declare
+    staff users%rowtype;
+  begin
+    if not can('staff.assign', p_event_id) then
+      return json_build_object('code', 'not_authorised');
+    end if;
+    if p_valid_until <= p_valid_from or p_valid_until <= now() then
+      return json_build_object('code', 'invalid_window');
+    end if;
+    select * into staff from users where email = lower(trim(p_email));
+    if not found then
+      return json_build_object('code', 'not_found');
+    end if;
+    if staff.status <> 'approved' then
+      return json_build_object('code', 'not_approved');
+    end if;
+    insert into event_staff (event_id, user_id, user_name, user_email, valid_from, valid_until, assigned_by)
+      values (p_event_id, staff.id, staff.name, staff.email, p_valid_from, p_valid_until, auth.uid())
+      on conflict (event_id, user_id) do update
+        set valid_from = excluded.valid_from, valid_until = excluded.valid_until, assigned_by = excluded.assigned_by;
+    return json_build_object('code', 'ok', 'user_id', staff.id, 'name', staff.name);
+  end;
+  $$;
+
+  -- 16. Event Editing, Cancellation & Registrant Notifications
+  -- Deployment switches read by the database functions; edit the values in the table editor
+  create table app_settings (
+    key text primary key,
+    value text not null
+  );
+
+  -- 'true' sends an approved workshop back to review when its date, time or venue changes
+  insert into app_settings (key, value) values ('review_schedule_changes', 'true');
+
+  -- The zone event dates and times are in; pass_expiry reads it
+  insert into app_settings (key, value) values ('event_timezone', 'Asia/Colombo');
+
+  -- Comma-separated; read by handle_new_user. Keep allowed_email_domains in step with ALLOWED_EMAIL_DOMAINS.
+  insert into app_settings (key, value) values
+    ('allowed_email_domains', 'cmb.ac.lk'),
+    ('enrollment_exempt_emails', 'admin@gmail.com');
+
+  -- One row per saved edit; changes is a list of { field, from, to }
+  create table event_changes (
+    id uuid default gen_random_uuid() primary key,
+    event_id uuid references events(id) on delete cascade,
+    changed_by uuid references users(id),
+    changed_by_name text,
+    changes jsonb not null,
+    sent_for_review boolean default false,
+    created_at timestamp with time zone default now()
+  );
+
+  create table notifications (
+    id uuid default gen_random_uuid() primary key,
+    user_id uuid references users(id) on delete cascade,
+    event_id uuid references events(id) on delete cascade,
+    kind text not null check (kind in ('event_updated', 'event_cancelled')),
+    title text not null,
+    changes jsonb,
+    message text,
+    read_at timestamp with time zone,
+    created_at timestamp with time zone default now()
+  );
+
+  alter table app_settings enable row level security;
+  alter table event_changes enable row level security;
+  alter table notifications enable row level security;
+
+  create policy app_settings_read on app_settings for select using (true);
+  create policy event_changes_read on event_changes for select
+    using (can('events.edit', event_id) or can('events.review', event_id));
+
+  -- Notifications are written by update_event and cancel_event; their owner can only mark them read
+  revoke update on notifications from authenticated;
+  grant update (read_at) on notifications to authenticated;
+  create policy notifications_read on notifications for select using (user_id = auth.uid());
+  create policy notifications_mark_read on notifications for update using (user_id = auth.uid());
+
+  -- Saves a proposal together with its sessions and tags in one transaction, so a failure part-way leaves no
+  -- half-created event behind. It runs as the caller: the events_propose, sessions_create and event_tags_write
+  -- policies still apply. Like update_event it refuses a schedule that overfills a venue or double-books one an
+  -- approved workshop holds, returning the failure code instead of the event.
+  create or replace function create_event(p_event jsonb, p_sessions jsonb default '[]', p_tag_ids uuid[] default '{}') returns json
+  language plpgsql set search_path = public as $$
+  declare
+    proposed events%rowtype := jsonb_populate_record(null::events, p_event);
+    evt events%rowtype;
+  begin
+    if jsonb_array_length(coalesce(p_sessions, '[]')) > 0 then
+      if exists (
+        select 1 from jsonb_to_recordset(p_sessions) as x(venue_id uuid, capacity integer)
+        join venues v on v.id = x.venue_id
+        where coalesce(x.capacity, proposed.max_participants) > v.capacity
+      ) then
+        return json_build_object('code', 'over_capacity');
+      end if;
+      if exists (
+        select 1 from jsonb_to_recordset(p_sessions) as x(venue_id uuid, date date, start_time text, end_time text)
+        cross join lateral venue_conflicts(x.venue_id, x.date, x.start_time, x.end_time) c
+        where c.status = 'approved'
+      ) then
+        return json_build_object('code', 'venue_conflict');
+      end if;
+    else
+      if exists (select 1 from venues v where v.id = proposed.venue_id and proposed.max_participants > v.capacity) then
+        return json_build_object('code', 'over_capacity');
+      end if;
+      if exists (
+        select 1 from venue_conflicts(proposed.venue_id, proposed.date, proposed.start_time, proposed.end_time) c
+        where c.status = 'approved'
+      ) then
+        return json_build_object('code', 'venue_conflict');
+      end if;
+    end if;
+
+    insert into events (title, description, organizer_name, organizer_email, organizer_id, department, venue, venue_id, date,
+      start_time, end_time, max_participants, cancellation_cutoff_hours, min_attendance_minutes, poster_url, series_id, series_index, status)
+      select title, description, organizer_name, organizer_email, organizer_id, department, venue, venue_id, date,
+        start_time, end_time, max_participants, cancellation_cutoff_hours, min_attendance_minutes, poster_url, series_id, series_index, 'pending'
+      from jsonb_populate_record(null::events, p_event)
+      returning * into evt;
+    insert into event_sessions (event_id, title, venue, venue_id, date, start_time, end_time, capacity)
+      select evt.id, x.title, x.venue, x.venue_id, x.date, x.start_time, x.end_time, x.capacity
+      from jsonb_to_recordset(coalesce(p_sessions, '[]')) as x(title text, venue text, venue_id uuid, date date, start_time text, end_time text, capacity integer);
+    insert into event_tags (event_id, tag_id)
+      select evt.id, tag_id from unnest(coalesce(p_tag_ids, '{}')) as tag_id;
+    return (to_jsonb(evt) || jsonb_build_object(
+      'event_sessions', coalesce((select jsonb_agg(to_jsonb(s) order by s.date, s.start_time) from event_sessions s where s.event_id = evt.id), '[]'),
+      'event_tags', coalesce((select jsonb_agg(jsonb_build_object('tag_id', t.tag_id)) from event_tags t where t.event_id = evt.id), '[]')
+    ))::json;
+  end;
+  $$;
+
+  -- Applies an edit and records a field-by-field diff. When p_sessions is given it replaces the session list:
+  -- entries with an id update that session, entries without one are added, and sessions left out are removed.
+  -- When p_tag_ids is given it replaces the tags; tags only steer browsing, so they are not recorded as a change.
+  create or replace function update_event(p_event_id uuid, p_event jsonb, p_sessions jsonb default null, p_tag_ids uuid[] default null) returns json
+  language plpgsql security definer set search_path = public as $$
+  declare
+    editable text[] := array['title', 'description', 'venue', 'venue_id', 'date', 'start_time', 'end_time',
+      'max_participants', 'cancellation_cutoff_hours', 'min_attendance_minutes', 'poster_url'];
+    schedule_fields text[] := array['venue', 'date', 'start_time', 'end_time', 'sessions'];
+    old_evt events%rowtype;
+    new_evt events%rowtype;
+    field text;
+    changes jsonb := '[]';
+    old_sessions text;
+    new_sessions text;
+    kept_sessions uuid[];
+    sent_for_review boolean := false;
+  begin
+    if not can('events.edit', p_event_id) then
+      return json_build_object('code', 'not_authorised');
+    end if;
+    select * into old_evt from events where id = p_event_id for update;
+    if not found then
+      return json_build_object('code', 'not_found');
+    end if;
+    if old_evt.status = 'cancelled' then
+      return json_build_object('code', 'cancelled');
+    end if;
+
+    new_evt := jsonb_populate_record(old_evt, (
+      select coalesce(jsonb_object_agg(key, value), '{}') from jsonb_each(p_event) where key = any(editable)
+    ));
+    foreach field in array editable loop
+      -- A venue change shows up through its name
+      continue when field = 'venue_id';
+      if to_jsonb(old_evt)->field is distinct from to_jsonb(new_evt)->field then
+        -- Posters are data URLs; only the fact that one changed is worth keeping
+        changes := changes || jsonb_build_object('field', field,
+          'from', case when field = 'poster_url' then null else to_jsonb(old_evt)->>field end,
+          'to', case when field = 'poster_url' then null else to_jsonb(new_evt)->>field end);
+      end if;
+    end loop;
+
+    -- Issued passes keep their seats, so a workshop cannot shrink below the seats already taken
+    if new_evt.max_participants < (select count(*) from registrations where event_id = p_event_id and status in ('registered', 'checked-in')) then
+      return json_build_object('code', 'below_seats_taken');
+    end if;
+
+    -- The new schedule may not overfill a venue or double-book one an approved workshop holds
+    if jsonb_array_length(coalesce(p_sessions, '[]')) > 0 then
+      if exists (
+        select 1 from jsonb_to_recordset(p_sessions) as x(venue_id uuid, capacity integer)
+        join venues v on v.id = x.venue_id
+        where coalesce(x.capacity, new_evt.max_participants) > v.capacity
+      ) then
+        return json_build_object('code', 'over_capacity');
+      end if;
+      if exists (
+        select 1 from jsonb_to_recordset(p_sessions) as x(venue_id uuid, date date, start_time text, end_time text)
+        cross join lateral venue_conflicts(x.venue_id, x.date, x.start_time, x.end_time, p_event_id) c
+        where c.status = 'approved'
+      ) then
+        return json_build_object('code', 'venue_conflict');
+      end if;
+    elsif p_sessions is not null or not exists (select 1 from event_sessions where event_id = p_event_id) then
+      if exists (select 1 from venues v where v.id = new_evt.venue_id and new_evt.max_participants > v.capacity) then
+        return json_build_object('code', 'over_capacity');
+      end if;
+      if exists (
+        select 1 from venue_conflicts(new_evt.venue_id, new_evt.date, new_evt.start_time, new_evt.end_time, p_event_id) c
+        where c.status = 'approved'
+      ) then
+        return json_build_object('code', 'venue_conflict');
+      end if;
+    end if;
+
+    if p_sessions is not null then
+      select coalesce(array_agg((x->>'id')::uuid), '{}') into kept_sessions
+        from jsonb_array_elements(p_sessions) x where x->>'id' is not null;
+      if exists (
+        select 1 from session_attendance a join event_sessions s on s.id = a.session_id
+        where s.event_id = p_event_id and not s.id = any(kept_sessions)
+      ) then
+        return json_build_object('code', 'session_has_attendance');
+      end if;
+
+      select string_agg(format('%s: %s %s-%s @ %s', title, date, start_time, end_time, venue), '; ' order by date, start_time)
+        into old_sessions from event_sessions where event_id = p_event_id;
+      delete from event_sessions where event_id = p_event_id and not id = any(kept_sessions);
+      update event_sessions s
+        set title = x.title, venue = x.venue, venue_id = x.venue_id, date = x.date, start_time = x.start_time, end_time = x.end_time, capacity = x.capacity
+        from jsonb_to_recordset(p_sessions) as x(id uuid, title text, venue text, venue_id uuid, date date, start_time text, end_time text, capacity integer)
+        where s.id = x.id and s.event_id = p_event_id;
+      insert into event_sessions (event_id, title, venue, venue_id, date, start_time, end_time, capacity)
+        select p_event_id, x.title, x.venue, x.venue_id, x.date, x.start_time, x.end_time, x.capacity
+        from jsonb_to_recordset(p_sessions) as x(id uuid, title text, venue text, venue_id uuid, date date, start_time text, end_time text, capacity integer)
+        where x.id is null;
+      select string_agg(format('%s: %s %s-%s @ %s', title, date, start_time, end_time, venue), '; ' order by date, start_time)
+        into new_sessions from event_sessions where event_id = p_event_id;
+      if old_sessions is distinct from new_sessions then
+        changes := changes || jsonb_build_object('field', 'sessions', 'from', old_sessions, 'to', new_sessions);
+      end if;
+    end if;
+
+    if p_tag_ids is not null then
+      delete from event_tags where event_id = p_event_id;
+      insert into event_tags (event_id, tag_id) select p_event_id, tag_id from unnest(p_tag_ids) as tag_id;
+    end if;
+
+    if jsonb_array_length(changes) = 0 then
+      return json_build_object('code', 'ok', 'changes', changes, 'sent_for_review', false);
+    end if;
+
+    -- Reviewers' own edits never need a second look
+    if old_evt.status = 'approved' and not can('events.review', p_event_id)
+      and exists (select 1 from jsonb_array_elements(changes) c where c->>'field' = any(schedule_fields))
+      and coalesce((select value from app_settings where key = 'review_schedule_changes'), 'false') = 'true' then
+      new_evt.status := 'pending';
+      sent_for_review := true;
+    end if;
+
+    update events set
+      title = new_evt.title, description = new_evt.description, venue = new_evt.venue, venue_id = new_evt.venue_id, date = new_evt.date,
+      start_time = new_evt.start_time, end_time = new_evt.end_time, max_participants = new_evt.max_participants,
+      cancellation_cutoff_hours = new_evt.cancellation_cutoff_hours, min_attendance_minutes = new_evt.min_attendance_minutes,
+      poster_url = new_evt.poster_url, status = new_evt.status
+      where id = p_event_id;
+    if new_evt.title <> old_evt.title then
+      update registrations set event_title = new_evt.title where event_id = p_event_id;
+      update participants set event_title = new_evt.title where event_id = p_event_id;
+    end if;
+    if new_evt.max_participants > old_evt.max_participants then
+      perform promote_waitlist(p_event_id);
+    end if;
+
+    insert into event_changes (event_id, changed_by, changed_by_name, changes, sent_for_review)
+      values (p_event_id, auth.uid(), (select name from users where id = auth.uid()), changes, sent_for_review);
+    if sent_for_review then
+      insert into event_status_history (event_id, from_status, to_status, comment, acted_by, acted_by_name)
+        values (p_event_id, old_evt.status, 'pending', 'Date, time or venue changed.', auth.uid(), (select name from users where id = auth.uid()));
+    end if;
+    insert into notifications (user_id, event_id, kind, title, changes)
+      select distinct user_id, p_event_id, 'event_updated', new_evt.title, changes
+      from registrations where event_id = p_event_id and status <> 'cancelled';
+    return json_build_object('code', 'ok', 'changes', changes, 'sent_for_review', sent_for_review);
+  end;
+  $$;
+
+  -- A pass expires a few hours after its event ends, so its holder has it re-signed when the event moves.
+  -- Only a pass whose expiry no longer matches the event's schedule is re-signed.
+  create or replace function reissue_pass(p_registration_id uuid) returns boolean
+  language plpgsql security definer set search_path = public as $$
+  begin
+    update registrations set qr_payload = sign_pass(id, event_id)
+      where id = p_registration_id and user_id = auth.uid() and status in ('registered', 'waitlisted')
+        and (pass_claims(qr_payload)->>'exp')::bigint is distinct from pass_expiry(event_id);
+    return found;
+  end;
+  $$;
+
+  -- Cancelling keeps the event and its registrations; outstanding passes are voided so no terminal admits them
+  create or replace function cancel_event(p_event_id uuid, p_reason text) returns json
+  language plpgsql security definer set search_path = public as $$
+  declare
+    evt events%rowtype;
+    voided integer;
+  begin
+    if not can('events.cancel', p_event_id) then
+      return json_build_object('code', 'not_authorised');
+    end if;
+    if coalesce(trim(p_reason), '') = '' then
+      return json_build_object('code', 'reason_required');
+    end if;
+    select * into evt from events where id = p_event_id for update;
+    if not found then
+      return json_build_object('code', 'not_found');
+    end if;
+    if evt.status = 'cancelled' then
+      return json_build_object('code', 'cancelled');
+    end if;
+
+    update events set status = 'cancelled', cancellation_reason = trim(p_reason), cancelled_at = now(), cancelled_by = auth.uid()
+      where id = p_event_id;
+    insert into event_status_history (event_id, from_status, to_status, comment, acted_by, acted_by_name)
+      values (p_event_id, evt.status, 'cancelled', trim(p_reason), auth.uid(), (select name from users where id = auth.uid()));
+    insert into notifications (user_id, event_id, kind, title, message)
+      select distinct user_id, p_event_id, 'event_cancelled', evt.title, trim(p_reason)
+      from registrations where event_id = p_event_id and status in ('registered', 'waitlisted');
+    update registrations set status = 'voided' where event_id = p_event_id and status in ('registered', 'waitlisted');
+    get diagnostics voided = row_count;
+    delete from event_staff where event_id = p_event_id;
+    return json_build_object('code', 'ok', 'voided', voided);
+  end;
+  $$;
+
+  -- 17. Review Workflow & Status History
+  -- Every status transition of a workshop or account, with who made it and the comment they left
+  create table event_status_history (
+    id uuid default gen_random_uuid() primary key,
+    event_id uuid references events(id) on delete cascade,
+    from_status text,
+    to_status text not null,
+    comment text,
+    acted_by uuid references users(id),
+    acted_by_name text,
+    created_at timestamp with time zone default now()
+  );
+
+  create table user_status_history (
+    id uuid default gen_random_uuid() primary key,
+    user_id uuid references users(id) on delete cascade,
+    from_status text,
+    to_status text not null,
+    comment text,
+    acted_by uuid references users(id),
+    acted_by_name text,
+    created_at timestamp with time zone default now()
+  );
+
+  alter table event_status_history enable row level security;
+  alter table user_status_history enable row level security;
+
+  create policy event_status_history_read on event_status_history for select
+    using (can('events.edit', event_id) or can('events.review', event_id));
+  create policy user_status_history_read on user_status_history for select
+    using (user_id = auth.uid() or can('users.review'));
+
+  -- A reviewer's decision on a pending workshop; rejecting or asking for changes needs a comment
+  create or replace function review_event(p_event_id uuid, p_status text, p_comment text default null) returns json
+  language plpgsql security definer set search_path = public as $$
+  declare
+    evt events%rowtype;
+  begin
+    if not can('events.review', p_event_id) then
+      return json_build_object('code', 'not_authorised');
+    end if;
+    if p_status not in ('approved', 'rejected', 'changes_requested') then
+      return json_build_object('code', 'invalid_status');
+    end if;
+    if p_status <> 'approved' and coalesce(trim(p_comment), '') = '' then
+      return json_build_object('code', 'comment_required');
+    end if;
+    select * into evt from events where id = p_event_id for update;
+    if not found then
+      return json_build_object('code', 'not_found');
+    end if;
+    if evt.status <> 'pending' then
+      return json_build_object('code', 'not_pending');
+    end if;
+    if p_status = 'approved' then
+      if exists (select 1 from venue_slots() s join venues v on v.id = s.venue_id where s.event_id = p_event_id and s.capacity > v.capacity) then
+        return json_build_object('code', 'over_capacity');
+      end if;
+      if exists (select 1 from event_conflicts() c where c.event_id = p_event_id and c.status = 'approved') then
+        return json_build_object('code', 'venue_conflict');
+      end if;
+    end if;
+
+    update events set status = p_status, review_comment = nullif(trim(p_comment), '') where id = p_event_id;
+    insert into event_status_history (event_id, from_status, to_status, comment, acted_by, acted_by_name)
+      values (p_event_id, evt.status, p_status, nullif(trim(p_comment), ''), auth.uid(), (select name from users where id = auth.uid()));
+    return json_build_object('code', 'ok');
+  end;
+  $$;
+
+  -- Puts a workshop the reviewer asked changes for back into the queue
+  create or replace function resubmit_event(p_event_id uuid, p_note text default null) returns json
+  language plpgsql security definer set search_path = public as $$
+  declare
+    evt events%rowtype;
+  begin
+    if not can('events.edit', p_event_id) then
+      return json_build_object('code', 'not_authorised');
+    end if;
+    select * into evt from events where id = p_event_id for update;
+    if not found then
+      return json_build_object('code', 'not_found');
+    end if;
+    if evt.status <> 'changes_requested' then
+      return json_build_object('code', 'not_requested');
+    end if;
+
+    update events set status = 'pending' where id = p_event_id;
+    insert into event_status_history (event_id, from_status, to_status, comment, acted_by, acted_by_name)
+      values (p_event_id, evt.status, 'pending', nullif(trim(p_note), ''), auth.uid(), (select name from users where id = auth.uid()));
+    return json_build_object('code', 'ok');
+  end;
+  $$;
+
+  -- Accounts asked for changes hold no capabilities; their holder can still fix their profile and resubmit it
+  create or replace function resubmit_account(p_note text default null) returns json
+  language plpgsql security definer set search_path = public as $$
+  declare
+    previous text;
+  begin
+    select status into previous from users where id = auth.uid() for update;
+    if previous is distinct from 'changes_requested' then
+      return json_build_object('code', 'not_requested');
+    end if;
+
+    update users set status = 'pending' where id = auth.uid();
+    insert into user_status_history (user_id, from_status, to_status, comment, acted_by, acted_by_name)
+      values (auth.uid(), previous, 'pending', nullif(trim(p_note), ''), auth.uid(), (select name from users where id = auth.uid()));
+    return json_build_object('code', 'ok');
+  end;
+  $$;
+
+  -- 18. Venue Registry & Booking Conflicts
+  create table venues (
+    id uuid default gen_random_uuid() primary key,
+    name text unique not null,
+    building text,
+    capacity integer not null check (capacity > 0),
+    created_at timestamp with time zone default now()
+  );
+
+  -- The venue text columns keep the name for display, and for workshops booked before the registry existed
+  alter table events add column venue_id uuid references venues(id) on delete set null;
+  alter table event_sessions add column venue_id uuid references venues(id) on delete set null;
+
+  alter table venues enable row level security;
+  create policy venues_read on venues for select using (true);
+  create policy venues_manage on venues for all using (can('venues.manage')) with check (can('venues.manage'));
+
+  -- Every booked slot: an event without sessions holds one, otherwise each session holds its own
+  create or replace function venue_slots()
+  returns table (event_id uuid, title text, status text, venue_id uuid, date date, start_time text, end_time text, capacity integer)
+  language sql stable security definer set search_path = public as $$
+    select e.id, e.title, e.status, e.venue_id, e.date, e.start_time, e.end_time, e.max_participants
+      from events e
+      where not exists (select 1 from event_sessions s where s.event_id = e.id)
+    union all
+    select e.id, e.title, e.status, s.venue_id, s.date, s.start_time, s.end_time, coalesce(s.capacity, e.max_participants)
+      from event_sessions s join events e on e.id = s.event_id;
+  $$;
+
+  -- Bookings overlapping a slot in the same venue. Rejected and cancelled workshops no longer hold their room.
+  create or replace function venue_conflicts(
+    p_venue_id uuid,
+    p_date date,
+    p_start_time text,
+    p_end_time text,
+    p_event_id uuid default null
+  ) returns table (event_id uuid, title text, status text, date date, start_time text, end_time text)
+  language sql stable security definer set search_path = public as $$
+    select b.event_id, b.title, b.status, b.date, b.start_time, b.end_time from venue_slots() b
+    where b.venue_id = p_venue_id and b.date = p_date
+      and b.start_time < p_end_time and p_start_time < b.end_time
+      and b.status in ('pending', 'approved', 'changes_requested')
+      and (p_event_id is null or b.event_id <> p_event_id);
+  $$;
+
+  -- Every overlapping pair among active workshops, listed from both sides; feeds the approval queue
+  create or replace function event_conflicts()
+  returns table (event_id uuid, conflicting_event_id uuid, title text, status text, venue_id uuid, date date, start_time text, end_time text)
+  language sql stable security definer set search_path = public as $$
+    select a.event_id, b.event_id, b.title, b.status, b.venue_id, b.date, b.start_time, b.end_time
+    from venue_slots() a
+    join venue_slots() b on b.venue_id = a.venue_id and b.date = a.date and b.event_id <> a.event_id
+      and a.start_time < b.end_time and b.start_time < a.end_time
+    where a.status in ('pending', 'approved', 'changes_requested')
+      and b.status in ('pending', 'approved', 'changes_requested');
+  $$;
+
+  -- 19. Recurring Series
+  -- A series groups the workshops generated from one recurrence rule. Each occurrence is an ordinary event,
+  -- reviewed, edited, registered for and cancelled on its own; the series only links them.
+  create table event_series (
+    id uuid primary key default gen_random_uuid(),
+    organizer_id uuid references users(id) on delete cascade,
+    title text not null,
+    rule jsonb not null, -- { frequency, interval, until?, count?, skipDates }
+    created_at timestamp with time zone default now()
+  );
+
+  alter table events add column series_id uuid references event_series(id) on delete set null;
+  alter table events add column series_index integer; -- 1-based position of the occurrence within its series
+
+  alter table event_series enable row level security;
+  create policy series_read on event_series for select using (true);
+  create policy series_create on event_series for insert with check (can('events.propose') and organizer_id = auth.uid());
+  create policy series_delete on event_series for delete using (organizer_id = auth.uid());
+
+  -- Applies one decision to every pending occurrence the caller may review. Occurrences that fail
+  -- (a venue clash, say) stay pending and are listed with their failure code.
+  create or replace function review_series(p_series_id uuid, p_status text, p_comment text default null) returns json
+  language plpgsql security definer set search_path = public as $$
+  declare
+    occurrence record;
+    result json;
+    reviewed integer := 0;
+    failed jsonb := '[]'::jsonb;
+  begin
+    for occurrence in
+      select id from events where series_id = p_series_id and status = 'pending' order by series_index
+    loop
+      result := review_event(occurrence.id, p_status, p_comment);
+      if result->>'code' = 'ok' then
+        reviewed := reviewed + 1;
+      else
+        failed := failed || jsonb_build_object('event_id', occurrence.id, 'code', result->>'code');
+      end if;
+    end loop;
+    return json_build_object('code', 'ok', 'reviewed', reviewed, 'failed', failed);
+  end;
+  $$;
+
+  -- 20. Departments & Tags
+  -- Managed lists behind the department picker and the workshop catalogue filters. The department codes
+  -- are the ones University IDs carry (DEPARTMENT_CODES in enrollment.ts).
+  create table departments (
+    code text primary key,
+    name text not null
+  );
+
+  insert into departments (code, name) values
+    ('ICT', 'Information & Communication Technology'),
+    ('IAT', 'Instrumentation & Automation Technology'),
+    ('BST', 'Biosystems Technology'),
+    ('EVT', 'Environmental Technology'),
+    ('AGT', 'Agricultural Technology');
+
+  -- Every existing workshop has to use one of the codes above before this runs
+  alter table events add constraint events_department_fkey foreign key (department) references departments(code) on update cascade;
+
+  create table tags (
+    id uuid primary key default gen_random_uuid(),
+    name text unique not null
+  );
+
+  create table event_tags (
+    event_id uuid references events(id) on delete cascade,
+    tag_id uuid references tags(id) on delete cascade,
+    primary key (event_id, tag_id)
   );
 
-  -- 5. Initial Admin Seed
-  -- Note: Password '123' hashed with SHA-256 is 'a665a45920422f9d417e4867efdc4fb8a04a1f3fff1fa07e998e86f7f7a27ae3'
-  insert into users (name, email, password, role, status, uni_id, profile_photo)
-  values ('System Admin', 'admin@gmail.com', 'a665a45920422f9d417e4867efdc4fb8a04a1f3fff1fa07e998e86f7f7a27ae3', 'admin', 'approved', 'ADMIN-001', '/admin.png')
-  on conflict (email) do nothing;
+  alter table departments enable row level security;
+  alter table tags enable row level security;
+  alter table event_tags enable row level security;
+  create policy departments_read on departments for select using (true);
+  create policy departments_manage on departments for all using (can('taxonomy.manage')) with check (can('taxonomy.manage'));
+  create policy tags_read on tags for select using (true);
+  create policy tags_manage on tags for all using (can('taxonomy.manage')) with check (can('taxonomy.manage'));
+  create policy event_tags_read on event_tags for select using (true);
+  -- Tagging a workshop is part of editing it
+  create policy event_tags_write on event_tags for all using (can('events.edit', event_id)) with check (can('events.edit', event_id));
+
+  -- 21. Registry & Activity Search
+  -- The admin tables page through these instead of loading every row. Both run with the caller's row-level
+  -- security, sort on a whitelisted column with id as the tie-breaker, and continue after the (sort value, id)
+  -- of the previous page's last row, which each row carries as sort_key. total counts every match. A page holds at
+  -- most 101 rows: MAX_PAGE_SIZE in repository.ts plus the one that shows another page follows. The activity
+  -- date range comes as instants, so it means the admin's local days whatever the database's time zone.
+  create extension if not exists pg_trgm;
+  create index users_search_idx on users using gin ((name || ' ' || uni_id || ' ' || email) gin_trgm_ops);
+  create index participants_check_in_idx on participants (check_in_time, id);
+  create index participants_search_idx on participants using gin ((coalesce(user_name, '') || ' ' || coalesce(event_title, '')) gin_trgm_ops);
+
+  create or replace function search_users(
+    p_search text default null,
+    p_role text default null,
+    p_sort text default 'name',
+    p_ascending boolean default true,
+    p_after_value text default null,
+    p_after_id uuid default null,
+    p_limit integer default 25
+  ) returns json
+  language plpgsql stable set search_path = public as $$
+  declare
+    sort_col text := case p_sort when 'uniId' then 'uni_id' when 'email' then 'email' when 'createdAt' then 'created_at' else 'name' end;
+    sort_type text := case when p_sort = 'createdAt' then 'timestamptz' else 'text' end;
+    pattern text := case when trim(coalesce(p_search, '')) <> '' then '%' || trim(p_search) || '%' end;
+    page_size integer := least(greatest(coalesce(p_limit, 25), 1), 101);
+    matches text := '($1::text is null or (u.name || '' '' || u.uni_id || '' '' || u.email) ilike $1)';
+    total integer;
+    roles json;
+    items json;
+  begin
+    execute 'select count(*) from users u where ' || matches || ' and ($2::text is null or u.role = $2)'
+      into total using pattern, p_role;
+    execute 'select coalesce(json_object_agg(role, n), ''{}'') from (select u.role, count(*) as n from users u where '
+      || matches || ' group by u.role) r'
+      into roles using pattern;
+    execute format(
+      'select coalesce(json_agg(page order by page.rn), ''[]'') from (
+         select u.*, u.%1$I::text as sort_key, row_number() over (order by u.%1$I %3$s, u.id %3$s) as rn
+         from users u
+         where %4$s and ($2::text is null or u.role = $2)
+           and ($3::text is null or (u.%1$I, u.id) %2$s ($3::%5$s, $4))
+         order by u.%1$I %3$s, u.id %3$s
+         limit $5
+       ) page',
+      sort_col, case when p_ascending then '>' else '<' end, case when p_ascending then 'asc' else 'desc' end, matches, sort_type)
+      into items using pattern, p_role, p_after_value, p_after_id, page_size;
+    return json_build_object('items', items, 'total', total, 'roles', roles);
+  end;
+  $$;
+
+  create or replace function search_activity(
+    p_search text default null,
+    p_event_id uuid default null,
+    p_from timestamp with time zone default null,
+    p_to timestamp with time zone default null,
+    p_sort text default 'checkInTime',
+    p_ascending boolean default false,
+    p_after_value text default null,
+    p_after_id uuid default null,
+    p_limit integer default 25
+  ) returns json
+  language plpgsql stable set search_path = public as $$
+  declare
+    sort_expr text := case p_sort when 'member' then 'coalesce(p.user_name, '''')' when 'event' then 'coalesce(p.event_title, '''')' else 'p.check_in_time' end;
+    sort_type text := case when p_sort in ('member', 'event') then 'text' else 'timestamptz' end;
+    pattern text := case when trim(coalesce(p_search, '')) <> '' then '%' || trim(p_search) || '%' end;
+    page_size integer := least(greatest(coalesce(p_limit, 25), 1), 101);
+    matches text := '($1::text is null or (coalesce(p.user_name, '''') || '' '' || coalesce(p.event_title, '''')) ilike $1
+        or exists (select 1 from users u where u.id = p.user_id and (u.uni_id || '' '' || u.email) ilike $1))
+      and ($2::uuid is null or p.event_id = $2)
+      and ($3::timestamptz is null or p.check_in_time >= $3)
+      and ($4::timestamptz is null or p.check_in_time < $4)';
+    total integer;
+    items json;
+  begin
+    execute 'select count(*) from participants p where ' || matches
+      into total using pattern, p_event_id, p_from, p_to;
+    execute format(
+      'select coalesce(json_agg(page order by page.rn), ''[]'') from (
+         select p.*, (%1$s)::text as sort_key, row_number() over (order by %1$s %3$s, p.id %3$s) as rn
+         from participants p
+         where %4$s and ($5::text is null or (%1$s, p.id) %2$s ($5::%5$s, $6))
+         order by %1$s %3$s, p.id %3$s
+         limit $7
+       ) page',
+      sort_expr, case when p_ascending then '>' else '<' end, case when p_ascending then 'asc' else 'desc' end, matches, sort_type)
+      into items using pattern, p_event_id, p_from, p_to, p_after_value, p_after_id, page_size;
+    return json_build_object('items', items, 'total', total);
+  end;
+  $$;
+
+  -- 22. Live Attendance
+  -- The entrance display listens for participant and registration changes over Supabase Realtime (which
+  -- applies the read policies above) and re-reads this snapshot on each one. Arrivals include the attendee's
+  -- photo, which users_read hides from organizers, so it runs as definer behind the attendance.view check.
+  alter publication supabase_realtime add table participants, registrations;
+
+  create or replace function live_attendance(p_event_id uuid) returns json
+  language plpgsql stable security definer set search_path = public as $$
+  begin
+    if not can('attendance.view', p_event_id) then
+      return json_build_object('code', 'not_authorised');
+    end if;
+    return json_build_object(
+      'code', 'ok',
+      'registered', (select count(*) from registrations where event_id = p_event_id and status in ('registered', 'checked-in')),
+      'check_ins', coalesce((select json_agg(check_in_time order by check_in_time) from participants where event_id = p_event_id), '[]'),
+      'latest', coalesce((
+        select json_agg(a order by a.check_in_time desc) from (
+          select p.registration_id, p.user_name, u.uni_id, u.profile_photo, p.check_in_time
+          from participants p left join users u on u.id = p.user_id
+          where p.event_id = p_event_id
+          order by p.check_in_time desc
+          limit 12
+        ) a
+      ), '[]')
+    );
+  end;
+  $$;
+
+  -- 23. Initial Admin
+  -- Create admin@gmail.com under Authentication > Users in the Supabase dashboard (it is listed in
+  -- app_settings.enrollment_exempt_emails, so the signup trigger lets it through), then promote it:
+  update users
+    set role = 'admin', status = 'approved', uni_id = 'ADMIN-001', name = 'System Admin', profile_photo = '/admin.png'
+    where email = 'admin@gmail.com';
 */
 
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
-import { User, Event, Registration } from './types';
-
-const SUPABASE_URL = (process.env as any).SUPABASE_URL || 'https://kfbnobnuqlnugqesdwmj.supabase.co';
-const SUPABASE_ANON_KEY = (process.env as any).SUPABASE_ANON_KEY || 'sb_publishable_wHrJ8oJPCDLD6Kr75ItsPA_LgvqUZcD';
-
-let supabase: SupabaseClient | null = null;
-if (SUPABASE_URL && SUPABASE_ANON_KEY) {
-  supabase = createClient(SUPABASE_URL, SUPABASE_ANON_KEY);
-}
-
-const mapUser = (data: any): User => ({
-  _id: data.id,
-  name: data.name,
-  email: data.email,
-  password: data.password,
-  role: data.role,
-  uniId: data.uni_id,
-  profilePhoto: data.profile_photo,
-  status: data.status || 'approved',
-});
-
-const mapEvent = (data: any): Event => ({
-  _id: data.id,
-  title: data.title,
-  description: data.description,
-  organizerName: data.organizer_name,
-  organizerEmail: data.organizer_email,
-  organizerId: data.organizer_id,
-  department: data.department,
-  venue: data.venue,
-  date: data.date,
-  startTime: data.start_time,
-  endTime: data.end_time,
-  maxParticipants: data.max_participants,
-  status: data.status,
-  createdAt: data.created_at,
-  posterUrl: data.poster_url,
-});
-
-const mapReg = (data: any): Registration => ({
-  _id: data.id,
-  userId: data.user_id,
-  userName: data.user_name,
-  eventId: data.event_id,
-  eventTitle: data.event_title,
-  timestamp: data.timestamp,
-  status: data.status,
-  qrPayload: data.qr_payload,
-  checkInTime: data.check_in_time,
-});
-
-export const DB = {
-  isConfigured: () => !!supabase,
-
-  // --- CRYPTO UTILITY ---
-  hashPassword: async (password: string): Promise<string> => {
-    const msgBuffer = new TextEncoder().encode(password);
-    const hashBuffer = await crypto.subtle.digest('SHA-256', msgBuffer);
-    const hashArray = Array.from(new Uint8Array(hashBuffer));
-    return hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
-  },
-
-  init: async () => {
-    if (!supabase) return;
-    try {
-      const { data: admin } = await supabase
-        .from('users')
-        .select('id')
-        .eq('email', 'admin@gmail.com')
-        .maybeSingle();
-      
-      if (!admin) {
-        // Use hashed '123'
-        const hashedPassword = await DB.hashPassword('123');
-        await supabase.from('users').insert([{
-          name: 'System Admin',
-          email: 'admin@gmail.com',
-          password: hashedPassword,
-          role: 'admin',
-          status: 'approved',
-          uni_id: 'ADMIN-001',
-          profile_photo: '/admin.png'
-        }]);
-      }
-    } catch (e) {
-      console.error("Database initialization check failed:", e);
-    }
-  },
+import { User, UserRole, Event, EventChange, Registration, EventOccupancy, LiveAttendance, SessionCheckIn, StaffGrant, EventRevision, UserNotification, StatusChange, Venue, VenueConflict, RecurrenceRule, EventSeries, Department, Tag } from './types';
+import { inspectPassToken, PASS_REJECTION_MESSAGES } from './passToken';
+import { MailTransport, createSupabaseTransport, createStubTransport } from './mailer';
+import { validateEnrollment, parseUniId, EnrollmentError } from './enrollment';
+import { toDataError, ConflictError, PermissionError } from './errors';
+import { can, Capability } from './permissions';
+import {
+  Repository, EventProposal, EventEdit, BookingRequest, PassResult, composedOperations, passExpiry, bookingSlots,
+  CHECK_IN_FAILURES, REVIEW_FAILURES, CREATE_FAILURES, UPDATE_FAILURES, CANCEL_FAILURES, GATE_STAFF_FAILURES, replayConflict, releaseFailure,
+  Page, UserPage, UserQuery, ActivityQuery, pageLimit, activityRange, decodeCursor, toPage,
+  mapLiveAttendance, mapUser, mapEvent, mapVenue, mapTag, mapSeries, mapConflict, mapStaffGrant, mapChange, mapRevision, mapNotification, mapStatusChange, mapSessionCheckIn, mapReg,
+} from './repository';
+import { createMemoryRepository, DEMO_ACCOUNTS } from './memoryDb';
 
-  findUserByEmail: async (email: string): Promise<User | undefined> => {
-    if (!supabase) throw new Error("Database not configured");
-    const { data, error } = await supabase
-      .from('users')
-      .select('*')
-      .eq('email', email)
-      .maybeSingle();
-    
-    if (error) throw error;
-    if (!data) return undefined;
-    return mapUser(data);
-  },
-
-  createUser: async (user: Omit<User, '_id'>): Promise<User> => {
-    if (!supabase) throw new Error("Database not configured");
-    const status = user.role === 'organizer' ? 'pending' : 'approved';
-    const hashedPassword = await DB.hashPassword(user.password || '');
-    
+const SUPABASE_URL = process.env.SUPABASE_URL || 'https://kfbnobnuqlnugqesdwmj.supabase.co';
+const SUPABASE_ANON_KEY = process.env.SUPABASE_ANON_KEY || 'sb_publishable_wHrJ8oJPCDLD6Kr75ItsPA_LgvqUZcD';
+
+// supabase-js clears the URL hash once it has consumed a reset link, so note it before the client starts.
+const OPENED_FROM_RECOVERY_LINK = typeof window !== 'undefined' && /type=recovery/.test(window.location.hash);
+
+// Links in account mails bring the user back to the app, where supabase-js picks up the token.
+const appUrl = () => window.location.origin;
+
+export const createSupabaseRepository = (supabase: SupabaseClient): Repository => {
+  let mailTransport: MailTransport = process.env.MAIL_TRANSPORT === 'stub'
+    ? createStubTransport()
+    : createSupabaseTransport(supabase);
+
+  // Profile of the signed-in user, kept so methods can check capabilities before calling the server.
+  let sessionUser: User | null = null;
+  const allowed = (capability: Capability, event?: Pick<Event, '_id' | 'organizerId' | 'department'>) => can(sessionUser, capability, event);
+
+  // Looks up just enough of an event to resolve 'own' and 'department' scoped capabilities.
+  const eventScope = async (eventId: string): Promise<Pick<Event, '_id' | 'organizerId' | 'department'> | null> => {
+    const { data, error } = await supabase.from('events').select('id, organizer_id, department').eq('id', eventId).maybeSingle();
+    if (error) throw toDataError(error, 'Could not load the workshop.');
+    return data ? { _id: data.id, organizerId: data.organizer_id, department: data.department } : null;
+  };
+
+  const saveSeries = async (organizerId: string, title: string, rule: RecurrenceRule): Promise<EventSeries> => {
+    if (!allowed('events.propose')) throw new PermissionError('Your account cannot host workshops.');
     const { data, error } = await supabase
-      .from('users')
-      .insert([
-        {
-          name: user.name,
-          email: user.email,
-          password: hashedPassword,
-          role: user.role,
-          uni_id: user.uniId,
-          profile_photo: user.profilePhoto,
-          status: status
-        }
-      ])
+      .from('event_series')
+      .insert([{ organizer_id: organizerId, title, rule }])
       .select()
       .single();
-    
-    if (error) throw error;
-    return mapUser(data);
-  },
+    if (error) throw toDataError(error, 'Could not save the series.');
+    return mapSeries(data);
+  };
 
-  getAllUsers: async (): Promise<User[]> => {
-    if (!supabase) return [];
-    const { data, error } = await supabase
-      .from('users')
-      .select('*')
-      .order('role', { ascending: true });
-    
-    if (error) return [];
-    return data.map(mapUser);
-  },
+  const repo: Repository = {
+    ...composedOperations(() => repo, saveSeries),
 
-  getPendingUsers: async (): Promise<User[]> => {
-    if (!supabase) return [];
-    const { data, error } = await supabase
-      .from('users')
-      .select('*')
-      .eq('role', 'organizer')
-      .eq('status', 'pending');
+    isConfigured: () => true,
+
+    // --- AUTH ---
+    getCurrentUser: async (): Promise<User | null> => {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) return (sessionUser = null);
+      const [{ data, error }, { data: staffing }] = await Promise.all([
+        supabase.from('users').select('*').eq('id', session.user.id).maybeSingle(),
+        supabase.from('event_staff').select('*').eq('user_id', session.user.id),
+      ]);
+
+      if (error || !data) return (sessionUser = null);
+      sessionUser = {
+        ...mapUser(data),
+        emailVerified: !!session.user.email_confirmed_at,
+        staffGrants: (staffing || []).map(mapStaffGrant),
+      };
+      return sessionUser;
+    },
+
+    // Returns null for a wrong email or password. An unconfirmed email throws a PermissionError.
+    signIn: async (email: string, password: string): Promise<User | null> => {
+      const { error } = await supabase.auth.signInWithPassword({ email, password });
+      if (error) {
+        if (error.code === 'invalid_credentials') return null;
+        if (error.code === 'email_not_confirmed') throw new PermissionError('Please confirm your email address before signing in.', error);
+        throw toDataError(error, 'Sign-in failed.');
+      }
+      return repo.getCurrentUser();
+    },
+
+    signOut: async (): Promise<void> => {
+      sessionUser = null;
+      await supabase.auth.signOut();
+    },
+
+    /**
+     * Calls back with the signed-in profile (or null) whenever the session changes. `recovery` is set when
+     * the session came from a password-reset link. Returns an unsubscribe function.
+     */
+    onAuthChange: (callback: (user: User | null, recovery?: boolean) => void): (() => void) => {
+      const { data: { subscription } } = supabase.auth.onAuthStateChange((event) => {
+        if (event === 'SIGNED_OUT') {
+          sessionUser = null;
+          callback(null);
+        } else if (event === 'SIGNED_IN' || event === 'USER_UPDATED' || event === 'PASSWORD_RECOVERY') {
+          // Supabase forbids awaiting other client calls inside this callback
+          setTimeout(() => { repo.getCurrentUser().then(u => callback(u, event === 'PASSWORD_RECOVERY')); }, 0);
+        }
+      });
+      return () => subscription.unsubscribe();
+    },
+
+    // The profile row is created by the on_auth_user_created trigger from the signup metadata.
+    // Enrollment rules are checked here as well as in the form; violations throw an EnrollmentError.
+    createUser: async (input: Omit<User, '_id' | 'status'> & { password: string }): Promise<User> => {
+      const user = { ...input, email: input.email.trim().toLowerCase(), uniId: input.uniId.trim().toUpperCase() };
+      const departments = (await repo.getDepartments()).map(d => d.code);
+      const invalid = validateEnrollment(user, departments.length > 0 ? departments : undefined);
+      if (Object.keys(invalid).length > 0) throw new EnrollmentError(invalid);
+
+      const { data: taken, error: lookupError } = await supabase.rpc('uni_id_taken', { p_uni_id: user.uniId });
+      if (lookupError) throw toDataError(lookupError, 'Could not check the University ID.');
+      if (taken) throw new EnrollmentError({ uniId: 'This University ID is already enrolled.' });
+
+      const { intakeYear, department } = parseUniId(user.uniId, user.role);
+      const { data, error } = await supabase.auth.signUp({
+        email: user.email,
+        password: user.password,
+        options: {
+          data: { name: user.name, role: user.role, uni_id: user.uniId, intake_year: intakeYear ?? null, department },
+          emailRedirectTo: appUrl(),
+        },
+      });
+
+      if (error) {
+        if (error.code === 'user_already_exists' || error.code === 'email_exists') {
+          throw new EnrollmentError({ email: 'An account with this email already exists.' });
+        }
+        throw toDataError(error, 'Could not create the account.');
+      }
+      // With email confirmation on, Supabase answers a duplicate signup with an identity-less user instead of an error.
+      if (data.user && data.user.identities?.length === 0) {
+        throw new EnrollmentError({ email: 'An account with this email already exists.' });
+      }
+
+      const profile: User = { _id: data.user.id, name: user.name, email: user.email, role: user.role, uniId: user.uniId, intakeYear, department, profilePhoto: user.profilePhoto, status: user.role === 'organizer' ? 'pending' : 'approved' };
+      if (!data.session) {
+        // Email confirmation is on; the profile can't be read until the user signs in.
+        return { ...profile, emailVerified: false };
+      }
+
+      if (user.profilePhoto) {
+        await supabase.from('users').update({ profile_photo: user.profilePhoto }).eq('id', data.user.id);
+      }
+      return (await repo.getCurrentUser()) || profile;
+    },
+
+    // --- ACCOUNT RECOVERY ---
+    setMailTransport: (transport: MailTransport) => { mailTransport = transport; },
+
+    openedFromRecoveryLink: () => OPENED_FROM_RECOVERY_LINK,
+
+    requestEmailVerification: async (email: string): Promise<void> => {
+      await mailTransport.send({ kind: 'verify-email', to: email, redirectTo: appUrl() });
+    },
+
+    // Always resolves for unknown addresses too, so the form can't be used to probe for accounts.
+    requestPasswordReset: async (email: string): Promise<void> => {
+      await mailTransport.send({ kind: 'password-reset', to: email, redirectTo: appUrl() });
+    },
+
+    /** Sets a new password for the session opened by a password-reset link. */
+    resetPassword: async (newPassword: string): Promise<boolean> => {
+      const { error } = await supabase.auth.updateUser({ password: newPassword });
+      // Only a missing or expired recovery session means the link is spent; anything else is worth reporting.
+      if (error && (error.name === 'AuthSessionMissingError' || ['session_not_found', 'session_expired', 'bad_jwt', 'otp_expired'].includes(error.code))) return false;
+      if (error) throw toDataError(error, 'Could not update your password.');
+      return true;
+    },
+
+    changePassword: async (currentPassword: string, newPassword: string): Promise<{ success: boolean; message?: string }> => {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) return { success: false, message: 'Your session has expired. Please sign in again.' };
+
+      // Re-authenticate so an unattended signed-in browser can't be used to take over the account.
+      const { error: authError } = await supabase.auth.signInWithPassword({ email: session.user.email, password: currentPassword });
+      if (authError) return { success: false, message: 'Current password is incorrect.' };
+
+      const { error } = await supabase.auth.updateUser({ password: newPassword });
+      if (error) return { success: false, message: error.code === 'same_password' ? 'New password must differ from the current one.' : error.message };
+      return { success: true };
+    },
+
+    getAllUsers: async (): Promise<User[]> => {
+      if (!allowed('users.view')) return [];
+      const { data, error } = await supabase
+        .from('users')
+        .select('*')
+        .order('role', { ascending: true });
     
-    if (error) return [];
-    return data.map(mapUser);
-  },
-
-  updateUserStatus: async (userId: string, status: 'approved' | 'rejected'): Promise<boolean> => {
-    if (!supabase) throw new Error("Database not configured");
-    const { error } = await supabase
-      .from('users')
-      .update({ status })
-      .eq('id', userId);
+      if (error) throw toDataError(error, 'Could not load accounts.');
+      return data.map(mapUser);
+    },
+
+    searchUsers: async (query: UserQuery): Promise<UserPage> => {
+      if (!allowed('users.view')) return { items: [], total: 0, roleCounts: {} };
+      const after = decodeCursor(query.cursor);
+      const limit = pageLimit(query.limit);
+      const { data, error } = await supabase.rpc('search_users', {
+        p_search: query.search || null,
+        p_role: query.role || null,
+        p_sort: query.sort || 'name',
+        p_ascending: (query.direction || 'asc') === 'asc',
+        p_after_value: after?.sortValue ?? null,
+        p_after_id: after?.id ?? null,
+        p_limit: limit + 1,
+      });
+      if (error) throw toDataError(error, 'Could not search accounts.');
+      return { ...toPage(data.items, data.total, limit, mapUser), roleCounts: data.roles };
+    },
+
+    getPendingUsers: async (): Promise<User[]> => {
+      if (!allowed('users.review')) return [];
+      const { data, error } = await supabase
+        .from('users')
+        .select('*')
+        .eq('role', 'organizer')
+        .eq('status', 'pending');
     
-    return !error;
-  },
+      if (error) throw toDataError(error, 'Could not load pending accounts.');
+      return data.map(mapUser);
+    },
 
-  getEvents: async (): Promise<Event[]> => {
-    if (!supabase) return [];
-    const { data, error } = await supabase
-      .from('events')
-      .select('*')
-      .order('created_at', { ascending: false });
+    /** Records a reviewer's decision on an account. Rejecting or requesting changes needs a comment. */
+    updateUserStatus: async (userId: string, status: 'approved' | 'rejected' | 'changes_requested', comment?: string): Promise<{ success: boolean; message?: string }> => {
+      if (!allowed('users.review')) return { success: false, message: REVIEW_FAILURES['not_authorised'] };
+      const { data, error } = await supabase.rpc('set_user_status', { p_user_id: userId, p_status: status, p_comment: comment || null });
+      if (error) throw toDataError(error, 'Review failed.');
+      if (!data) return { success: false, message: 'Review failed.' };
+      if (data.code !== 'ok') return { success: false, message: REVIEW_FAILURES[data.code] || 'Review failed.' };
+      return { success: true };
+    },
+
+    /** Sends the signed-in account back to the review queue after the changes a reviewer asked for. */
+    resubmitAccount: async (note?: string): Promise<{ success: boolean; message?: string }> => {
+      const { data, error } = await supabase.rpc('resubmit_account', { p_note: note || null });
+      if (error) throw toDataError(error, 'Resubmission failed.');
+      if (!data) return { success: false, message: 'Resubmission failed.' };
+      if (data.code !== 'ok') return { success: false, message: REVIEW_FAILURES[data.code] || 'Resubmission failed.' };
+      await repo.getCurrentUser();
+      return { success: true };
+    },
+
+    updateProfile: async (patch: Partial<Pick<User, 'name' | 'profilePhoto'>>): Promise<boolean> => {
+      if (!sessionUser) return false;
+      const { error } = await supabase
+        .from('users')
+        .update({ name: patch.name, profile_photo: patch.profilePhoto })
+        .eq('id', sessionUser._id);
+      if (error) throw toDataError(error, 'Could not save your profile.');
+      await repo.getCurrentUser();
+      return true;
+    },
+
+    getUserStatusHistory: async (userId: string): Promise<StatusChange[]> => {
+      const { data, error } = await supabase
+        .from('user_status_history')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw toDataError(error, 'Could not load the account history.');
+      return data.map(mapStatusChange);
+    },
+
+    setUserRole: async (userId: string, role: UserRole): Promise<boolean> => {
+      if (!allowed('users.review')) return false;
+      const { data, error } = await supabase.rpc('set_user_role', { p_user_id: userId, p_role: role });
+      if (error) throw toDataError(error, 'Role change failed.');
+      return data === true;
+    },
+
+    getEvents: async (): Promise<Event[]> => {
+      const { data, error } = await supabase
+        .from('events')
+        .select('*, event_sessions(*), event_tags(tag_id)')
+        .order('created_at', { ascending: false });
     
-    if (error) return [];
-    return data.map(mapEvent);
-  },
+      if (error) throw toDataError(error, 'Could not load workshops.');
+      return data.map(mapEvent);
+    },
 
-  createEvent: async (evt: Omit<Event, '_id' | 'status' | 'createdAt'>): Promise<Event> => {
-    if (!supabase) throw new Error("Database not configured");
-    const { data, error } = await supabase
-      .from('events')
-      .insert([
-        {
+    getEvent: async (eventId: string): Promise<Event | null> => {
+      const { data, error } = await supabase
+        .from('events')
+        .select('*, event_sessions(*), event_tags(tag_id)')
+        .eq('id', eventId)
+        .maybeSingle();
+
+      if (error) throw toDataError(error, 'Could not load the workshop.');
+      return data ? mapEvent(data) : null;
+    },
+
+    createEvent: async (evt: EventProposal): Promise<Event> => {
+      if (!allowed('events.propose')) throw new PermissionError('Your account cannot host workshops.');
+      // Checked here to name the venue and clash; create_event refuses the same bookings on its own
+      const { problem } = await repo.checkBooking(evt);
+      if (problem) throw new ConflictError(problem);
+      // The event, its sessions and its tags are saved in one transaction
+      const { data, error } = await supabase.rpc('create_event', {
+        p_event: {
           title: evt.title,
           description: evt.description,
           organizer_name: evt.organizerName,
@@ -257,139 +1805,604 @@ export const DB = {
           organizer_id: evt.organizerId,
           department: evt.department,
           venue: evt.venue,
+          venue_id: evt.venueId || null,
           date: evt.date,
           start_time: evt.startTime,
           end_time: evt.endTime,
           max_participants: evt.maxParticipants,
+          cancellation_cutoff_hours: evt.cancellationCutoffHours,
+          min_attendance_minutes: evt.minAttendanceMinutes,
           poster_url: evt.posterUrl,
-          status: 'pending'
-        }
-      ])
-      .select()
-      .single();
-    
-    if (error) throw error;
-    return mapEvent(data);
-  },
-
-  updateEventStatus: async (eventId: string, status: 'approved' | 'rejected'): Promise<boolean> => {
-    if (!supabase) throw new Error("Database not configured");
-    const { error } = await supabase
-      .from('events')
-      .update({ status })
-      .eq('id', eventId);
-    
-    return !error;
-  },
-
-  deleteEvent: async (eventId: string): Promise<void> => {
-    if (!supabase) return;
-    await supabase.from('events').delete().eq('id', eventId);
-  },
-
-  registerForEvent: async (userId: string, userName: string, eventId: string, eventTitle: string): Promise<Registration | null> => {
-    if (!supabase) throw new Error("Database not configured");
-    const { data: existing } = await supabase
-      .from('registrations')
-      .select('id')
-      .eq('user_id', userId)
-      .eq('event_id', eventId)
-      .maybeSingle();
-    
-    if (existing) return null;
+          series_id: evt.seriesId || null,
+          series_index: evt.seriesIndex || null,
+        },
+        p_sessions: (evt.sessions || []).map(s => ({
+          title: s.title,
+          venue: s.venue,
+          venue_id: s.venueId || null,
+          date: s.date,
+          start_time: s.startTime,
+          end_time: s.endTime,
+          capacity: s.capacity || null,
+        })),
+        p_tag_ids: evt.tagIds || [],
+      });
 
-    const { data, error } = await supabase
-      .from('registrations')
-      .insert([
-        {
-          user_id: userId,
-          user_name: userName,
-          event_id: eventId,
-          event_title: eventTitle,
-          status: 'registered',
-          qr_payload: `${eventId}:${userId}`,
-          timestamp: new Date().toISOString()
-        }
-      ])
-      .select()
-      .single();
+      if (error) throw toDataError(error, 'Could not submit the proposal.');
+      if (data.code) throw new ConflictError(CREATE_FAILURES[data.code] || 'Could not submit the proposal.');
+      return mapEvent(data);
+    },
+
+    /**
+     * Saves an edit to an existing event. Date, time or venue changes on an approved workshop send it back
+     * for review when the review_schedule_changes setting is on, and every pass holder is notified of the diff.
+     * Passing `sessions` replaces the session list; sessions keep their attendance only if their `_id` is kept.
+     */
+    updateEvent: async (
+      eventId: string,
+      evt: EventEdit
+    ): Promise<{ success: boolean; message?: string; changes?: EventChange[]; sentForReview?: boolean }> => {
+      const scope = await eventScope(eventId);
+      if (!scope || !allowed('events.edit', scope)) return { success: false, message: 'You cannot edit this workshop.' };
+      // Fields left undefined drop out of the JSON and keep their current value.
+      const { data, error } = await supabase.rpc('update_event', {
+        p_event_id: eventId,
+        p_event: {
+          title: evt.title,
+          description: evt.description,
+          venue: evt.venue,
+          venue_id: evt.venueId || null,
+          date: evt.date,
+          start_time: evt.startTime,
+          end_time: evt.endTime,
+          max_participants: evt.maxParticipants,
+          cancellation_cutoff_hours: evt.cancellationCutoffHours,
+          min_attendance_minutes: evt.minAttendanceMinutes,
+          poster_url: evt.posterUrl,
+        },
+        p_sessions: evt.sessions ? evt.sessions.map(s => ({
+          id: s._id || null,
+          title: s.title,
+          venue: s.venue,
+          venue_id: s.venueId || null,
+          date: s.date,
+          start_time: s.startTime,
+          end_time: s.endTime,
+          capacity: s.capacity || null,
+        })) : null,
+        p_tag_ids: evt.tagIds || null,
+      });
+
+      if (error) throw toDataError(error, 'Update failed.');
+      if (!data) return { success: false, message: 'Update failed.' };
+      if (data.code !== 'ok') return { success: false, message: UPDATE_FAILURES[data.code] || 'Update failed.' };
+      return { success: true, changes: (data.changes || []).map(mapChange), sentForReview: !!data.sent_for_review };
+    },
+
+    getEventRevisions: async (eventId: string): Promise<EventRevision[]> => {
+      const { data, error } = await supabase
+        .from('event_changes')
+        .select('*')
+        .eq('event_id', eventId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw toDataError(error, 'Could not load the revision history.');
+      return data.map(mapRevision);
+    },
+
+    /** Records a reviewer's decision on a pending workshop. Rejecting or requesting changes needs a comment. */
+    updateEventStatus: async (eventId: string, status: 'approved' | 'rejected' | 'changes_requested', comment?: string): Promise<{ success: boolean; message?: string }> => {
+      const scope = await eventScope(eventId);
+      if (!scope || !allowed('events.review', scope)) return { success: false, message: REVIEW_FAILURES['not_authorised'] };
+      const { data, error } = await supabase.rpc('review_event', { p_event_id: eventId, p_status: status, p_comment: comment || null });
+      if (error) throw toDataError(error, 'Review failed.');
+      if (!data) return { success: false, message: 'Review failed.' };
+      if (data.code !== 'ok') return { success: false, message: REVIEW_FAILURES[data.code] || 'Review failed.' };
+      return { success: true };
+    },
+
+    /** Puts a workshop back into the review queue once the requested changes are made. */
+    resubmitEvent: async (eventId: string, note?: string): Promise<{ success: boolean; message?: string }> => {
+      const { data, error } = await supabase.rpc('resubmit_event', { p_event_id: eventId, p_note: note || null });
+      if (error) throw toDataError(error, 'Resubmission failed.');
+      if (!data) return { success: false, message: 'Resubmission failed.' };
+      if (data.code !== 'ok') return { success: false, message: REVIEW_FAILURES[data.code] || 'Resubmission failed.' };
+      return { success: true };
+    },
+
+    getEventStatusHistory: async (eventId: string): Promise<StatusChange[]> => {
+      const { data, error } = await supabase
+        .from('event_status_history')
+        .select('*')
+        .eq('event_id', eventId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw toDataError(error, 'Could not load the review history.');
+      return data.map(mapStatusChange);
+    },
+
+    /** Marks the event cancelled, voids every outstanding pass and notifies the holders. A reason is required. */
+    cancelEvent: async (eventId: string, reason: string): Promise<{ success: boolean; message?: string; voided?: number }> => {
+      const scope = await eventScope(eventId);
+      if (!scope || !allowed('events.cancel', scope)) return { success: false, message: 'You cannot cancel this workshop.' };
+      const { data, error } = await supabase.rpc('cancel_event', { p_event_id: eventId, p_reason: reason });
+
+      if (error) throw toDataError(error, 'Cancellation failed.');
+      if (!data) return { success: false, message: 'Cancellation failed.' };
+      if (data.code !== 'ok') return { success: false, message: CANCEL_FAILURES[data.code] || 'Cancellation failed.' };
+      return { success: true, voided: data.voided || 0 };
+    },
+
+    // Hard delete is only for proposals nobody registered for; anything else has to be cancelled.
+    deleteEvent: async (eventId: string): Promise<{ success: boolean; message?: string }> => {
+      const scope = await eventScope(eventId);
+      if (!scope || !allowed('events.delete', scope)) return { success: false, message: 'You cannot delete this workshop.' };
+      const { count, error: countError } = await supabase
+        .from('registrations')
+        .select('id', { count: 'exact', head: true })
+        .eq('event_id', eventId);
+      if (countError) throw toDataError(countError, 'Deletion failed.');
+      if (count) return { success: false, message: 'Workshops with registrations can only be cancelled.' };
+
+      const { data, error } = await supabase.from('events').delete().eq('id', eventId).select('id');
+      if (error) throw toDataError(error, 'Deletion failed.');
+      if (!data?.length) return { success: false, message: 'This workshop no longer exists.' };
+      return { success: true };
+    },
+
+    // --- VENUES ---
+    getVenues: async (): Promise<Venue[]> => {
+      const { data, error } = await supabase.from('venues').select('*').order('name', { ascending: true });
+      if (error) throw toDataError(error, 'Could not load venues.');
+      return data.map(mapVenue);
+    },
+
+    createVenue: async (venue: Omit<Venue, '_id'>): Promise<Venue> => {
+      if (!allowed('venues.manage')) throw new PermissionError('Your account cannot manage venues.');
+      const { data, error } = await supabase
+        .from('venues')
+        .insert([{ name: venue.name.trim(), building: venue.building.trim(), capacity: venue.capacity }])
+        .select()
+        .single();
+
+      if (error) throw error.code === '23505' ? new ConflictError(`A venue called "${venue.name.trim()}" already exists.`, error) : toDataError(error, 'Could not add the venue.');
+      return mapVenue(data);
+    },
+
+    // Workshops booked into a deleted venue keep its name but lose conflict checks.
+    deleteVenue: async (venueId: string): Promise<boolean> => {
+      if (!allowed('venues.manage')) return false;
+      const { error } = await supabase.from('venues').delete().eq('id', venueId);
+      if (error) throw toDataError(error, 'Could not remove the venue.');
+      return true;
+    },
+
+    /** Active bookings that overlap any slot of the event, other than the event itself. */
+    findVenueConflicts: async (evt: BookingRequest, eventId?: string): Promise<VenueConflict[]> => {
+      const slots = bookingSlots(evt).filter(s => s.venueId && s.date && s.startTime && s.endTime);
+      const results = await Promise.all(slots.map(s => supabase.rpc('venue_conflicts', {
+        p_venue_id: s.venueId,
+        p_date: s.date,
+        p_start_time: s.startTime,
+        p_end_time: s.endTime,
+        p_event_id: eventId || null,
+      }).then(({ data, error }) => {
+        if (error) throw toDataError(error, 'Could not check the venue bookings.');
+        return data;
+      }).then(data => (data || []).map((c: any): VenueConflict => ({
+        eventId,
+        conflictingEventId: c.event_id,
+        title: c.title,
+        status: c.status,
+        venueId: s.venueId,
+        date: c.date,
+        startTime: c.start_time,
+        endTime: c.end_time,
+      })))));
+      return results.flat();
+    },
+
+    /** Every overlapping pair of active bookings, listed once from each side. */
+    getVenueConflicts: async (): Promise<VenueConflict[]> => {
+      const { data, error } = await supabase.rpc('event_conflicts');
+      if (error) throw toDataError(error, 'Could not load venue conflicts.');
+      return data.map((c: any) => mapConflict(c));
+    },
+
+    // --- DEPARTMENTS & TAGS ---
+    getDepartments: async (): Promise<Department[]> => {
+      const { data, error } = await supabase.from('departments').select('*').order('code', { ascending: true });
+      if (error) throw toDataError(error, 'Could not load departments.');
+      return data.map((d: any) => ({ code: d.code, name: d.name }));
+    },
+
+    createDepartment: async (dept: Department): Promise<Department> => {
+      if (!allowed('taxonomy.manage')) throw new PermissionError('Your account cannot manage departments.');
+      const code = dept.code.trim().toUpperCase();
+      const { error } = await supabase.from('departments').insert([{ code, name: dept.name.trim() }]);
+      if (error) throw error.code === '23505' ? new ConflictError(`Department ${code} already exists.`, error) : toDataError(error, 'Could not add the department.');
+      return { code, name: dept.name.trim() };
+    },
+
+    // Departments that still have workshops can't be removed.
+    deleteDepartment: async (code: string): Promise<{ success: boolean; message?: string }> => {
+      if (!allowed('taxonomy.manage')) return { success: false, message: 'Your account cannot manage departments.' };
+      const { error } = await supabase.from('departments').delete().eq('code', code);
+      if (error?.code === '23503') return { success: false, message: `${code} still has workshops.` };
+      if (error) throw toDataError(error, 'Could not remove the department.');
+      return { success: true };
+    },
+
+    getTags: async (): Promise<Tag[]> => {
+      const { data, error } = await supabase.from('tags').select('*').order('name', { ascending: true });
+      if (error) throw toDataError(error, 'Could not load categories.');
+      return data.map(mapTag);
+    },
+
+    createTag: async (name: string): Promise<Tag> => {
+      if (!allowed('taxonomy.manage')) throw new PermissionError('Your account cannot manage tags.');
+      const { data, error } = await supabase.from('tags').insert([{ name: name.trim() }]).select().single();
+      if (error) throw error.code === '23505' ? new ConflictError(`A tag called "${name.trim()}" already exists.`, error) : toDataError(error, 'Could not add the tag.');
+      return mapTag(data);
+    },
+
+    // Removing a tag takes it off every workshop that carries it.
+    deleteTag: async (tagId: string): Promise<boolean> => {
+      if (!allowed('taxonomy.manage')) return false;
+      const { error } = await supabase.from('tags').delete().eq('id', tagId);
+      if (error) throw toDataError(error, 'Could not remove the tag.');
+      return true;
+    },
+
+    /** Replaces the workshop's tags. */
+    setEventTags: async (eventId: string, tagIds: string[]): Promise<boolean> => {
+      const { error } = await supabase.from('event_tags').delete().eq('event_id', eventId);
+      if (error) throw toDataError(error, 'Could not update the categories.');
+      if (tagIds.length === 0) return true;
+      const { error: insertError } = await supabase.from('event_tags').insert(tagIds.map(tagId => ({ event_id: eventId, tag_id: tagId })));
+      if (insertError) throw toDataError(insertError, 'Could not update the categories.');
+      return true;
+    },
+
+    // --- RECURRING SERIES ---
+    getSeries: async (seriesId: string): Promise<EventSeries | null> => {
+      const { data, error } = await supabase.from('event_series').select('*').eq('id', seriesId).maybeSingle();
+      if (error) throw toDataError(error, 'Could not load the series.');
+      return data ? mapSeries(data) : null;
+    },
+
+    /** Every occurrence in the series, in order. */
+    getSeriesEvents: async (seriesId: string): Promise<Event[]> => {
+      const { data, error } = await supabase
+        .from('events')
+        .select('*, event_sessions(*), event_tags(tag_id)')
+        .eq('series_id', seriesId)
+        .order('series_index', { ascending: true });
+
+      if (error) throw toDataError(error, 'Could not load the series.');
+      return data.map(mapEvent);
+    },
+
+    /** Reviews every pending occurrence at once; occurrences that can't take the decision stay pending. */
+    reviewSeries: async (seriesId: string, status: 'approved' | 'rejected' | 'changes_requested', comment?: string): Promise<{ success: boolean; message?: string; reviewed?: number; failed?: { eventId: string; message: string }[] }> => {
+      if (!allowed('events.review')) return { success: false, message: REVIEW_FAILURES['not_authorised'] };
+      const { data, error } = await supabase.rpc('review_series', { p_series_id: seriesId, p_status: status, p_comment: comment || null });
+      if (error) throw toDataError(error, 'Review failed.');
+      if (!data) return { success: false, message: 'Review failed.' };
+      const failed = (data.failed || []).map((f: any) => ({ eventId: f.event_id, message: REVIEW_FAILURES[f.code] || 'Review failed.' }));
+      return { success: failed.length === 0, reviewed: data.reviewed || 0, failed };
+    },
+
+    // --- GATE STAFF ---
+    /** Lets any approved account run the entry terminal for the event between validFrom and validUntil. */
+    assignGateStaff: async (eventId: string, email: string, validFrom: string, validUntil: string): Promise<{ success: boolean; message?: string }> => {
+      const { data, error } = await supabase.rpc('assign_gate_staff', {
+        p_event_id: eventId,
+        p_email: email,
+        p_valid_from: validFrom,
+        p_valid_until: validUntil,
+      });
+      if (error) throw toDataError(error, 'Assignment failed.');
+      if (!data) return { success: false, message: 'Assignment failed.' };
+      if (data.code !== 'ok') return { success: false, message: GATE_STAFF_FAILURES[data.code] || 'Assignment failed.' };
+      return { success: true };
+    },
+
+    revokeGateStaff: async (eventId: string, userId: string): Promise<boolean> => {
+      const { error } = await supabase.from('event_staff').delete().eq('event_id', eventId).eq('user_id', userId);
+      if (error) throw toDataError(error, 'Could not revoke gate access.');
+      return true;
+    },
+
+    getGateStaff: async (eventId: string): Promise<StaffGrant[]> => {
+      const { data, error } = await supabase
+        .from('event_staff')
+        .select('*')
+        .eq('event_id', eventId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw toDataError(error, 'Could not load gate staff.');
+      return data.map(mapStaffGrant);
+    },
+
+    registerForEvent: async (userId: string, userName: string, eventId: string, eventTitle: string): Promise<Registration | null> => {
+      if (!allowed('events.register')) throw new PermissionError('Your account cannot register for workshops.');
+      const { data: existing, error: existingError } = await supabase
+        .from('registrations')
+        .select('id')
+        .eq('user_id', userId)
+        .eq('event_id', eventId)
+        .not('status', 'in', '(cancelled,voided)')
+        .limit(1);
+
+      if (existingError) throw toDataError(existingError, 'Registration failed.');
+      if (existing.length > 0) return null;
+
+      const { data: evt, error: evtError } = await supabase
+        .from('events')
+        .select('max_participants')
+        .eq('id', eventId)
+        .single();
+
+      if (evtError) throw toDataError(evtError, 'Registration failed.');
+
+      // Seats are held by anyone not on the waitlist; once full, new entries queue by timestamp.
+      // The enforce_capacity trigger re-checks this under a lock, so a race still ends up waitlisted.
+      const occupancy = await repo.getEventOccupancy(eventId);
+      const isFull = (occupancy[eventId]?.seatsTaken || 0) >= evt.max_participants;
+
+      // The registrations_sign_pass trigger signs the pass into qr_payload.
+      const { data, error } = await supabase
+        .from('registrations')
+        .insert([
+          {
+            user_id: userId,
+            user_name: userName,
+            event_id: eventId,
+            event_title: eventTitle,
+            status: isFull ? 'waitlisted' : 'registered'
+          }
+        ])
+        .select()
+        .single();
     
-    if (error) throw error;
-    return mapReg(data);
-  },
+      // registrations_one_live_pass turns away a second pass that raced past the check above
+      if (error?.code === '23505') return null;
+      if (error) throw toDataError(error, 'Registration failed.');
+      return mapReg(data);
+    },
 
-  getRegistrationsByUser: async (userId: string): Promise<Registration[]> => {
-    if (!supabase) return [];
-    const { data, error } = await supabase
-      .from('registrations')
-      .select('*')
-      .eq('user_id', userId);
+    cancelRegistration: async (registrationId: string, userId: string): Promise<PassResult> => {
+      // Ownership, the cutoff, the status change and waitlist promotion happen in one transaction. The row is kept
+      // for audit; only the status changes.
+      const { data, error } = await supabase.rpc('release_registration', { p_registration_id: registrationId });
+
+      if (error) throw toDataError(error, 'Cancellation failed.');
+      const registration = data.registration ? mapReg(data.registration) : undefined;
+      if (data.code !== 'ok') {
+        return { success: false, code: data.code, message: releaseFailure(data.code, data.cutoff_hours), registration };
+      }
+      return { success: true, registration };
+    },
+
+    /**
+     * Has the database re-sign the user's passes whose expiry no longer matches their event's schedule, e.g. after
+     * a workshop was moved to a later date. Returns how many passes were renewed.
+     */
+    renewPasses: async (userId: string): Promise<number> => {
+      const { data, error } = await supabase
+        .from('registrations')
+        .select('id, event_id, qr_payload, events(date, end_time, event_sessions(date, end_time))')
+        .eq('user_id', userId)
+        .in('status', ['registered', 'waitlisted']);
+
+      if (error) throw toDataError(error, 'Could not renew your passes.');
+      let renewed = 0;
+      for (const reg of data as any[]) {
+        if (!reg.events) continue;
+        // reissue_pass makes the final call on the database's clock and time zone; this only skips the obvious ones.
+        const { claims } = inspectPassToken(reg.qr_payload);
+        if (claims && claims.exp === passExpiry(reg.events)) continue;
+        const { data: reissued, error: reissueError } = await supabase.rpc('reissue_pass', { p_registration_id: reg.id });
+        if (reissueError) throw toDataError(reissueError, 'Could not renew your passes.');
+        if (reissued) renewed++;
+      }
+      return renewed;
+    },
+
+    /** Moves the oldest waitlisted passes into any free seats. Returns how many were promoted. */
+    promoteWaitlist: async (eventId: string): Promise<number> => {
+      const { data, error } = await supabase.rpc('promote_waitlist', { p_event_id: eventId });
+      if (error) throw toDataError(error, 'Could not promote the waitlist.');
+      return data || 0;
+    },
+
+    getEventOccupancy: async (eventId?: string): Promise<Record<string, EventOccupancy>> => {
+      const { data, error } = await supabase.rpc('event_occupancy', { p_event_id: eventId || null });
+
+      if (error) throw toDataError(error, 'Could not load seat counts.');
+      const occupancy: Record<string, EventOccupancy> = {};
+      (data || []).forEach((r: any) => {
+        occupancy[r.event_id] = { seatsTaken: r.seats_taken, waitlist: r.waitlist || [] };
+      });
+      return occupancy;
+    },
+
+    getRegistrationsByUser: async (userId: string): Promise<Registration[]> => {
+      const { data, error } = await supabase
+        .from('registrations')
+        .select('*')
+        .eq('user_id', userId);
     
-    if (error) return [];
-    return data.map(mapReg);
-  },
+      if (error) throw toDataError(error, 'Could not load your passes.');
+      return data.map(mapReg);
+    },
 
-  getRegistrationsByEvent: async (eventId: string): Promise<Registration[]> => {
-    if (!supabase) return [];
-    const { data, error } = await supabase
-      .from('registrations')
-      .select('*')
-      .eq('event_id', eventId);
+    getRegistrationsByEvent: async (eventId: string): Promise<Registration[]> => {
+      const { data, error } = await supabase
+        .from('registrations')
+        .select('*')
+        .eq('event_id', eventId);
     
-    if (error) return [];
-    return data.map(mapReg);
-  },
+      if (error) throw toDataError(error, 'Could not load registrations.');
+      return data.map(mapReg);
+    },
 
-  getAllParticipants: async (): Promise<any[]> => {
-    if (!supabase) return [];
-    const { data, error } = await supabase
-      .from('participants')
-      .select('*')
-      .order('check_in_time', { ascending: false });
+    getSessionAttendance: async (eventId: string): Promise<SessionCheckIn[]> => {
+      const { data, error } = await supabase
+        .from('session_attendance')
+        .select('*, event_sessions!inner(event_id)')
+        .eq('event_sessions.event_id', eventId);
+
+      if (error) throw toDataError(error, 'Could not load session attendance.');
+      return data.map(mapSessionCheckIn);
+    },
+
+    // --- NOTIFICATIONS ---
+    getNotifications: async (userId: string): Promise<UserNotification[]> => {
+      const { data, error } = await supabase
+        .from('notifications')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw toDataError(error, 'Could not load notifications.');
+      return data.map(mapNotification);
+    },
+
+    markNotificationRead: async (notificationId: string): Promise<boolean> => {
+      const { error } = await supabase
+        .from('notifications')
+        .update({ read_at: new Date().toISOString() })
+        .eq('id', notificationId);
+      if (error) throw toDataError(error, 'Could not dismiss the notification.');
+      return true;
+    },
+
+    getAllParticipants: async (): Promise<any[]> => {
+      const { data, error } = await supabase
+        .from('participants')
+        .select('*')
+        .order('check_in_time', { ascending: false });
     
-    if (error) return [];
-    return data;
-  },
+      if (error) throw toDataError(error, 'Could not load the activity log.');
+      return data;
+    },
+
+    searchActivity: async (query: ActivityQuery): Promise<Page<any>> => {
+      const after = decodeCursor(query.cursor);
+      const limit = pageLimit(query.limit);
+      const range = activityRange(query);
+      const { data, error } = await supabase.rpc('search_activity', {
+        p_search: query.search || null,
+        p_event_id: query.eventId || null,
+        p_from: range.from,
+        p_to: range.to,
+        p_sort: query.sort || 'checkInTime',
+        p_ascending: query.direction === 'asc',
+        p_after_value: after?.sortValue ?? null,
+        p_after_id: after?.id ?? null,
+        p_limit: limit + 1,
+      });
+      if (error) throw toDataError(error, 'Could not search the activity log.');
+      return toPage(data.items, data.total, limit, row => row);
+    },
+
+    getLiveAttendance: async (eventId: string): Promise<LiveAttendance> => {
+      const { data, error } = await supabase.rpc('live_attendance', { p_event_id: eventId });
+      if (error) throw toDataError(error, 'Could not load live attendance.');
+      if (data.code !== 'ok') throw new PermissionError('Your account cannot follow attendance for this workshop.');
+      return mapLiveAttendance(data);
+    },
+
+    onAttendanceChange: (eventId: string, callback: () => void): (() => void) => {
+      const filter = `event_id=eq.${eventId}`;
+      const channel = supabase
+        .channel(`attendance:${eventId}`)
+        .on('postgres_changes', { event: '*', schema: 'public', table: 'participants', filter }, () => callback())
+        .on('postgres_changes', { event: '*', schema: 'public', table: 'registrations', filter }, () => callback())
+        .subscribe();
+      return () => { supabase.removeChannel(channel); };
+    },
   
-  checkInUser: async (qrPayload: string): Promise<{ success: boolean; message?: string; registration?: Registration }> => {
-    if (!supabase) throw new Error("Database not configured");
-    const { data: reg, error: fetchError } = await supabase
-      .from('registrations')
-      .select('*')
-      .eq('qr_payload', qrPayload)
-      .maybeSingle();
-    
-    if (fetchError || !reg) {
-      return { success: false, message: 'Invalid registration code.' };
-    }
+    checkInUser: async (qrPayload: string, eventId: string, sessionId?: string): Promise<PassResult> => {
+      if (!allowed('checkin.scan')) return { success: false, code: 'not_authorised', message: CHECK_IN_FAILURES['not_authorised'] };
+      // Expiry and event are read off the pass to spare a round trip; the signature is checked by the database.
+      const verdict = inspectPassToken(qrPayload, eventId);
+      if (!verdict.valid) {
+        return { success: false, code: verdict.reason, message: PASS_REJECTION_MESSAGES[verdict.reason] };
+      }
 
-    if (reg.status === 'checked-in') {
-      return { success: false, message: 'Already checked in!', registration: mapReg(reg) };
-    }
+      // Ownership, row lock, status change and attendance insert happen in one transaction.
+      const { data, error } = sessionId
+        ? await supabase.rpc('check_in_session', {
+            p_registration_id: verdict.claims.rid,
+            p_session_id: sessionId,
+            p_event_id: eventId,
+            p_qr_payload: qrPayload,
+          })
+        : await supabase.rpc('check_in_registration', {
+            p_registration_id: verdict.claims.rid,
+            p_event_id: eventId,
+            p_qr_payload: qrPayload,
+          });
 
-    const now = new Date().toISOString();
-    const { error: updateError } = await supabase
-      .from('registrations')
-      .update({ status: 'checked-in', check_in_time: now })
-      .eq('id', reg.id);
-    
-    if (updateError) return { success: false, message: 'Check-in failed.' };
-
-    await supabase.from('participants').insert([{
-      registration_id: reg.id,
-      user_id: reg.user_id,
-      event_id: reg.event_id,
-      user_name: reg.user_name,
-      event_title: reg.event_title,
-      check_in_time: now
-    }]);
-
-    const { data: finalReg } = await supabase
-      .from('registrations')
-      .select('*')
-      .eq('id', reg.id)
-      .single();
+      if (error) throw toDataError(error, 'Check-in failed.');
+      if (!data) return { success: false, message: 'Check-in failed.' };
+      const registration = data.registration ? mapReg(data.registration) : undefined;
+      if (data.code !== 'ok') {
+        return { success: false, code: data.code, message: CHECK_IN_FAILURES[data.code] || 'Check-in failed.', registration };
+      }
+      return { success: true, registration };
+    },
+
+    checkOutUser: async (qrPayload: string, eventId: string): Promise<PassResult> => {
+      if (!allowed('checkin.scan')) return { success: false, code: 'not_authorised', message: CHECK_IN_FAILURES['not_authorised'] };
+      const verdict = inspectPassToken(qrPayload, eventId);
+      if (!verdict.valid) {
+        return { success: false, code: verdict.reason, message: PASS_REJECTION_MESSAGES[verdict.reason] };
+      }
+
+      const { data, error } = await supabase.rpc('check_out_registration', {
+        p_registration_id: verdict.claims.rid,
+        p_event_id: eventId,
+        p_qr_payload: qrPayload,
+      });
+
+      if (error) throw toDataError(error, 'Check-out failed.');
+      if (!data) return { success: false, message: 'Check-out failed.' };
+      const registration = data.registration ? mapReg(data.registration) : undefined;
+      if (data.code !== 'ok') {
+        return { success: false, code: data.code, message: CHECK_IN_FAILURES[data.code] || 'Check-out failed.', registration };
+      }
+      return { success: true, registration };
+    },
+
+    // Replays a check-in recorded by an offline terminal. Only a pass that is still 'registered' is
+    // admitted, so anything that changed server-side in the meantime comes back as a conflict.
+    replayCheckIn: async (registrationId: string, eventId: string, checkInTime: string): Promise<PassResult> => {
+      const { data, error } = await supabase.rpc('replay_check_in', {
+        p_registration_id: registrationId,
+        p_event_id: eventId,
+        p_check_in_time: checkInTime,
+      });
+
+      if (error) throw toDataError(error, 'Could not sync the check-in.');
+      const current = data.registration;
+      if (data.code === 'ok') return { success: true, registration: mapReg(current) };
 
-    return { success: true, registration: mapReg(finalReg) };
-  }
+      return { success: false, code: data.code, message: replayConflict(data.code, current), registration: current ? mapReg(current) : undefined };
+    }
+  };
+  return repo;
 };
+
+/**
+ * The storage backend the app runs on, picked by DB_BACKEND: Supabase by default, 'memory' for a throwaway
+ * in-memory store, or 'local' for an in-memory store kept in this browser's IndexedDB across reloads.
+ */
+export const DB: Repository = process.env.DB_BACKEND === 'memory' || process.env.DB_BACKEND === 'local'
+  ? createMemoryRepository({ persist: process.env.DB_BACKEND === 'local' ? 'unievents_local' : undefined, accounts: DEMO_ACCOUNTS })
+  : createSupabaseRepository(createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
+      auth: { persistSession: true, autoRefreshToken: true },
+    }));
@@ -0,0 +1,80 @@
+
+// --- ENROLLMENT RULES ---
+// Who may open an account: institutional email domains plus a University ID format per role.
+// The intake year and department are read out of the ID rather than asked for separately.
+
+import { UserRole } from './types';
+import { ValidationError } from './errors';
+
+export type EnrollmentField = 'email' | 'uniId';
+export type EnrollmentErrors = Partial<Record<EnrollmentField, string>>;
+
+export interface UniIdDetails {
+  intakeYear?: number; // Staff IDs carry no intake year
+  department: string;
+}
+
+interface UniIdRule {
+  pattern: RegExp; // Named groups: `dept` (required) and `year` (optional)
+  example: string;
+}
+
+// Comma-separated in ALLOWED_EMAIL_DOMAINS; subdomains of a listed domain are accepted too.
+const ALLOWED_EMAIL_DOMAINS = (process.env.ALLOWED_EMAIL_DOMAINS || 'cmb.ac.lk')
+  .split(',')
+  .map(d => d.trim().toLowerCase())
+  .filter(Boolean);
+
+// Seeded into the departments table; used until the managed list has loaded.
+export const DEPARTMENT_CODES = ['ICT', 'IAT', 'BST', 'EVT', 'AGT'];
+
+// Only the self-service roles enroll; other roles are granted to existing accounts.
+const UNI_ID_RULES: Partial<Record<UserRole, UniIdRule>> = {
+  student: { pattern: /^(?<year>\d{4})\/(?<dept>[A-Z]{2,4})\/\d{3}$/, example: '2021/ICT/001' },
+  organizer: { pattern: /^STAFF\/(?<dept>[A-Z]{2,4})\/\d{3}$/, example: 'STAFF/ICT/012' },
+};
+
+// The faculty admits its first intake in this year; IDs can be issued a year ahead of enrollment.
+const FIRST_INTAKE_YEAR = 2016;
+
+export const uniIdExample = (role: UserRole): string => UNI_ID_RULES[role]?.example || '';
+
+export const parseUniId = (uniId: string, role: UserRole): UniIdDetails | null => {
+  const rule = UNI_ID_RULES[role];
+  const match = rule?.pattern.exec(uniId.trim().toUpperCase());
+  if (!match) return null;
+  return {
+    department: match.groups.dept,
+    intakeYear: match.groups.year ? Number(match.groups.year) : undefined,
+  };
+};
+
+export const validateEnrollment = (form: { email: string; uniId: string; role: UserRole }, departments: string[] = DEPARTMENT_CODES): EnrollmentErrors => {
+  const errors: EnrollmentErrors = {};
+
+  const domain = form.email.trim().toLowerCase().split('@')[1] || '';
+  if (!ALLOWED_EMAIL_DOMAINS.some(d => domain === d || domain.endsWith(`.${d}`))) {
+    errors.email = `Use your institutional email (${ALLOWED_EMAIL_DOMAINS.map(d => `@${d}`).join(', ')}).`;
+  }
+
+  const details = parseUniId(form.uniId, form.role);
+  if (!details) {
+    errors.uniId = `University ID must look like ${uniIdExample(form.role)}.`;
+  } else if (!departments.includes(details.department)) {
+    errors.uniId = `Unknown department code "${details.department}". Expected one of ${departments.join(', ')}.`;
+  } else if (details.intakeYear !== undefined && (details.intakeYear < FIRST_INTAKE_YEAR || details.intakeYear > new Date().getFullYear() + 1)) {
+    errors.uniId = `Intake year ${details.intakeYear} is not valid.`;
+  }
+
+  return errors;
+};
+
+/** Thrown by DB.createUser with one message per rejected field. */
+export class EnrollmentError extends ValidationError {
+  fields: EnrollmentErrors;
+
+  constructor(fields: EnrollmentErrors) {
+    super(Object.values(fields).join(' '), fields);
+    this.name = 'EnrollmentError';
+  }
+}
@@ -0,0 +1,95 @@
+
+// --- DATA ERRORS ---
+// Everything the repository throws is a DataError, sorted by what the user can do about it. Refusals
+// that are part of the business rules (a full workshop, a pass already used) still come back as
+// { success: false, message } results; these are for requests that could not be carried out at all.
+
+export type DataErrorKind = 'not_configured' | 'network' | 'conflict' | 'permission' | 'validation' | 'unexpected';
+
+export class DataError extends Error {
+  kind: DataErrorKind;
+  retryable: boolean; // Whether trying the same request again may succeed
+  cause?: unknown; // The underlying client or server error, for the console
+
+  constructor(kind: DataErrorKind, message: string, retryable = false, cause?: unknown) {
+    super(message);
+    this.name = 'DataError';
+    this.kind = kind;
+    this.retryable = retryable;
+    this.cause = cause;
+  }
+}
+
+/** The backend is missing or has not been set up (no tables, bad API key). */
+export class NotConfiguredError extends DataError {
+  constructor(message = 'The database is not set up. Check SUPABASE_URL and SUPABASE_ANON_KEY, and run the SQL setup in db.ts.', cause?: unknown) {
+    super('not_configured', message, false, cause);
+    this.name = 'NotConfiguredError';
+  }
+}
+
+/** The server could not be reached; the same request is worth retrying. */
+export class NetworkError extends DataError {
+  constructor(message = 'Could not reach the server. Check your connection and try again.', cause?: unknown) {
+    super('network', message, true, cause);
+    this.name = 'NetworkError';
+  }
+}
+
+/** The request clashes with existing data: a duplicate name, or a row something else still points at. */
+export class ConflictError extends DataError {
+  constructor(message: string, cause?: unknown) {
+    super('conflict', message, false, cause);
+    this.name = 'ConflictError';
+  }
+}
+
+/** The signed-in account may not do this, or its session has expired. */
+export class PermissionError extends DataError {
+  constructor(message = 'You do not have permission to do that. Try signing in again.', cause?: unknown) {
+    super('permission', message, false, cause);
+    this.name = 'PermissionError';
+  }
+}
+
+/** The input was rejected. `fields` holds per-field messages when the form can point at them. */
+export class ValidationError extends DataError {
+  fields: Record<string, string>;
+
+  constructor(message: string, fields: Record<string, string> = {}, cause?: unknown) {
+    super('validation', message, false, cause);
+    this.name = 'ValidationError';
+    this.fields = fields;
+  }
+}
+
+// Postgres and PostgREST codes that mean the schema or API key is not in place.
+const NOT_CONFIGURED_CODES = ['42P01', '42883', 'PGRST202', 'PGRST205'];
+const PERMISSION_CODES = ['42501', 'PGRST301', 'PGRST302', 'insufficient_privilege'];
+const CONFLICT_CODES = ['23505', '23503', '23P01', '40001'];
+
+/**
+ * Sorts a Supabase or fetch failure into the taxonomy. `message` describes the failed action
+ * (e.g. "Could not load workshops.") and is kept for conflict, validation and unexpected errors.
+ */
+export const toDataError = (error: any, message: string): DataError => {
+  if (error instanceof DataError) return error;
+  const code = String(error?.code ?? '');
+  const status = Number(error?.status ?? 0);
+  const text = String(error?.message ?? '');
+
+  // fetch() rejects with a TypeError whose wording differs per browser
+  if (/failed to fetch|networkerror|network request failed|load failed|timed? ?out/i.test(text)) return new NetworkError(undefined, error);
+  if (NOT_CONFIGURED_CODES.includes(code) || /invalid api key/i.test(text)) return new NotConfiguredError(undefined, error);
+  if (PERMISSION_CODES.includes(code) || status === 401 || status === 403) return new PermissionError(undefined, error);
+  if (CONFLICT_CODES.includes(code) || status === 409) return new ConflictError(message, error);
+  if (code.startsWith('22') || code === '23502' || code === '23514') return new ValidationError(message, {}, error);
+  if (status >= 500) return new DataError('unexpected', message, true, error);
+  return new DataError('unexpected', message, false, error);
+};
+
+/** A message fit to show the user for anything caught in the UI. */
+export const describeError = (error: unknown, fallback = 'Something went wrong. Please try again.'): string => {
+  if (error instanceof DataError) return error.message;
+  return fallback;
+};
@@ -1,10 +1,19 @@
 
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { createRoot } from 'react-dom/client';
 import { GoogleGenAI } from "@google/genai";
 import jsQR from "https://cdn.jsdelivr.net/npm/jsqr@1.4.0/+esm";
-import { User, Event, Registration } from './types';
+import { User, UserRole, StaffGrant, Event, EventSession, Registration, EventOccupancy, LiveAttendance, SessionCheckIn, EventChange, EventRevision, UserNotification, StatusChange, Venue, VenueConflict, RecurrenceRule, Department, Tag } from './types';
 import { DB } from './db';
+import { QREncoder, QRErrorCorrection } from './qrcode';
+import { OfflineCheckIn, SyncConflict } from './offlineCheckIn';
+import { validateEnrollment, parseUniId, uniIdExample, EnrollmentError, EnrollmentErrors } from './enrollment';
+import { can, activeStaffGrants, ROLE_LABELS } from './permissions';
+import { expandRecurrence, recurrenceProblem, describeRecurrence } from './recurrence';
+import { browseEvents, eventEnd, CatalogFilters, DEFAULT_CATALOG_FILTERS } from './catalog';
+import { DataError, PermissionError, describeError } from './errors';
+import { toast, Toast } from './toast';
+import { Page, PAGE_SIZE, SortDirection, UserQuery, ActivityQuery } from './repository';
 
 // --- CONSTANTS ---
 const UNIVERSITY_LOGO = "/logo.png";
@@ -16,7 +25,7 @@ const ADMIN_PHOTO = "/admin.png";
 
 const ExportService = {
   downloadCSV: (data: any[], filename: string) => {
-    if (data.length === 0) return alert("No data to export");
+    if (data.length === 0) return toast.info("No data to export");
     const headers = Object.keys(data[0]).join(',');
     const rows = data.map(obj => Object.values(obj).map(val => `"${val || ''}"`).join(','));
     const csvContent = [headers, ...rows].join('\n');
@@ -54,6 +63,30 @@ const ExportService = {
   }
 };
 
+// --- ATTENDANCE RULES ---
+
+const Attendance = {
+  durationMinutes: (checkIn?: string, checkOut?: string): number | null =>
+    checkIn && checkOut ? Math.round((new Date(checkOut).getTime() - new Date(checkIn).getTime()) / 60000) : null,
+
+  formatDuration: (minutes: number | null) => minutes === null ? '—' : `${Math.floor(minutes / 60)}h ${minutes % 60}m`,
+
+  // Attendance only counts once the attendee has checked out after the event's minimum stay.
+  isComplete: (minutes: number | null, evt?: Event) => minutes !== null && minutes >= (evt?.minAttendanceMinutes || 0),
+
+  // Check-ins per interval of `bucketMinutes` on the clock, for the last `buckets` intervals up to `now`, oldest first.
+  arrivalRate: (checkIns: string[], now: number, bucketMinutes: number, buckets: number): number[] => {
+    const size = bucketMinutes * 60000;
+    const end = Math.ceil(now / size) * size;
+    const counts = new Array(buckets).fill(0);
+    checkIns.forEach(time => {
+      const age = Math.floor((end - new Date(time).getTime()) / size);
+      if (age >= 0 && age < buckets) counts[buckets - 1 - age]++;
+    });
+    return counts;
+  },
+};
+
 // --- GEMINI API CONNECTOR ---
 
 const AIService = {
@@ -98,6 +131,30 @@ const LogoImage = ({ className, alt }: { className?: string, alt?: string }) =>
 
 // --- REUSABLE COMPONENTS ---
 
+// Rendered locally so admission payloads are never sent to a third-party QR service.
+// The crest knocks out the centre modules, so codes with a logo always use level 'H'.
+const QRCodeImage = ({ value, level = 'M', withLogo = false, className }: { value: string, level?: QRErrorCorrection, withLogo?: boolean, className?: string }) => {
+  const modules = useMemo(() => QREncoder.encode(value, withLogo ? 'H' : level), [value, level, withLogo]);
+  const quietZone = 4;
+  const dim = modules.length + quietZone * 2;
+  const path = useMemo(() => modules.map((row, y) => row.map((dark, x) => dark ? `M${x + quietZone} ${y + quietZone}h1v1h-1z` : '').join('')).join(''), [modules]);
+  const logoSize = Math.round(modules.length * 0.22);
+  const logoPos = (dim - logoSize) / 2;
+
+  return (
+    <svg viewBox={`0 0 ${dim} ${dim}`} className={className} role="img" aria-label="Admission QR" shapeRendering="crispEdges">
+      <rect width={dim} height={dim} fill="#ffffff" />
+      <path d={path} fill="#000000" />
+      {withLogo && (
+        <>
+          <rect x={logoPos - 1} y={logoPos - 1} width={logoSize + 2} height={logoSize + 2} rx={1.5} fill="#ffffff" />
+          <image href={UNIVERSITY_LOGO} x={logoPos} y={logoPos} width={logoSize} height={logoSize} preserveAspectRatio="xMidYMid meet" />
+        </>
+      )}
+    </svg>
+  );
+};
+
 const NavigationLink = ({ onClick, children, className = "" }: { onClick: () => void, children?: React.ReactNode, className?: string }) => (
   <button onClick={onClick} className={`text-[10px] font-black uppercase tracking-widest text-gray-400 hover:text-red-800 transition-all flex items-center gap-2 group ${className}`}>
     <i className="fas fa-chevron-left transition-transform group-hover:-translate-x-1"></i>
@@ -118,27 +175,165 @@ const UserAvatar = ({ user, className = "w-10 h-10" }: { user: User, className?:
   );
 };
 
+// Attendee × session grid for multi-session events.
+const SessionMatrix = ({ sessions, regs, attendance }: { sessions: EventSession[], regs: Registration[], attendance: SessionCheckIn[] }) => {
+  const attendees = regs.filter(r => r.status === 'registered' || r.status === 'checked-in');
+  const cell = (sessionId: string, regId: string) => attendance.find(a => a.sessionId === sessionId && a.registrationId === regId);
+  return (
+    <div className="bg-white border rounded-[3rem] overflow-x-auto shadow-sm">
+      <table className="w-full text-left text-sm">
+        <thead className="bg-gray-50">
+          <tr className="text-[9px] font-black uppercase text-gray-300">
+            <th className="px-8 py-4">Attendee</th>
+            {sessions.map(s => (
+              <th key={s._id} className="px-4 py-4 text-center">
+                <span className="block text-gray-500">{s.title}</span>
+                <span className="block normal-case font-bold">{s.date} • {s.startTime}</span>
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody className="divide-y">
+          {attendees.length === 0 ? <tr><td colSpan={sessions.length + 1} className="p-10 text-center text-gray-300 font-bold uppercase tracking-widest text-xs">No Enrollments Recorded</td></tr> :
+            attendees.map(r => (
+              <tr key={r._id} className="hover:bg-gray-50 transition">
+                <td className="px-8 py-4 font-black text-red-900">{r.userName}</td>
+                {sessions.map(s => {
+                  const hit = cell(s._id, r._id);
+                  return (
+                    <td key={s._id} className="px-4 py-4 text-center" title={hit ? `${new Date(hit.checkInTime).toLocaleString()}${hit.scannedByName ? ` • scanned by ${hit.scannedByName}` : ''}` : 'Absent'}>
+                      {hit ? <i className="fas fa-check-circle text-green-600"></i> : <i className="fas fa-minus text-gray-200"></i>}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))
+          }
+        </tbody>
+        <tfoot className="bg-gray-50 text-[10px] font-black uppercase text-gray-400">
+          <tr>
+            <td className="px-8 py-4">Present</td>
+            {sessions.map(s => (
+              <td key={s._id} className="px-4 py-4 text-center">{attendance.filter(a => a.sessionId === s._id).length}{s.capacity ? ` / ${s.capacity}` : ''}</td>
+            ))}
+          </tr>
+        </tfoot>
+      </table>
+    </div>
+  );
+};
+
+const EVENT_FIELD_LABELS: Record<string, string> = {
+  title: 'Title',
+  description: 'Abstract',
+  venue: 'Venue',
+  date: 'Date',
+  startTime: 'Starts',
+  endTime: 'Ends',
+  maxParticipants: 'Seats',
+  cancellationCutoffHours: 'Release cutoff (hours)',
+  minAttendanceMinutes: 'Minimum attendance (minutes)',
+  posterUrl: 'Poster',
+  sessions: 'Sessions',
+};
+
+// Before → after for each field an edit touched.
+const ChangeList = ({ changes }: { changes: EventChange[] }) => (
+  <ul className="space-y-1">
+    {changes.map(c => (
+      <li key={c.field} className="text-xs font-bold text-gray-500">
+        <span className="text-[10px] font-black uppercase tracking-widest text-gray-400 mr-2">{EVENT_FIELD_LABELS[c.field] || c.field}</span>
+        {c.from === null && c.to === null ? 'Updated' : <><span className="line-through text-gray-300">{c.from || '—'}</span> <i className="fas fa-arrow-right mx-1 text-red-800"></i> <span className="text-red-900">{c.to || '—'}</span></>}
+      </li>
+    ))}
+  </ul>
+);
+
+// Who moved a workshop or account between statuses, and what they said.
+const StatusTimeline = ({ history }: { history: StatusChange[] }) => (
+  history.length === 0 ? <p className="text-xs font-bold text-gray-300">No reviews yet.</p> : (
+    <ol className="space-y-3 border-l-2 border-red-800/10 pl-6">
+      {history.map(h => (
+        <li key={h._id}>
+          <p className="text-[10px] font-black uppercase tracking-widest text-gray-400">{new Date(h.createdAt).toLocaleString()} • {h.actedByName}</p>
+          <p className="text-xs font-black text-red-900">{h.fromStatus ? `${h.fromStatus.replace('_', ' ')} → ` : ''}{h.toStatus.replace('_', ' ')}</p>
+          {h.comment && <p className="text-xs font-bold text-gray-500 italic">"{h.comment}"</p>}
+        </li>
+      ))}
+    </ol>
+  )
+);
+
+const TOAST_STYLES: Record<Toast['tone'], { box: string; icon: string }> = {
+  success: { box: 'border-green-100 text-green-800', icon: 'fa-check-circle' },
+  error: { box: 'border-red-100 text-red-900', icon: 'fa-exclamation-circle' },
+  info: { box: 'border-gray-100 text-gray-700', icon: 'fa-info-circle' },
+};
+
+// Shows the toasts raised through toast.ts. Repository errors that no handler caught end up here too,
+// so a failed request is never silent.
+const ToastViewport = () => {
+  const [toasts, setToasts] = useState<Toast[]>([]);
+
+  useEffect(() => toast.subscribe(setToasts), []);
+
+  useEffect(() => {
+    const unhandled = (e: PromiseRejectionEvent) => {
+      if (!(e.reason instanceof DataError)) return;
+      e.preventDefault();
+      toast.fail(e.reason);
+    };
+    window.addEventListener('unhandledrejection', unhandled);
+    return () => window.removeEventListener('unhandledrejection', unhandled);
+  }, []);
+
+  return (
+    <div role="status" aria-live="polite" className="fixed bottom-6 right-6 z-50 w-full max-w-sm space-y-3">
+      {toasts.map(t => (
+        <div key={t.id} className={`bg-white border shadow-2xl rounded-[1.5rem] p-5 flex items-start gap-4 animate-scale-up ${TOAST_STYLES[t.tone].box}`}>
+          <i className={`fas ${TOAST_STYLES[t.tone].icon} mt-0.5`}></i>
+          <p className="flex-grow text-xs font-bold whitespace-pre-line">{t.message}</p>
+          {t.retry && <button onClick={() => { toast.dismiss(t.id); t.retry(); }} className="text-[10px] font-black uppercase tracking-widest text-red-800 hover:underline">Retry</button>}
+          <button onClick={() => toast.dismiss(t.id)} title="Dismiss" className="text-gray-300 hover:text-red-800 transition"><i className="fas fa-times"></i></button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+// Asks a reviewer for the comment a rejection or change request has to carry. Resolves null when dismissed.
+const promptReviewComment = (decision: 'rejected' | 'changes_requested'): string | null => {
+  const comment = prompt(decision === 'rejected' ? 'Reason for rejecting:' : 'What needs to change?');
+  if (comment === null) return null;
+  if (!comment.trim()) { toast.error('A comment is required.'); return null; }
+  return comment;
+};
+
 // --- MAIN APPLICATION COMPONENT ---
 
 const App = () => {
   const [currentUser, setCurrentUser] = useState<User | null>(null);
-  const [view, setView] = useState<'landing' | 'login' | 'register' | 'dashboard'>('landing');
+  const [view, setView] = useState<'landing' | 'login' | 'register' | 'dashboard' | 'forgot' | 'reset' | 'password'>('landing');
   const [dbReady, setDbReady] = useState(false);
 
-  const handleLogout = () => {
+  const handleLogout = async () => {
+    await DB.signOut();
     setCurrentUser(null);
-    localStorage.removeItem('unievents_current_user');
     setView('landing');
   };
 
   useEffect(() => {
-    DB.init().then(() => {
-      const saved = localStorage.getItem('unievents_current_user');
-      if (saved) {
-        try { setCurrentUser(JSON.parse(saved)); setView('dashboard'); } catch (e) { localStorage.removeItem('unievents_current_user'); }
-      }
+    // Sessions from before Supabase Auth held the whole profile in localStorage
+    localStorage.removeItem('unievents_current_user');
+    DB.getCurrentUser().then(u => {
+      if (u) { setCurrentUser(u); setView(DB.openedFromRecoveryLink() ? 'reset' : 'dashboard'); }
       setDbReady(true);
     });
+    return DB.onAuthChange((u, recovery) => {
+      setCurrentUser(u);
+      if (!u) setView('landing');
+      else if (recovery) setView('reset');
+    });
   }, []);
 
   if (!dbReady) return <div className="min-h-screen flex items-center justify-center bg-gray-50"><i className="fas fa-circle-notch fa-spin fa-3x text-red-800"></i></div>;
@@ -148,8 +343,11 @@ const App = () => {
       <Navbar currentUser={currentUser} onLogout={handleLogout} setView={setView} />
       <main className={`flex-grow ${view === 'landing' ? '' : 'container mx-auto px-4 py-8'}`}>
         {view === 'landing' && <LandingPage setView={setView} />}
-        {view === 'login' && <LoginForm onLogin={(u: User) => { setCurrentUser(u); localStorage.setItem('unievents_current_user', JSON.stringify(u)); setView('dashboard'); }} setView={setView} />}
-        {view === 'register' && <RegisterForm onLogin={(u: User) => { setCurrentUser(u); localStorage.setItem('unievents_current_user', JSON.stringify(u)); setView('dashboard'); }} setView={setView} />}
+        {view === 'login' && <LoginForm onLogin={(u: User) => { setCurrentUser(u); setView('dashboard'); }} setView={setView} />}
+        {view === 'register' && <RegisterForm onLogin={(u: User) => { setCurrentUser(u); setView('dashboard'); }} setView={setView} />}
+        {view === 'forgot' && <ForgotPasswordForm setView={setView} />}
+        {view === 'reset' && currentUser && <ResetPasswordForm onDone={() => setView('dashboard')} />}
+        {view === 'password' && currentUser && <ChangePasswordForm onBack={() => setView('dashboard')} />}
         {view === 'dashboard' && currentUser && <Dashboard user={currentUser} onReturnToLanding={() => setView('landing')} />}
         {currentUser && <AssistantWrapper />}
       </main>
@@ -158,6 +356,7 @@ const App = () => {
         <p className="font-bold tracking-widest text-[10px] uppercase text-gray-400">University of Colombo • Faculty of Technology</p>
         <p className="mt-2">© 2024 Institutional Event Management. All Rights Reserved.</p>
       </footer>
+      <ToastViewport />
     </div>
   );
 };
@@ -183,6 +382,7 @@ const Navbar = ({ currentUser, onLogout, setView }: any) => (
               </div>
               <UserAvatar user={currentUser} className="w-9 h-9" />
             </div>
+            <button onClick={() => setView('password')} title="Change Password" className="text-gray-300 hover:text-red-800 transition p-2"><i className="fas fa-key text-xl"></i></button>
             <button onClick={onLogout} title="Logout" className="text-gray-300 hover:text-red-800 transition p-2"><i className="fas fa-power-off text-xl"></i></button>
           </>
         ) : (
@@ -229,29 +429,42 @@ const LoginForm = ({ onLogin, setView }: any) => {
   const [email, setEmail] = useState('');
   const [pw, setPw] = useState('');
   const [err, setErr] = useState('');
+  const [unverified, setUnverified] = useState(false);
   const [loading, setLoading] = useState(false);
 
   const sub = async (e: any) => {
     e.preventDefault();
-    setLoading(true); setErr('');
+    setLoading(true); setErr(''); setUnverified(false);
     try {
-      const u = await DB.findUserByEmail(email);
-      const hashedInput = await DB.hashPassword(pw);
-      
-      if (u && u.password === hashedInput) {
-        if (u.role === 'organizer' && u.status === 'pending') setErr('Account pending faculty verification.');
-        else onLogin(u);
+      const u = await DB.signIn(email, pw);
+      if (u) {
+        // Accounts asked for changes sign in to a screen where they can make them and resubmit
+        if (u.status === 'approved' || u.status === 'changes_requested') onLogin(u);
+        else if (u.status === 'rejected') { await DB.signOut(); setErr(`Account verification was declined${u.reviewComment ? `: ${u.reviewComment}` : '.'}`); }
+        else { await DB.signOut(); setErr('Account pending faculty verification.'); }
       } else setErr('Invalid institutional credentials.');
-    } catch (err) { setErr('Connection timed out.'); }
+    } catch (err) {
+      // The only permission problem at sign-in is an address that hasn't been confirmed yet
+      if (err instanceof PermissionError) { setUnverified(true); setErr(err.message); }
+      else setErr(describeError(err, 'Sign-in failed. Please try again shortly.'));
+    }
     finally { setLoading(false); }
   };
 
+  const resend = async () => {
+    try {
+      await DB.requestEmailVerification(email);
+      toast.success(`A new verification link has been sent to ${email}.`);
+    } catch (e) { toast.fail(e, resend, 'Could not send the verification email. Please try again shortly.'); }
+  };
+
   return (
     <div className="max-w-md mx-auto bg-white p-14 rounded-[4rem] shadow-2xl mt-10 border border-gray-50 relative overflow-hidden">
       <div className="absolute top-0 left-0 w-full h-2 bg-gradient-to-r from-red-900 to-red-600"></div>
       <NavigationLink onClick={() => setView('landing')} className="mb-6">Back to Landing</NavigationLink>
       <h2 className="text-4xl font-black mb-10 text-center tracking-tighter">Login</h2>
       {err && <div className="bg-red-50 text-red-800 p-5 rounded-2xl mb-8 text-xs font-black border border-red-100 flex items-center"><i className="fas fa-exclamation-circle mr-3"></i> {err}</div>}
+      {unverified && <button onClick={resend} className="w-full -mt-4 mb-8 text-[10px] font-black uppercase tracking-widest text-red-800 hover:underline">Resend Verification Email</button>}
       <form onSubmit={sub} className="space-y-8">
         <div>
           <label className="text-[10px] font-black uppercase text-gray-300 tracking-widest ml-4 mb-2 block">Email</label>
@@ -261,6 +474,7 @@ const LoginForm = ({ onLogin, setView }: any) => {
           <label className="text-[10px] font-black uppercase text-gray-300 tracking-widest ml-4 mb-2 block">Password</label>
           <input type="password" required className="w-full bg-gray-50 border-none rounded-2xl px-8 py-5 font-bold outline-none focus:ring-2 focus:ring-red-800 transition" value={pw} onChange={e => setPw(e.target.value)} />
         </div>
+        <p className="text-right text-[10px] text-gray-400 font-bold cursor-pointer hover:text-red-800 transition -mt-4" onClick={() => setView('forgot')}>Forgot password?</p>
         <button type="submit" disabled={loading} className="w-full bg-red-800 text-white py-6 rounded-[2rem] font-black uppercase tracking-widest shadow-2xl shadow-red-100 disabled:opacity-50 text-xs">Sign In</button>
         <p className="text-center text-xs text-gray-400 font-bold cursor-pointer hover:text-red-800 transition" onClick={() => setView('register')}>Don't have an account? Register</p>
       </form>
@@ -270,9 +484,14 @@ const LoginForm = ({ onLogin, setView }: any) => {
 
 const RegisterForm = ({ onLogin, setView }: any) => {
   const [form, setForm] = useState({ name: '', email: '', password: '', uniId: '', role: 'student' as any, profilePhoto: '' });
+  const [fieldErrors, setFieldErrors] = useState<EnrollmentErrors>({});
   const [load, setLoad] = useState(false);
+  const [departments, setDepartments] = useState<string[]>(undefined);
+  const idDetails = parseUniId(form.uniId, form.role);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  useEffect(() => { DB.getDepartments().then(list => { if (list.length > 0) setDepartments(list.map(d => d.code)); }); }, []);
+
   const handlePhotoUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
@@ -284,14 +503,21 @@ const RegisterForm = ({ onLogin, setView }: any) => {
 
   const sub = async (e: any) => {
     e.preventDefault();
-    if (!form.uniId) return alert('University ID is required.');
-    if (!form.profilePhoto) return alert('Profile photo is required for institutional verification.');
+    const invalid = validateEnrollment(form, departments);
+    setFieldErrors(invalid);
+    if (Object.keys(invalid).length > 0) return;
+    if (!form.profilePhoto) return toast.error('Profile photo is required for institutional verification.');
+    if (form.password.length < MIN_PASSWORD_LENGTH) return toast.error(`Password must be at least ${MIN_PASSWORD_LENGTH} characters.`);
     setLoad(true);
     try {
       const u = await DB.createUser(form);
-      if (u.role === 'organizer') { alert('Staff account creation successful. Awaiting Faculty Admin verification.'); setView('login'); }
-      else onLogin(u);
-    } catch (e) { alert('Registration failed. Email or Uni ID might already exist.'); }
+      if (u.role === 'organizer') { await DB.signOut(); toast.success('Staff account creation successful. Awaiting Faculty Admin verification.'); setView('login'); }
+      else if (await DB.getCurrentUser()) onLogin(u);
+      else { toast.info(`We sent a verification link to ${u.email}. Confirm your address, then sign in.`); setView('login'); }
+    } catch (e) {
+      if (e instanceof EnrollmentError) setFieldErrors(e.fields);
+      else toast.fail(e, () => sub({ preventDefault: () => {} }), 'Registration failed. Please try again shortly.');
+    }
     finally { setLoad(false); }
   };
 
@@ -319,11 +545,18 @@ const RegisterForm = ({ onLogin, setView }: any) => {
 
       <form onSubmit={sub} className="space-y-4">
         <input type="text" placeholder="Full Institutional Name" required className="w-full bg-gray-50 border-none rounded-2xl px-6 py-4 font-bold text-sm" value={form.name} onChange={e => setForm({...form, name: e.target.value})} />
-        <input type="text" placeholder="University ID (e.g. 2021/ICT/001)" required className="w-full bg-gray-50 border-none rounded-2xl px-6 py-4 font-bold text-sm" value={form.uniId} onChange={e => setForm({...form, uniId: e.target.value})} />
-        <input type="email" placeholder="Institutional Email" required className="w-full bg-gray-50 border-none rounded-2xl px-6 py-4 font-bold text-sm" value={form.email} onChange={e => setForm({...form, email: e.target.value})} />
+        <div>
+          <input type="text" placeholder={`University ID (e.g. ${uniIdExample(form.role)})`} required className={`w-full bg-gray-50 border-none rounded-2xl px-6 py-4 font-bold text-sm ${fieldErrors.uniId ? 'ring-2 ring-red-600' : ''}`} value={form.uniId} onChange={e => { setForm({...form, uniId: e.target.value}); setFieldErrors({...fieldErrors, uniId: undefined}); }} />
+          {fieldErrors.uniId ? <p className="text-[10px] font-black text-red-700 mt-2 ml-4">{fieldErrors.uniId}</p> :
+            idDetails && <p className="text-[10px] font-bold text-gray-400 mt-2 ml-4">{idDetails.department} Department{idDetails.intakeYear ? ` • ${idDetails.intakeYear} Intake` : ''}</p>}
+        </div>
+        <div>
+          <input type="email" placeholder="Institutional Email" required className={`w-full bg-gray-50 border-none rounded-2xl px-6 py-4 font-bold text-sm ${fieldErrors.email ? 'ring-2 ring-red-600' : ''}`} value={form.email} onChange={e => { setForm({...form, email: e.target.value}); setFieldErrors({...fieldErrors, email: undefined}); }} />
+          {fieldErrors.email && <p className="text-[10px] font-black text-red-700 mt-2 ml-4">{fieldErrors.email}</p>}
+        </div>
         <div className="bg-gray-50 rounded-2xl p-2 flex">
-          <button type="button" onClick={() => setForm({...form, role: 'student'})} className={`flex-grow py-3 rounded-xl font-black text-[10px] uppercase transition ${form.role === 'student' ? 'bg-white shadow-sm text-red-800' : 'text-gray-400'}`}>Student</button>
-          <button type="button" onClick={() => setForm({...form, role: 'organizer'})} className={`flex-grow py-3 rounded-xl font-black text-[10px] uppercase transition ${form.role === 'organizer' ? 'bg-white shadow-sm text-red-800' : 'text-gray-400'}`}>Staff</button>
+          <button type="button" onClick={() => { setForm({...form, role: 'student'}); setFieldErrors({}); }} className={`flex-grow py-3 rounded-xl font-black text-[10px] uppercase transition ${form.role === 'student' ? 'bg-white shadow-sm text-red-800' : 'text-gray-400'}`}>Student</button>
+          <button type="button" onClick={() => { setForm({...form, role: 'organizer'}); setFieldErrors({}); }} className={`flex-grow py-3 rounded-xl font-black text-[10px] uppercase transition ${form.role === 'organizer' ? 'bg-white shadow-sm text-red-800' : 'text-gray-400'}`}>Staff</button>
         </div>
         <input type="password" placeholder="Password" required className="w-full bg-gray-50 border-none rounded-2xl px-6 py-4 font-bold text-sm" value={form.password} onChange={e => setForm({...form, password: e.target.value})} />
         <button type="submit" disabled={load} className="w-full bg-red-800 text-white py-5 rounded-[2rem] font-black uppercase tracking-widest mt-4 shadow-2xl shadow-red-100 text-xs">Enroll Now</button>
@@ -333,9 +566,119 @@ const RegisterForm = ({ onLogin, setView }: any) => {
   );
 };
 
+// --- PASSWORD FLOWS ---
+
+const MIN_PASSWORD_LENGTH = 8;
+
+const ForgotPasswordForm = ({ setView }: any) => {
+  const [email, setEmail] = useState('');
+  const [sent, setSent] = useState(false);
+  const [load, setLoad] = useState(false);
+
+  const sub = async (e: any) => {
+    e.preventDefault();
+    setLoad(true);
+    try {
+      await DB.requestPasswordReset(email);
+      setSent(true);
+    } catch (e) { toast.fail(e, () => sub({ preventDefault: () => {} }), 'Could not send the reset email. Please try again shortly.'); }
+    finally { setLoad(false); }
+  };
+
+  return (
+    <div className="max-w-md mx-auto bg-white p-14 rounded-[4rem] shadow-2xl mt-10 border border-gray-50 relative overflow-hidden">
+      <div className="absolute top-0 left-0 w-full h-2 bg-gradient-to-r from-red-900 to-red-600"></div>
+      <NavigationLink onClick={() => setView('login')} className="mb-6">Back to Login</NavigationLink>
+      <h2 className="text-3xl font-black mb-8 text-center tracking-tighter leading-none">Reset Password</h2>
+      {sent ? (
+        <div className="bg-green-50 text-green-800 p-6 rounded-2xl text-xs font-black border border-green-100 text-center">
+          <i className="fas fa-envelope-open-text text-2xl mb-3 block"></i>
+          If an account exists for {email}, a reset link is on its way. The link can only be used once.
+        </div>
+      ) : (
+        <form onSubmit={sub} className="space-y-6">
+          <input type="email" placeholder="Institutional Email" required className="w-full bg-gray-50 border-none rounded-2xl px-6 py-4 font-bold text-sm" value={email} onChange={e => setEmail(e.target.value)} />
+          <button type="submit" disabled={load} className="w-full bg-red-800 text-white py-5 rounded-[2rem] font-black uppercase tracking-widest shadow-2xl shadow-red-100 disabled:opacity-50 text-xs">Send Reset Link</button>
+        </form>
+      )}
+    </div>
+  );
+};
+
+// Reached from the emailed reset link, which signs the user into a short-lived recovery session.
+const ResetPasswordForm = ({ onDone }: { onDone: () => void }) => {
+  const [pw, setPw] = useState('');
+  const [confirmPw, setConfirmPw] = useState('');
+  const [err, setErr] = useState('');
+  const [load, setLoad] = useState(false);
+
+  const sub = async (e: any) => {
+    e.preventDefault();
+    if (pw.length < MIN_PASSWORD_LENGTH) return setErr(`Use at least ${MIN_PASSWORD_LENGTH} characters.`);
+    if (pw !== confirmPw) return setErr('Passwords do not match.');
+    setLoad(true); setErr('');
+    try {
+      if (!(await DB.resetPassword(pw))) return setErr('This reset link has expired. Request a new one from the login page.');
+      toast.success('Password updated.');
+      onDone();
+    } catch (e) { toast.fail(e, () => sub({ preventDefault: () => {} }), 'Could not update your password. Please try again shortly.'); }
+    finally { setLoad(false); }
+  };
+
+  return (
+    <div className="max-w-md mx-auto bg-white p-14 rounded-[4rem] shadow-2xl mt-10 border border-gray-50 relative overflow-hidden">
+      <div className="absolute top-0 left-0 w-full h-2 bg-gradient-to-r from-red-900 to-red-600"></div>
+      <h2 className="text-3xl font-black mb-8 text-center tracking-tighter leading-none">Choose a New Password</h2>
+      {err && <div className="bg-red-50 text-red-800 p-5 rounded-2xl mb-6 text-xs font-black border border-red-100 flex items-center"><i className="fas fa-exclamation-circle mr-3"></i> {err}</div>}
+      <form onSubmit={sub} className="space-y-4">
+        <input type="password" placeholder="New Password" required className="w-full bg-gray-50 border-none rounded-2xl px-6 py-4 font-bold text-sm" value={pw} onChange={e => setPw(e.target.value)} />
+        <input type="password" placeholder="Confirm New Password" required className="w-full bg-gray-50 border-none rounded-2xl px-6 py-4 font-bold text-sm" value={confirmPw} onChange={e => setConfirmPw(e.target.value)} />
+        <button type="submit" disabled={load} className="w-full bg-red-800 text-white py-5 rounded-[2rem] font-black uppercase tracking-widest mt-4 shadow-2xl shadow-red-100 disabled:opacity-50 text-xs">Update Password</button>
+      </form>
+    </div>
+  );
+};
+
+const ChangePasswordForm = ({ onBack }: { onBack: () => void }) => {
+  const [form, setForm] = useState({ current: '', next: '', confirm: '' });
+  const [err, setErr] = useState('');
+  const [load, setLoad] = useState(false);
+
+  const sub = async (e: any) => {
+    e.preventDefault();
+    if (form.next.length < MIN_PASSWORD_LENGTH) return setErr(`Use at least ${MIN_PASSWORD_LENGTH} characters.`);
+    if (form.next !== form.confirm) return setErr('Passwords do not match.');
+    setLoad(true); setErr('');
+    const res = await DB.changePassword(form.current, form.next);
+    setLoad(false);
+    if (!res.success) return setErr(res.message || 'Password change failed.');
+    toast.success('Password updated.');
+    onBack();
+  };
+
+  return (
+    <div className="max-w-md mx-auto bg-white p-14 rounded-[4rem] shadow-2xl mt-10 border border-gray-50 relative overflow-hidden">
+      <div className="absolute top-0 left-0 w-full h-2 bg-gradient-to-r from-red-900 to-red-600"></div>
+      <NavigationLink onClick={onBack} className="mb-6">Back to Dashboard</NavigationLink>
+      <h2 className="text-3xl font-black mb-8 text-center tracking-tighter leading-none">Change Password</h2>
+      {err && <div className="bg-red-50 text-red-800 p-5 rounded-2xl mb-6 text-xs font-black border border-red-100 flex items-center"><i className="fas fa-exclamation-circle mr-3"></i> {err}</div>}
+      <form onSubmit={sub} className="space-y-4">
+        <input type="password" placeholder="Current Password" required className="w-full bg-gray-50 border-none rounded-2xl px-6 py-4 font-bold text-sm" value={form.current} onChange={e => setForm({...form, current: e.target.value})} />
+        <input type="password" placeholder="New Password" required className="w-full bg-gray-50 border-none rounded-2xl px-6 py-4 font-bold text-sm" value={form.next} onChange={e => setForm({...form, next: e.target.value})} />
+        <input type="password" placeholder="Confirm New Password" required className="w-full bg-gray-50 border-none rounded-2xl px-6 py-4 font-bold text-sm" value={form.confirm} onChange={e => setForm({...form, confirm: e.target.value})} />
+        <button type="submit" disabled={load} className="w-full bg-red-800 text-white py-5 rounded-[2rem] font-black uppercase tracking-widest mt-4 shadow-2xl shadow-red-100 disabled:opacity-50 text-xs">Update Password</button>
+      </form>
+    </div>
+  );
+};
+
 // --- DASHBOARD WRAPPER ---
 
 const Dashboard = ({ user, onReturnToLanding }: { user: User, onReturnToLanding: () => void }) => {
+  // Anyone holding a live gate grant can switch into the scanner-only view
+  const [gateDuty, setGateDuty] = useState(false);
+  const onDuty = activeStaffGrants(user).length > 0;
+
   return (
     <div className="animate-fade-in max-w-7xl mx-auto">
       <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-10 gap-6">
@@ -347,6 +690,15 @@ const Dashboard = ({ user, onReturnToLanding }: { user: User, onReturnToLanding:
           </div>
         </div>
         <div className="flex items-center gap-4">
+          {onDuty && (
+            <button
+              onClick={() => setGateDuty(!gateDuty)}
+              className={`flex items-center gap-2 px-6 py-3 border rounded-2xl text-[10px] font-black uppercase tracking-widest transition shadow-sm ${gateDuty ? 'bg-red-800 text-white border-red-800' : 'bg-white border-gray-200 text-gray-500 hover:text-red-800 hover:border-red-100'}`}
+            >
+              <i className="fas fa-user-shield"></i>
+              {gateDuty ? 'Leave Gate Duty' : 'Gate Duty'}
+            </button>
+          )}
           <button 
             onClick={onReturnToLanding}
             className="flex items-center gap-2 px-6 py-3 bg-white border border-gray-200 rounded-2xl text-[10px] font-black uppercase tracking-widest text-gray-500 hover:text-red-800 hover:border-red-100 transition shadow-sm group"
@@ -358,9 +710,12 @@ const Dashboard = ({ user, onReturnToLanding }: { user: User, onReturnToLanding:
       </div>
       
       <div className="bg-white/40 backdrop-blur-sm rounded-[3rem] p-1 border border-white/50 shadow-inner min-h-[600px]">
-        {user.role === 'admin' && <AdminDashboard />}
-        {user.role === 'organizer' && <OrganizerDashboard user={user} />}
-        {user.role === 'student' && <StudentDashboard user={user} />}
+        {user.status === 'changes_requested' ? <AccountRevisionPanel user={user} /> :
+          gateDuty ? <GateDashboard user={user} /> :
+          can(user, 'events.review') || can(user, 'users.view') ? <AdminDashboard user={user} /> :
+          can(user, 'events.propose') ? <OrganizerDashboard user={user} /> :
+          can(user, 'events.register') ? <StudentDashboard user={user} /> :
+          can(user, 'checkin.scan') && <GateDashboard user={user} />}
       </div>
     </div>
   );
@@ -368,39 +723,199 @@ const Dashboard = ({ user, onReturnToLanding }: { user: User, onReturnToLanding:
 
 // --- SUB-DASHBOARDS ---
 
+// Shown instead of a dashboard while a reviewer waits on changes to the account.
+const AccountRevisionPanel = ({ user }: { user: User }) => {
+  const [form, setForm] = useState({ name: user.name, profilePhoto: user.profilePhoto || '', note: '' });
+  const [history, setHistory] = useState<StatusChange[]>([]);
+  const [load, setLoad] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => { DB.getUserStatusHistory(user._id).then(setHistory); }, []);
+
+  const handlePhotoUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (event) => setForm({ ...form, profilePhoto: event.target?.result as string });
+    reader.readAsDataURL(file);
+  };
+
+  const sub = async (e: any) => {
+    e.preventDefault();
+    setLoad(true);
+    try {
+      const saved = await DB.updateProfile({ name: form.name, profilePhoto: form.profilePhoto || undefined });
+      if (!saved) return toast.error('Your session has expired. Please sign in again.');
+      const res = await DB.resubmitAccount(form.note);
+      if (!res.success) return toast.error(res.message);
+    } catch (err) {
+      return toast.fail(err, () => sub({ preventDefault: () => {} }));
+    } finally {
+      setLoad(false);
+    }
+    toast.success('Thanks! Your account is back in the verification queue.');
+    await DB.signOut();
+  };
+
+  return (
+    <div className="max-w-2xl mx-auto bg-white p-14 rounded-[4rem] shadow-sm border border-gray-50 my-10 space-y-10">
+      <div>
+        <h3 className="text-3xl font-black tracking-tighter mb-4">Changes Requested</h3>
+        <div className="bg-orange-50 border border-orange-100 text-orange-700 p-6 rounded-[2rem] text-xs font-black"><i className="fas fa-comment-dots mr-3"></i>{user.reviewComment}</div>
+      </div>
+      <form onSubmit={sub} className="space-y-4">
+        <div className="flex items-center gap-6">
+          <div className="w-24 h-24 rounded-[2rem] overflow-hidden bg-gray-100 flex items-center justify-center cursor-pointer" onClick={() => fileInputRef.current?.click()}>
+            {form.profilePhoto ? <img src={form.profilePhoto} className="w-full h-full object-cover" alt="Profile" /> : <i className="fas fa-camera text-2xl text-gray-300"></i>}
+          </div>
+          <input type="file" ref={fileInputRef} className="hidden" accept="image/*" onChange={handlePhotoUpload} />
+          <input type="text" required placeholder="Full Institutional Name" className="flex-grow bg-gray-50 border-none rounded-2xl px-6 py-4 font-bold text-sm" value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} />
+        </div>
+        <textarea placeholder="Note for the reviewer (optional)" className="w-full bg-gray-50 border-none rounded-2xl px-6 py-4 font-bold text-sm h-28" value={form.note} onChange={e => setForm({ ...form, note: e.target.value })} />
+        <button type="submit" disabled={load} className="w-full bg-red-800 text-white py-5 rounded-[2rem] font-black uppercase tracking-widest shadow-2xl shadow-red-100 disabled:opacity-50 text-xs">Resubmit for Verification</button>
+      </form>
+      <div>
+        <h4 className="text-[10px] font-black uppercase text-gray-400 tracking-widest mb-4">Review History</h4>
+        <StatusTimeline history={history} />
+      </div>
+    </div>
+  );
+};
+
 const StudentDashboard = ({ user }: { user: User }) => {
   const [tab, setTab] = useState<'browse' | 'my'>('browse');
   const [events, setEvents] = useState<Event[]>([]);
   const [regs, setRegs] = useState<Registration[]>([]);
+  const [occupancy, setOccupancy] = useState<Record<string, EventOccupancy>>({});
+  const [notices, setNotices] = useState<UserNotification[]>([]);
+  const [departments, setDepartments] = useState<Department[]>([]);
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [filters, setFilters] = useState<CatalogFilters>(DEFAULT_CATALOG_FILTERS);
   const [load, setLoad] = useState(true);
 
   const refresh = async () => {
     setLoad(true);
-    const [evs, my] = await Promise.all([DB.getEvents(), DB.getRegistrationsByUser(user._id)]);
-    setEvents(evs.filter(e => e.status === 'approved'));
-    setRegs(my);
-    setLoad(false);
+    try {
+      // Passes for rescheduled workshops are re-signed before they are shown
+      await DB.renewPasses(user._id);
+      const [evs, my, occ, inbox, depts, tagList] = await Promise.all([DB.getEvents(), DB.getRegistrationsByUser(user._id), DB.getEventOccupancy(), DB.getNotifications(user._id), DB.getDepartments(), DB.getTags()]);
+      setEvents(evs.filter(e => e.status === 'approved'));
+      setDepartments(depts);
+      setTags(tagList);
+      setRegs(my);
+      setOccupancy(occ);
+      setNotices(inbox.filter(n => !n.readAt));
+    } catch (err) {
+      toast.fail(err, refresh);
+    } finally {
+      setLoad(false);
+    }
+  };
+
+  const dismissNotice = async (n: UserNotification) => {
+    await DB.markNotificationRead(n._id);
+    setNotices(notices.filter(x => x._id !== n._id));
+  };
+
+  const seatsLeft = (e: Event) => Math.max(0, e.maxParticipants - (occupancy[e._id]?.seatsTaken || 0));
+  const waitlistPosition = (r: Registration) => (occupancy[r.eventId]?.waitlist.indexOf(r._id) ?? -1) + 1;
+  const activeRegs = regs.filter(r => r.status !== 'cancelled' && r.status !== 'voided');
+  const shown = browseEvents(events, filters);
+  const filtered = JSON.stringify(filters) !== JSON.stringify(DEFAULT_CATALOG_FILTERS);
+
+  // Set while a registration is in flight, so a double click doesn't send a second one
+  const registering = useRef(false);
+  const register = async (e: Event) => {
+    if (registering.current) return;
+    if (!user.emailVerified) return toast.error('Verify your email address before registering for workshops.');
+    if (activeRegs.some(r => r.eventId === e._id)) return toast.info('You already hold a pass for this workshop.');
+    registering.current = true;
+    try {
+      const reg = await DB.registerForEvent(user._id, user.name, e._id, e.title);
+      if (!reg) toast.info('You already hold a pass for this workshop.');
+      else if (reg.status === 'waitlisted') toast.info('This workshop is full. You have been added to the waitlist and will receive a pass when a seat frees up.');
+      refresh();
+    } catch (err) {
+      toast.fail(err, () => register(e), 'Registration failed. Please try again shortly.');
+    } finally {
+      registering.current = false;
+    }
+  };
+
+  const releasePass = async (r: Registration) => {
+    if (!confirm(`Release your pass for "${r.eventTitle}"? Your seat will be offered to the waitlist.`)) return;
+    const res = await DB.cancelRegistration(r._id, user._id);
+    if (!res.success) toast.error(res.message);
+    refresh();
+  };
+
+  const registerSeries = async (e: Event) => {
+    if (!user.emailVerified) return toast.error('Verify your email address before registering for workshops.');
+    const res = await DB.registerForSeries(user._id, user.name, e.seriesId);
+    const parts = [`${res.registered} pass${res.registered === 1 ? '' : 'es'} issued`];
+    if (res.waitlisted) parts.push(`${res.waitlisted} waitlisted`);
+    if (res.alreadyHeld) parts.push(`${res.alreadyHeld} already held`);
+    toast.success(`Series registration: ${parts.join(', ')}.`);
+    refresh();
+  };
+
+  const resendVerification = async () => {
+    try {
+      await DB.requestEmailVerification(user.email);
+      toast.success(`A new verification link has been sent to ${user.email}.`);
+    } catch (e) { toast.fail(e, resendVerification, 'Could not send the verification email. Please try again shortly.'); }
   };
 
   useEffect(() => { refresh(); }, []);
 
   return (
     <div className="container mx-auto px-4 py-8">
+      {!user.emailVerified && (
+        <div className="bg-orange-50 border border-orange-100 text-orange-700 p-6 rounded-[2rem] mb-8 flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <p className="text-xs font-black"><i className="fas fa-envelope mr-3"></i>Confirm {user.email} to start registering for workshops.</p>
+          <button onClick={resendVerification} className="px-6 py-2 bg-white border border-orange-200 rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-orange-100 transition">Resend Link</button>
+        </div>
+      )}
+      {notices.map(n => (
+        <div key={n._id} className="bg-white border border-red-100 p-6 rounded-[2rem] mb-4 flex flex-col md:flex-row md:items-start justify-between gap-4 shadow-sm">
+          <div className="space-y-3">
+            <p className="text-xs font-black text-red-900"><i className="fas fa-bell mr-3 text-red-800"></i>"{n.title}" was {n.kind === 'event_cancelled' ? 'cancelled' : 'updated'} {new Date(n.createdAt).toLocaleString()}</p>
+            {n.kind === 'event_cancelled' ? <p className="text-xs font-bold text-gray-500">{n.message} Your pass has been voided.</p> : <ChangeList changes={n.changes} />}
+          </div>
+          <button onClick={() => dismissNotice(n)} className="px-6 py-2 bg-gray-50 text-gray-400 hover:text-red-800 rounded-xl text-[10px] font-black uppercase tracking-widest transition flex-shrink-0">Dismiss</button>
+        </div>
+      ))}
       <div className="flex space-x-4 bg-white p-2 rounded-2xl border inline-flex mb-12 shadow-sm">
         <button onClick={() => setTab('browse')} className={`px-10 py-3 rounded-xl font-black text-[10px] uppercase transition ${tab === 'browse' ? 'bg-red-800 text-white shadow-lg shadow-red-100' : 'text-gray-400'}`}>Explore Workshops</button>
         <button onClick={() => setTab('my')} className={`px-10 py-3 rounded-xl font-black text-[10px] uppercase transition ${tab === 'my' ? 'bg-red-800 text-white shadow-lg shadow-red-100' : 'text-gray-400'}`}>My Admission Passes</button>
       </div>
       
+      {tab === 'browse' && (
+        <div className="bg-white p-6 rounded-[2.5rem] border shadow-sm mb-10 grid md:grid-cols-2 lg:grid-cols-6 gap-3 items-center">
+          <input placeholder="Search workshops" className="lg:col-span-2 bg-gray-50 p-4 rounded-[1.25rem] font-bold text-sm" value={filters.search} onChange={e => setFilters({...filters, search: e.target.value})} />
+          <select className="bg-gray-50 p-4 rounded-[1.25rem] font-bold text-sm" value={filters.department} onChange={e => setFilters({...filters, department: e.target.value})}>
+            <option value="">All Departments</option>
+            {departments.map(d => <option key={d.code} value={d.code}>{d.code} • {d.name}</option>)}
+          </select>
+          <select className="bg-gray-50 p-4 rounded-[1.25rem] font-bold text-sm" value={filters.tagId} onChange={e => setFilters({...filters, tagId: e.target.value})}>
+            <option value="">All Categories</option>
+            {tags.map(t => <option key={t._id} value={t._id}>{t.name}</option>)}
+          </select>
+          <input type="date" title="From" className="bg-gray-50 p-4 rounded-[1.25rem] font-bold text-sm" value={filters.from} onChange={e => setFilters({...filters, from: e.target.value})} />
+          <input type="date" title="To" className="bg-gray-50 p-4 rounded-[1.25rem] font-bold text-sm" value={filters.to} onChange={e => setFilters({...filters, to: e.target.value})} />
+          <label className="flex items-center gap-2 text-[10px] font-black uppercase text-gray-400 tracking-widest ml-2 cursor-pointer">
+            <input type="checkbox" checked={filters.includePast} onChange={e => setFilters({...filters, includePast: e.target.checked})} /> Show Past Workshops
+          </label>
+          {filtered && <button onClick={() => setFilters(DEFAULT_CATALOG_FILTERS)} className="lg:col-start-6 text-[10px] font-black uppercase tracking-widest text-red-800 hover:underline">Clear Filters</button>}
+        </div>
+      )}
+
       {load ? <div className="text-center py-32 text-red-800"><i className="fas fa-circle-notch fa-spin fa-4x"></i></div> : (
         <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-10">
           {tab === 'browse' ? (
-            events.length === 0 ? <div className="col-span-full py-20 text-center text-gray-300 font-black uppercase tracking-widest">No active sessions scheduled.</div> : 
-            events.map(e => (
-              <div key={e._id} className="bg-white rounded-[3rem] overflow-hidden shadow-sm border border-gray-100 flex flex-col hover:shadow-2xl transition duration-500 transform hover:-translate-y-2 group cursor-pointer" onClick={async () => {
-                if (regs.some(r => r.eventId === e._id)) return alert('You already hold a pass for this workshop.');
-                await DB.registerForEvent(user._id, user.name, e._id, e.title);
-                refresh();
-              }}>
+            shown.length === 0 ? <div className="col-span-full py-20 text-center text-gray-300 font-black uppercase tracking-widest">{filtered ? 'No workshops match these filters.' : 'No upcoming sessions scheduled.'}</div> : 
+            shown.map(e => (
+              <div key={e._id} className="bg-white rounded-[3rem] overflow-hidden shadow-sm border border-gray-100 flex flex-col hover:shadow-2xl transition duration-500 transform hover:-translate-y-2 group cursor-pointer" onClick={() => register(e)}>
                 <div className="h-48 bg-gray-50 relative overflow-hidden">
                   <img src={e.posterUrl || 'https://via.placeholder.com/800x450?text=Institutional+Syllabus'} className="w-full h-full object-cover transition duration-700 group-hover:scale-110" alt={e.title} />
                   <div className="absolute top-4 right-4 bg-white/90 backdrop-blur-md px-4 py-1.5 rounded-full shadow-lg border border-white">
@@ -409,12 +924,26 @@ const StudentDashboard = ({ user }: { user: User }) => {
                 </div>
                 <div className="p-8 flex flex-col flex-grow">
                   <h3 className="text-2xl font-black mb-4 tracking-tighter group-hover:text-red-800 transition">{e.title}</h3>
+                  {e.tagIds.length > 0 && (
+                    <div className="flex flex-wrap gap-2 mb-4">
+                      {tags.filter(t => e.tagIds.includes(t._id)).map(t => <span key={t._id} className="bg-gray-50 text-gray-500 px-3 py-1 rounded-lg text-[9px] font-black uppercase tracking-widest">{t.name}</span>)}
+                    </div>
+                  )}
                   <div className="flex flex-col space-y-3 mt-auto">
                     <div className="flex items-center text-xs font-bold text-gray-400"><i className="far fa-calendar-alt w-6 text-red-800"></i> {e.date}</div>
                     <div className="flex items-center text-xs font-bold text-gray-400"><i className="far fa-clock w-6 text-red-800"></i> {e.startTime} - {e.endTime}</div>
                     <div className="flex items-center text-xs font-bold text-gray-400"><i className="fas fa-map-pin w-6 text-red-800"></i> {e.venue}</div>
+                    {e.sessions.length > 0 && <div className="flex items-center text-xs font-bold text-gray-400"><i className="fas fa-layer-group w-6 text-red-800"></i> {e.sessions.length} sessions through {e.sessions[e.sessions.length - 1].date}</div>}
+                    {e.seriesId && <div className="flex items-center text-xs font-bold text-gray-400"><i className="fas fa-redo w-6 text-red-800"></i> Part of a series • {events.filter(x => x.seriesId === e.seriesId).length} open dates</div>}
+                    {(() => {
+                      const mine = activeRegs.find(r => r.eventId === e._id);
+                      if (mine?.status === 'waitlisted') return <div className="flex items-center text-xs font-black text-orange-600"><i className="fas fa-hourglass-half w-6"></i> Waitlist position #{waitlistPosition(mine)}</div>;
+                      const left = seatsLeft(e);
+                      return <div className={`flex items-center text-xs font-black ${left === 0 ? 'text-orange-600' : 'text-green-700'}`}><i className="fas fa-chair w-6"></i> {left === 0 ? `Full • ${occupancy[e._id]?.waitlist.length || 0} waitlisted` : `${left} of ${e.maxParticipants} seats left`}</div>;
+                    })()}
                   </div>
-                  <button className="mt-8 w-full bg-red-800 text-white py-4 rounded-2xl font-black text-xs uppercase tracking-widest shadow-xl shadow-red-50 hover:bg-red-900 transition">Acquire Admission Pass</button>
+                  <button className="mt-8 w-full bg-red-800 text-white py-4 rounded-2xl font-black text-xs uppercase tracking-widest shadow-xl shadow-red-50 hover:bg-red-900 transition">{seatsLeft(e) === 0 ? 'Join Waitlist' : 'Acquire Admission Pass'}</button>
+                  {e.seriesId && <button onClick={(event) => { event.stopPropagation(); registerSeries(e); }} className="mt-3 w-full bg-red-50 text-red-800 py-3 rounded-2xl font-black text-[10px] uppercase tracking-widest hover:bg-red-100 transition"><i className="fas fa-redo mr-2"></i>Register For Whole Series</button>}
                 </div>
               </div>
             ))
@@ -422,15 +951,35 @@ const StudentDashboard = ({ user }: { user: User }) => {
             regs.length === 0 ? <div className="col-span-full py-20 text-center text-gray-300 font-black uppercase tracking-widest">No active passes.</div> :
             regs.map(r => (
               <div key={r._id} className="bg-white rounded-[3.5rem] border border-gray-100 p-10 flex flex-col items-center text-center shadow-sm hover:shadow-xl transition duration-500">
-                <span className={`px-5 py-1.5 rounded-full text-[9px] font-black uppercase tracking-widest mb-6 ${r.status === 'checked-in' ? 'bg-green-50 text-green-700 border border-green-100' : 'bg-red-50 text-red-800 border border-red-100'}`}>{r.status}</span>
+                <span className={`px-5 py-1.5 rounded-full text-[9px] font-black uppercase tracking-widest mb-6 ${r.status === 'checked-in' ? 'bg-green-50 text-green-700 border border-green-100' : r.status === 'waitlisted' ? 'bg-orange-50 text-orange-600 border border-orange-100' : r.status === 'cancelled' || r.status === 'voided' ? 'bg-gray-50 text-gray-400 border border-gray-100' : 'bg-red-50 text-red-800 border border-red-100'}`}>{r.status}</span>
                 <h3 className="text-2xl font-black mb-6 tracking-tighter leading-tight">{r.eventTitle}</h3>
-                <div className="bg-gray-50 p-6 rounded-[2.5rem] border border-gray-100 mb-8 shadow-inner">
-                  <img src={`https://api.qrserver.com/v1/create-qr-code/?size=250x250&data=${r.qrPayload}`} className="w-40 h-40 rounded-3xl shadow-2xl" alt="Admission QR" />
-                </div>
+                {r.status === 'cancelled' ? (
+                  <div className="bg-gray-50 p-6 rounded-[2.5rem] border border-gray-100 mb-8 w-40 h-40 flex flex-col items-center justify-center text-gray-300">
+                    <i className="fas fa-ban text-4xl mb-3"></i>
+                    <p className="text-[10px] font-black uppercase tracking-widest">Released {r.cancelledAt ? new Date(r.cancelledAt).toLocaleDateString() : ''}</p>
+                  </div>
+                ) : r.status === 'voided' ? (
+                  <div className="bg-gray-50 p-6 rounded-[2.5rem] border border-gray-100 mb-8 w-40 h-40 flex flex-col items-center justify-center text-gray-300">
+                    <i className="fas fa-calendar-times text-4xl mb-3"></i>
+                    <p className="text-[10px] font-black uppercase tracking-widest">Workshop Cancelled</p>
+                  </div>
+                ) : r.status === 'waitlisted' ? (
+                  <div className="bg-orange-50 p-6 rounded-[2.5rem] border border-orange-100 mb-8 w-40 h-40 flex flex-col items-center justify-center">
+                    <p className="text-[10px] font-black text-orange-400 uppercase tracking-widest">Waitlist</p>
+                    <p className="text-5xl font-black text-orange-600">#{waitlistPosition(r)}</p>
+                  </div>
+                ) : (
+                  <div className="bg-gray-50 p-6 rounded-[2.5rem] border border-gray-100 mb-8 shadow-inner">
+                    <QRCodeImage value={r.qrPayload} withLogo className="w-40 h-40 rounded-3xl shadow-2xl" />
+                  </div>
+                )}
                 <div className="space-y-1">
                    <p className="text-[10px] font-black text-gray-300 uppercase tracking-widest">Faculty Identification Pass</p>
                    <p className="text-xs font-bold text-red-800">{user.uniId}</p>
                 </div>
+                {(r.status === 'registered' || r.status === 'waitlisted') && (
+                  <button onClick={() => releasePass(r)} className="mt-6 text-[10px] font-black uppercase tracking-widest text-gray-400 hover:text-red-800 transition"><i className="fas fa-undo-alt mr-2"></i>Release Pass</button>
+                )}
               </div>
             ))
           )}
@@ -440,35 +989,118 @@ const StudentDashboard = ({ user }: { user: User }) => {
   );
 };
 
+// Asks for the reason registrants will see, then cancels the workshop. Resolves true once it is cancelled.
+const promptCancelEvent = async (e: Event): Promise<boolean> => {
+  const reason = prompt(`Cancel "${e.title}"? Every pass will be voided and its holder notified.\n\nReason for the cancellation:`);
+  if (reason === null) return false;
+  if (!reason.trim()) { toast.error('A reason is required to cancel a workshop.'); return false; }
+  const res = await DB.cancelEvent(e._id, reason);
+  if (!res.success) { toast.error(res.message); return false; }
+  return true;
+};
+
+// Formats a timestamp for a datetime-local input, which expects local time without a zone.
+const toLocalInput = (ms: number): string => new Date(ms - new Date(ms).getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+
 const OrganizerDashboard = ({ user }: { user: User }) => {
-  const [tab, setTab] = useState<'list' | 'create' | 'scan' | 'attendance'>('list');
+  const [tab, setTab] = useState<'list' | 'create' | 'edit' | 'scan' | 'attendance'>('list');
   const [events, setEvents] = useState<Event[]>([]);
+  const [editing, setEditing] = useState<Event | null>(null);
+  const [historyEvent, setHistoryEvent] = useState<Event | null>(null);
+  const [history, setHistory] = useState<StatusChange[]>([]);
   const [attendance, setAttendance] = useState<any[]>([]);
+  const [matrixEvent, setMatrixEvent] = useState<Event | null>(null);
+  const [matrixRegs, setMatrixRegs] = useState<Registration[]>([]);
+  const [matrixAttendance, setMatrixAttendance] = useState<SessionCheckIn[]>([]);
+  const [staffEvent, setStaffEvent] = useState<Event | null>(null);
+  const [staff, setStaff] = useState<StaffGrant[]>([]);
+  const [liveEvent, setLiveEvent] = useState<Event | null>(null);
+  const [grantForm, setGrantForm] = useState({ email: '', validFrom: '', validUntil: '' });
+
+  const loadStaff = async (evt: Event) => {
+    setStaffEvent(evt);
+    // Default window: from now until two hours after the last session ends
+    setGrantForm({ email: '', validFrom: toLocalInput(Date.now()), validUntil: toLocalInput(eventEnd(evt) + 2 * 60 * 60 * 1000) });
+    setStaff(await DB.getGateStaff(evt._id));
+  };
+
+  const assignStaff = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const res = await DB.assignGateStaff(staffEvent._id, grantForm.email, new Date(grantForm.validFrom).toISOString(), new Date(grantForm.validUntil).toISOString());
+    if (!res.success) return toast.error(res.message);
+    setGrantForm({ ...grantForm, email: '' });
+    setStaff(await DB.getGateStaff(staffEvent._id));
+  };
+
+  const revokeStaff = async (s: StaffGrant) => {
+    if (!confirm(`Revoke gate access for ${s.userName}?`)) return;
+    await DB.revokeGateStaff(s.eventId, s.userId);
+    setStaff(await DB.getGateStaff(staffEvent._id));
+  };
+
+  const loadHistory = async (evt: Event) => {
+    setHistoryEvent(evt);
+    setHistory(await DB.getEventStatusHistory(evt._id));
+  };
+
+  const resubmit = async (evt: Event) => {
+    const note = prompt(`Send "${evt.title}" back for review? Add a note for the reviewer (optional):`);
+    if (note === null) return;
+    const res = await DB.resubmitEvent(evt._id, note);
+    if (!res.success) return toast.error(res.message);
+    refresh();
+  };
+
+  const deleteProposal = async (evt: Event) => {
+    if (!confirm('Delete this session proposal?')) return;
+    try {
+      const res = await DB.deleteEvent(evt._id);
+      if (!res.success) toast.error(res.message);
+      refresh();
+    } catch (e) {
+      toast.fail(e, undefined, 'Could not delete the workshop.');
+    }
+  };
+
+  const loadMatrix = async (evt: Event) => {
+    setMatrixEvent(evt);
+    const [regs, sessionLog] = await Promise.all([DB.getRegistrationsByEvent(evt._id), DB.getSessionAttendance(evt._id)]);
+    setMatrixRegs(regs);
+    setMatrixAttendance(sessionLog);
+  };
 
   const refresh = async () => {
-    const [allE, allP] = await Promise.all([DB.getEvents(), DB.getAllParticipants()]);
-    const myEvents = allE.filter(e => e.organizerId === user._id);
-    const myEventIds = myEvents.map(e => e._id);
-    setEvents(myEvents);
-    setAttendance(allP.filter(p => myEventIds.includes(p.event_id)));
+    try {
+      const [allE, allP] = await Promise.all([DB.getEvents(), DB.getAllParticipants()]);
+      const myEvents = allE.filter(e => e.organizerId === user._id);
+      const myEventIds = myEvents.map(e => e._id);
+      setEvents(myEvents);
+      setAttendance(allP.filter(p => myEventIds.includes(p.event_id)));
+      if (matrixEvent) loadMatrix(matrixEvent);
+    } catch (err) {
+      toast.fail(err, refresh);
+    }
   };
 
   useEffect(() => { refresh(); }, []);
 
+  const multiSessionEvents = events.filter(e => e.sessions.length > 0);
+
   return (
     <div className="container mx-auto px-4 py-8">
       <div className="flex flex-wrap gap-4 bg-white p-2 rounded-2xl border inline-flex mb-12 shadow-sm">
         <button onClick={() => setTab('list')} className={`px-10 py-3 rounded-xl font-black text-[10px] uppercase transition ${tab === 'list' ? 'bg-red-800 text-white shadow-lg shadow-red-100' : 'text-gray-400'}`}>My Sessions</button>
         <button onClick={() => setTab('create')} className={`px-10 py-3 rounded-xl font-black text-[10px] uppercase transition ${tab === 'create' ? 'bg-red-800 text-white shadow-lg shadow-red-100' : 'text-gray-400'}`}>Host Workshop</button>
-        <button onClick={() => setTab('scan')} className={`px-10 py-3 rounded-xl font-black text-[10px] uppercase transition ${tab === 'scan' ? 'bg-red-800 text-white shadow-lg shadow-red-100' : 'text-gray-400'}`}>Entry Terminal</button>
-        <button onClick={() => setTab('attendance')} className={`px-10 py-3 rounded-xl font-black text-[10px] uppercase transition ${tab === 'attendance' ? 'bg-red-800 text-white shadow-lg shadow-red-100' : 'text-gray-400'}`}>Attendance Log ({attendance.length})</button>
+        {can(user, 'checkin.scan') && <button onClick={() => setTab('scan')} className={`px-10 py-3 rounded-xl font-black text-[10px] uppercase transition ${tab === 'scan' ? 'bg-red-800 text-white shadow-lg shadow-red-100' : 'text-gray-400'}`}>Entry Terminal</button>}
+        {can(user, 'attendance.view') && <button onClick={() => setTab('attendance')} className={`px-10 py-3 rounded-xl font-black text-[10px] uppercase transition ${tab === 'attendance' ? 'bg-red-800 text-white shadow-lg shadow-red-100' : 'text-gray-400'}`}>Attendance Log ({attendance.length})</button>}
       </div>
       
       {tab === 'list' && (
         <div className="space-y-6">
           {events.length === 0 ? <p className="text-center py-20 text-gray-300 font-black uppercase tracking-widest">No active sessions proposed.</p> :
             events.map(e => (
-              <div key={e._id} className="bg-white p-10 rounded-[3.5rem] shadow-sm flex flex-col md:flex-row justify-between items-center border border-gray-50 hover:shadow-xl transition duration-500">
+              <div key={e._id} className="bg-white p-10 rounded-[3.5rem] shadow-sm border border-gray-50 hover:shadow-xl transition duration-500">
+              <div className="flex flex-col md:flex-row justify-between items-center">
                 <div className="flex items-center space-x-8 mb-6 md:mb-0">
                    <div className="w-20 h-20 bg-gray-50 rounded-3xl overflow-hidden flex-shrink-0">
                       <img src={e.posterUrl || 'https://via.placeholder.com/150'} className="w-full h-full object-cover" alt={e.title} />
@@ -476,12 +1108,64 @@ const OrganizerDashboard = ({ user }: { user: User }) => {
                    <div>
                     <h3 className="text-3xl font-black tracking-tighter mb-2">{e.title}</h3>
                     <div className="flex items-center space-x-4">
-                      <span className={`text-[10px] font-black uppercase px-4 py-1 rounded-full border ${e.status === 'approved' ? 'bg-green-50 text-green-700 border-green-100' : 'bg-yellow-50 text-yellow-700 border-yellow-100'}`}>{e.status}</span>
+                      <span className={`text-[10px] font-black uppercase px-4 py-1 rounded-full border ${e.status === 'approved' ? 'bg-green-50 text-green-700 border-green-100' : e.status === 'cancelled' ? 'bg-gray-50 text-gray-400 border-gray-100' : e.status === 'changes_requested' ? 'bg-orange-50 text-orange-600 border-orange-100' : e.status === 'rejected' ? 'bg-red-50 text-red-800 border-red-100' : 'bg-yellow-50 text-yellow-700 border-yellow-100'}`}>{e.status.replace('_', ' ')}</span>
                       <span className="text-[10px] font-black uppercase text-gray-400 tracking-widest italic">{e.date} • {e.startTime}-{e.endTime}</span>
+                      {e.seriesId && <span className="text-[10px] font-black uppercase text-red-800 tracking-widest"><i className="fas fa-redo mr-1"></i>#{e.seriesIndex} in series</span>}
                     </div>
+                    {e.status === 'cancelled' && <p className="text-xs font-bold text-gray-400 mt-2">Cancelled {e.cancelledAt ? new Date(e.cancelledAt).toLocaleDateString() : ''}: {e.cancellationReason}</p>}
+                    {(e.status === 'changes_requested' || e.status === 'rejected') && e.reviewComment && <p className="text-xs font-bold text-orange-700 mt-2"><i className="fas fa-comment-dots mr-2"></i>Reviewer: {e.reviewComment}</p>}
                   </div>
                 </div>
-                <button onClick={async (event) => { event.stopPropagation(); if(confirm('Delete this session proposal?')) { await DB.deleteEvent(e._id); refresh(); } }} className="text-gray-200 hover:text-red-700 transition p-6 text-3xl"><i className="fas fa-trash-alt"></i></button>
+                <div className="flex items-center">
+                  {e.status === 'changes_requested' && can(user, 'events.edit', e) && (
+                    <button onClick={() => resubmit(e)} className="bg-red-800 text-white px-6 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest mr-2">Resubmit</button>
+                  )}
+                  <button onClick={() => historyEvent?._id === e._id ? setHistoryEvent(null) : loadHistory(e)} title="Review History" className={`transition p-6 text-2xl ${historyEvent?._id === e._id ? 'text-red-800' : 'text-gray-200 hover:text-red-700'}`}><i className="fas fa-history"></i></button>
+                  {can(user, 'events.edit', e) && e.status !== 'cancelled' && (
+                    <button onClick={() => { setEditing(e); setTab('edit'); }} title="Edit Workshop" className="text-gray-200 hover:text-red-700 transition p-6 text-2xl"><i className="fas fa-pen"></i></button>
+                  )}
+                  {can(user, 'attendance.view', e) && e.status === 'approved' && (
+                    <button onClick={() => setLiveEvent(e)} title="Live Attendance Display" className="text-gray-200 hover:text-red-700 transition p-6 text-2xl"><i className="fas fa-tv"></i></button>
+                  )}
+                  {can(user, 'staff.assign', e) && e.status === 'approved' && (
+                    <button onClick={() => staffEvent?._id === e._id ? setStaffEvent(null) : loadStaff(e)} title="Gate Staff" className={`transition p-6 text-2xl ${staffEvent?._id === e._id ? 'text-red-800' : 'text-gray-200 hover:text-red-700'}`}><i className="fas fa-user-shield"></i></button>
+                  )}
+                  {can(user, 'events.cancel', e) && e.status !== 'cancelled' && (
+                    <button onClick={async () => { if (await promptCancelEvent(e)) refresh(); }} title="Cancel Workshop" className="text-gray-200 hover:text-red-700 transition p-6 text-2xl"><i className="fas fa-ban"></i></button>
+                  )}
+                  {can(user, 'events.delete', e) && <button onClick={(event) => { event.stopPropagation(); deleteProposal(e); }} className="text-gray-200 hover:text-red-700 transition p-6 text-3xl"><i className="fas fa-trash-alt"></i></button>}
+                </div>
+              </div>
+              {historyEvent?._id === e._id && (
+                <div className="mt-8 pt-8 border-t space-y-4">
+                  <h4 className="text-[10px] font-black uppercase text-gray-400 tracking-widest">Review History</h4>
+                  <p className="text-[10px] font-black uppercase tracking-widest text-gray-400">{new Date(e.createdAt).toLocaleString()} • Proposed</p>
+                  <StatusTimeline history={history} />
+                </div>
+              )}
+              {staffEvent?._id === e._id && (
+                <div className="mt-8 pt-8 border-t space-y-4">
+                  <h4 className="text-[10px] font-black uppercase text-gray-400 tracking-widest">Gate Staff</h4>
+                  {staff.length === 0 ? <p className="text-xs font-bold text-gray-300">Only you can run the entry terminal for this workshop.</p> : staff.map(s => {
+                    const expired = new Date(s.validUntil).getTime() < Date.now();
+                    return (
+                      <div key={s.userId} className={`flex justify-between items-center bg-gray-50 px-6 py-3 rounded-2xl ${expired ? 'opacity-50' : ''}`}>
+                        <div>
+                          <p className="font-black text-sm text-red-900">{s.userName}</p>
+                          <p className="text-[10px] font-bold text-gray-400">{s.userEmail} • {new Date(s.validFrom).toLocaleString()} – {new Date(s.validUntil).toLocaleString()}{expired ? ' • Expired' : ''}</p>
+                        </div>
+                        <button onClick={() => revokeStaff(s)} className="text-gray-300 hover:text-red-700 transition text-[10px] font-black uppercase">Revoke</button>
+                      </div>
+                    );
+                  })}
+                  <form onSubmit={assignStaff} className="grid md:grid-cols-4 gap-3">
+                    <input type="email" required placeholder="Staff member's email" className="md:col-span-2 bg-gray-50 border-none rounded-2xl px-6 py-3 font-bold text-sm" value={grantForm.email} onChange={ev => setGrantForm({ ...grantForm, email: ev.target.value })} />
+                    <input type="datetime-local" required title="Access from" className="bg-gray-50 border-none rounded-2xl px-4 py-3 font-bold text-xs" value={grantForm.validFrom} onChange={ev => setGrantForm({ ...grantForm, validFrom: ev.target.value })} />
+                    <input type="datetime-local" required title="Access until" className="bg-gray-50 border-none rounded-2xl px-4 py-3 font-bold text-xs" value={grantForm.validUntil} onChange={ev => setGrantForm({ ...grantForm, validUntil: ev.target.value })} />
+                    <button type="submit" className="md:col-span-4 bg-red-800 text-white px-6 py-3 rounded-2xl font-black text-[10px] uppercase tracking-widest">Grant Gate Access</button>
+                  </form>
+                </div>
+              )}
               </div>
             ))
           }
@@ -494,23 +1178,47 @@ const OrganizerDashboard = ({ user }: { user: User }) => {
             <h3 className="text-2xl font-black tracking-tighter">My Workshop Attendance</h3>
             <button onClick={refresh} className="bg-red-50 text-red-800 px-6 py-2 rounded-xl text-[10px] font-black uppercase hover:bg-red-100 transition"><i className="fas fa-sync-alt mr-2"></i> Sync Attendance</button>
           </div>
+          {multiSessionEvents.length > 0 && (
+            <div className="p-10 border-b space-y-6">
+              <div className="flex flex-wrap items-center gap-3">
+                <h4 className="text-[10px] font-black uppercase text-gray-400 tracking-widest mr-2">Session Matrix</h4>
+                {multiSessionEvents.map(e => (
+                  <button key={e._id} onClick={() => loadMatrix(e)} className={`px-4 py-1.5 rounded-xl text-[10px] font-black uppercase transition ${matrixEvent?._id === e._id ? 'bg-red-800 text-white' : 'bg-gray-50 text-gray-400 hover:text-red-800'}`}>{e.title}</button>
+                ))}
+              </div>
+              {matrixEvent && <SessionMatrix sessions={matrixEvent.sessions} regs={matrixRegs} attendance={matrixAttendance} />}
+            </div>
+          )}
           <table className="w-full text-left">
             <thead className="bg-gray-50 text-[10px] font-black uppercase text-gray-400 tracking-widest">
               <tr>
                 <th className="px-10 py-6">Attendee</th>
                 <th className="px-10 py-6">Workshop</th>
                 <th className="px-10 py-6">Check-in Time</th>
+                <th className="px-10 py-6">Check-out Time</th>
+                <th className="px-10 py-6">Duration</th>
+                <th className="px-10 py-6">Scanned By</th>
               </tr>
             </thead>
             <tbody className="divide-y text-sm font-bold">
-              {attendance.length === 0 ? <tr><td colSpan={3} className="px-10 py-20 text-center text-gray-300 font-black uppercase tracking-widest">No check-ins recorded yet.</td></tr> : 
-                attendance.map(p => (
-                  <tr key={p.id} className="hover:bg-green-50/20 transition">
-                    <td className="px-10 py-6 text-red-900">{p.user_name}</td>
-                    <td className="px-10 py-6 text-gray-500 text-xs uppercase tracking-tight">{p.event_title}</td>
-                    <td className="px-10 py-6 text-gray-400">{new Date(p.check_in_time).toLocaleString()}</td>
-                  </tr>
-                ))
+              {attendance.length === 0 ? <tr><td colSpan={6} className="px-10 py-20 text-center text-gray-300 font-black uppercase tracking-widest">No check-ins recorded yet.</td></tr> : 
+                attendance.map(p => {
+                  const minutes = Attendance.durationMinutes(p.check_in_time, p.check_out_time);
+                  const complete = Attendance.isComplete(minutes, events.find(e => e._id === p.event_id));
+                  return (
+                    <tr key={p.id} className="hover:bg-green-50/20 transition">
+                      <td className="px-10 py-6 text-red-900">{p.user_name}</td>
+                      <td className="px-10 py-6 text-gray-500 text-xs uppercase tracking-tight">{p.event_title}</td>
+                      <td className="px-10 py-6 text-gray-400">{new Date(p.check_in_time).toLocaleString()}</td>
+                      <td className="px-10 py-6 text-gray-400">{p.check_out_time ? new Date(p.check_out_time).toLocaleString() : '—'}</td>
+                      <td className="px-10 py-6">
+                        <span className="text-gray-500 mr-3">{Attendance.formatDuration(minutes)}</span>
+                        {minutes !== null && <span className={`px-3 py-1 rounded-full text-[8px] font-black uppercase tracking-widest ${complete ? 'bg-green-50 text-green-700' : 'bg-orange-50 text-orange-600'}`}>{complete ? 'Complete' : 'Incomplete'}</span>}
+                      </td>
+                      <td className="px-10 py-6 text-gray-400 text-xs">{p.scanned_by_name || '—'}</td>
+                    </tr>
+                  );
+                })
               }
             </tbody>
           </table>
@@ -518,18 +1226,69 @@ const OrganizerDashboard = ({ user }: { user: User }) => {
       )}
 
       {tab === 'create' && <CreateEventForm user={user} onDone={() => { setTab('list'); refresh(); }} onBack={() => setTab('list')} />}
-      {tab === 'scan' && <CheckInScanner onBack={() => setTab('list')} />}
+      {tab === 'edit' && editing && <CreateEventForm user={user} event={editing} onDone={() => { setTab('list'); refresh(); }} onBack={() => setTab('list')} />}
+      {tab === 'scan' && <CheckInScanner events={events.filter(e => e.status === 'approved')} onBack={() => setTab('list')} />}
+      {liveEvent && <LiveAttendanceBoard event={liveEvent} onBack={() => { setLiveEvent(null); refresh(); }} />}
     </div>
   );
 };
 
-const CreateEventForm = ({ user, onDone, onBack }: any) => {
-  const [form, setForm] = useState({ title: '', description: '', department: 'ICT', venue: '', date: '', startTime: '', endTime: '', maxParticipants: 50, posterUrl: '' });
+// Registered venues, or free text until the registry has any.
+const VenuePicker = ({ venues, venueId, venue, onChange, className }: { venues: Venue[], venueId?: string, venue: string, onChange: (venueId: string, name: string) => void, className: string }) => (
+  venues.length === 0 ? (
+    <input placeholder="Venue" required className={className} value={venue} onChange={e => onChange('', e.target.value)} />
+  ) : (
+    <select required className={className} value={venueId || ''} onChange={e => { const v = venues.find(x => x._id === e.target.value); onChange(v?._id || '', v?.name || ''); }}>
+      <option value="">Select Venue</option>
+      {venues.map(v => <option key={v._id} value={v._id}>{v.name}{v.building ? ` • ${v.building}` : ''} ({v.capacity} seats)</option>)}
+    </select>
+  )
+);
+
+// Proposes a new workshop, or edits `event` when one is given.
+const CreateEventForm = ({ user, event, onDone, onBack }: any) => {
+  const editing: Event | undefined = event;
+  const [form, setForm] = useState(editing
+    ? { title: editing.title, description: editing.description, department: editing.department, tagIds: editing.tagIds, venue: editing.venue, venueId: editing.venueId || '', date: editing.date, startTime: editing.startTime, endTime: editing.endTime, maxParticipants: editing.maxParticipants, cancellationCutoffHours: editing.cancellationCutoffHours, minAttendanceMinutes: editing.minAttendanceMinutes, posterUrl: editing.posterUrl || '' }
+    : { title: '', description: '', department: user.department || 'ICT', tagIds: [], venue: '', venueId: '', date: '', startTime: '', endTime: '', maxParticipants: 50, cancellationCutoffHours: 24, minAttendanceMinutes: 0, posterUrl: '' });
+  // Sessions being edited keep their _id so their attendance survives the save
+  const [sessions, setSessions] = useState<(Omit<EventSession, '_id' | 'eventId'> & { _id?: string })[]>(editing ? editing.sessions : []);
+  const [revisions, setRevisions] = useState<EventRevision[]>([]);
+  const [venues, setVenues] = useState<Venue[]>([]);
+  const [departments, setDepartments] = useState<Department[]>([]);
+  const [tags, setTags] = useState<Tag[]>([]);
   const [busy, setBusy] = useState<'poster' | 'desc' | 'submitting' | null>(null);
+  const [repeat, setRepeat] = useState(false);
+  const [rule, setRule] = useState<RecurrenceRule>({ frequency: 'weekly', interval: 1, count: 6, until: '', skipDates: [] });
+  const [endsBy, setEndsBy] = useState<'count' | 'until'>('count');
+  const [editScope, setEditScope] = useState<'this' | 'future'>('this');
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const multiSession = sessions.length > 0;
+
+  // A series repeats from the first session's date when the workshop is split into sessions.
+  const firstDate = multiSession ? sessions.map(s => s.date).sort()[0] : form.date;
+  const seriesRule: RecurrenceRule = { ...rule, count: endsBy === 'count' ? rule.count : undefined, until: endsBy === 'until' ? rule.until : undefined };
+  const seriesDates = repeat && firstDate ? expandRecurrence(firstDate, seriesRule) : [];
+  const seriesProblem = repeat ? recurrenceProblem(firstDate, seriesRule) : null;
+
+  useEffect(() => {
+    DB.getVenues().then(setVenues);
+    DB.getDepartments().then(setDepartments);
+    DB.getTags().then(setTags);
+    if (editing) DB.getEventRevisions(editing._id).then(setRevisions);
+  }, []);
+
+  const venueCapacity = (venueId?: string) => venues.find(v => v._id === venueId)?.capacity;
+  const mainCapacity = multiSession ? undefined : venueCapacity(form.venueId);
+
+  const toggleTag = (tagId: string) =>
+    setForm({...form, tagIds: form.tagIds.includes(tagId) ? form.tagIds.filter((t: string) => t !== tagId) : [...form.tagIds, tagId]});
+
+  const updateSession = (i: number, patch: Partial<Omit<EventSession, '_id' | 'eventId'>>) =>
+    setSessions(sessions.map((s, j) => j === i ? { ...s, ...patch } : s));
 
   const genDesc = async () => {
-    if (!form.title) return alert('Enter title first.');
+    if (!form.title) return toast.error('Enter title first.');
     setBusy('desc');
     const d = await AIService.generateDescription(form.title, form.department);
     setForm({...form, description: d || ''});
@@ -537,7 +1296,7 @@ const CreateEventForm = ({ user, onDone, onBack }: any) => {
   };
 
   const genPoster = async () => {
-    if (!form.title) return alert('Enter title first.');
+    if (!form.title) return toast.error('Enter title first.');
     setBusy('poster');
     const p = await AIService.generatePoster(form.title, form.department, form.venue);
     setForm({...form, posterUrl: p || ''});
@@ -556,15 +1315,63 @@ const CreateEventForm = ({ user, onDone, onBack }: any) => {
 
   const sub = async (e: any) => {
     e.preventDefault();
+    if (seriesProblem) return toast.error(seriesProblem);
     setBusy('submitting');
-    await DB.createEvent({...form, organizerName: user.name, organizerEmail: user.email, organizerId: user._id});
+    let schedule = {};
+    if (multiSession) {
+      // The event's own date and times span from the first session to the last one.
+      const ordered = [...sessions].sort((a, b) => `${a.date}T${a.startTime}`.localeCompare(`${b.date}T${b.startTime}`));
+      const sessionVenues = new Set(ordered.map(s => s.venue));
+      const shared = sessionVenues.size === 1;
+      schedule = { date: ordered[0].date, startTime: ordered[0].startTime, endTime: ordered[ordered.length - 1].endTime, venue: shared ? ordered[0].venue : 'Multiple Venues', venueId: shared ? ordered[0].venueId || null : null };
+    }
+    const booking = { ...form, ...schedule, sessions };
+
+    const { problem, overlaps } = await DB.checkBooking(booking, editing?._id);
+    if (problem) { setBusy(null); return toast.error(problem); }
+    const clashes = overlaps.map((c: VenueConflict) => `• "${c.title}" (${c.status.replace('_', ' ')}) on ${c.date}, ${c.startTime}-${c.endTime}`);
+    if (clashes.length > 0 && !confirm(`This booking overlaps proposals still under review:\n${clashes.join('\n')}\n\nSubmit anyway? Reviewers will see the clash.`)) { setBusy(null); return; }
+
+    if (editing?.seriesId && editScope === 'future') {
+      const res = await DB.updateFutureOccurrences(editing._id, booking);
+      setBusy(null);
+      if (res.message) return toast.error(res.message);
+      const summary = [`${res.updated} occurrence${res.updated === 1 ? '' : 's'} updated`];
+      if (res.sentForReview) summary.push(`${res.sentForReview} sent back for review`);
+      toast.success(`${summary.join(', ')}. Pass holders have been notified.${res.failed.length ? `\n\nNot updated:\n${res.failed.map(f => `• ${f.date}: ${f.message}`).join('\n')}` : ''}`);
+      return onDone();
+    }
+    if (editing) {
+      const res = await DB.updateEvent(editing._id, booking);
+      setBusy(null);
+      if (!res.success) return toast.error(res.message);
+      if (res.changes.length === 0) return onDone();
+      toast.success(res.sentForReview
+        ? 'Changes saved. The new schedule has been sent back for review, and pass holders have been notified.'
+        : 'Changes saved. Pass holders have been notified.');
+      return onDone();
+    }
+    try {
+      const proposal = {...booking, organizerName: user.name, organizerEmail: user.email, organizerId: user._id};
+      if (repeat) {
+        const res = await DB.createEventSeries(proposal, seriesRule);
+        toast.success(res.failed.length === 0
+          ? `${res.events.length} workshops proposed as a series.`
+          : `${res.events.length} workshops proposed. Not created:\n${res.failed.map(f => `• ${f.date}: ${f.message}`).join('\n')}`);
+      } else {
+        await DB.createEvent(proposal);
+      }
+    } catch (err) {
+      setBusy(null);
+      return toast.fail(err, () => sub({ preventDefault: () => {} }), 'Could not submit the proposal.');
+    }
     onDone();
   };
 
   return (
     <div className="bg-white p-14 rounded-[5rem] border border-gray-50 shadow-2xl animate-scale-up max-w-5xl mx-auto">
       <div className="flex justify-between items-center mb-12">
-        <h3 className="text-4xl font-black tracking-tighter">Event Proposal</h3>
+        <h3 className="text-4xl font-black tracking-tighter">{editing ? 'Edit Workshop' : 'Event Proposal'}</h3>
         <button onClick={onBack} className="px-6 py-2 bg-gray-50 text-gray-400 hover:text-red-800 rounded-xl text-[10px] font-black uppercase tracking-widest transition">Cancel & Back</button>
       </div>
       <form onSubmit={sub} className="space-y-10">
@@ -574,6 +1381,24 @@ const CreateEventForm = ({ user, onDone, onBack }: any) => {
               <label className="text-[10px] font-black uppercase text-gray-300 tracking-widest ml-4 mb-2 block">Event Title</label>
               <input placeholder="Ex: AI Innovation Summit" required className="w-full bg-gray-50 p-6 rounded-[2rem] font-bold text-xl outline-none focus:ring-2 focus:ring-red-800 transition" value={form.title} onChange={e => setForm({...form, title: e.target.value})} />
             </div>
+            <div>
+              <label className="text-[10px] font-black uppercase text-gray-300 tracking-widest ml-4 mb-2 block">Department</label>
+              {/* Department decides who reviews the workshop, so it is fixed once proposed */}
+              <select required disabled={!!editing} className="w-full bg-gray-50 p-5 rounded-[1.5rem] font-bold disabled:opacity-60" value={form.department} onChange={e => setForm({...form, department: e.target.value})}>
+                {departments.length === 0 && <option value={form.department}>{form.department}</option>}
+                {departments.map(d => <option key={d.code} value={d.code}>{d.code} • {d.name}</option>)}
+              </select>
+            </div>
+            {tags.length > 0 && (
+              <div>
+                <label className="text-[10px] font-black uppercase text-gray-300 tracking-widest ml-4 mb-2 block">Categories</label>
+                <div className="flex flex-wrap gap-2">
+                  {tags.map(t => (
+                    <button key={t._id} type="button" onClick={() => toggleTag(t._id)} className={`px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition ${form.tagIds.includes(t._id) ? 'bg-red-800 text-white' : 'bg-gray-50 text-gray-400 hover:text-red-800'}`}>{t.name}</button>
+                  ))}
+                </div>
+              </div>
+            )}
             <div className="relative">
               <label className="text-[10px] font-black uppercase text-gray-300 tracking-widest ml-4 mb-2 block">Abstract</label>
               <textarea placeholder="Event Abstract" required className="w-full bg-gray-50 p-8 rounded-[2.5rem] font-bold h-64 outline-none focus:ring-2 focus:ring-red-800 transition" value={form.description} onChange={e => setForm({...form, description: e.target.value})} />
@@ -601,41 +1426,207 @@ const CreateEventForm = ({ user, onDone, onBack }: any) => {
               <button type="button" onClick={genPoster} disabled={!!busy} className="absolute bottom-6 right-6 bg-red-800 text-white px-6 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest shadow-xl disabled:opacity-50">AI Poster</button>
             </div>
             <div className="space-y-4">
+              {!multiSession && (
+                <>
+                  <div className="grid grid-cols-2 gap-4">
+                    <input type="date" required className="bg-gray-50 p-5 rounded-[1.5rem] font-bold" value={form.date} onChange={e => setForm({...form, date: e.target.value})} />
+                    <VenuePicker venues={venues} venueId={form.venueId} venue={form.venue} onChange={(venueId, venue) => setForm({...form, venueId, venue})} className="bg-gray-50 p-5 rounded-[1.5rem] font-bold" />
+                  </div>
+                  <div className="grid grid-cols-2 gap-4">
+                    <input type="time" required className="bg-gray-50 p-5 rounded-[1.5rem] font-bold" value={form.startTime} onChange={e => setForm({...form, startTime: e.target.value})} />
+                    <input type="time" required className="bg-gray-50 p-5 rounded-[1.5rem] font-bold" value={form.endTime} onChange={e => setForm({...form, endTime: e.target.value})} />
+                  </div>
+                </>
+              )}
+              {sessions.map((s, i) => (
+                <div key={i} className="bg-gray-50 p-5 rounded-[2rem] space-y-3 border border-gray-100">
+                  <div className="flex justify-between items-center">
+                    <span className="text-[10px] font-black uppercase text-gray-400 tracking-widest ml-2">Session {i + 1}</span>
+                    <button type="button" onClick={() => setSessions(sessions.filter((_, j) => j !== i))} className="text-gray-300 hover:text-red-800 transition"><i className="fas fa-times"></i></button>
+                  </div>
+                  <input placeholder="Session Title" required className="w-full bg-white p-4 rounded-[1.25rem] font-bold" value={s.title} onChange={e => updateSession(i, { title: e.target.value })} />
+                  <div className="grid grid-cols-2 gap-3">
+                    <input type="date" required className="bg-white p-4 rounded-[1.25rem] font-bold" value={s.date} onChange={e => updateSession(i, { date: e.target.value })} />
+                    <VenuePicker venues={venues} venueId={s.venueId} venue={s.venue} onChange={(venueId, venue) => updateSession(i, { venueId, venue })} className="bg-white p-4 rounded-[1.25rem] font-bold" />
+                  </div>
+                  <div className="grid grid-cols-3 gap-3">
+                    <input type="time" required className="bg-white p-4 rounded-[1.25rem] font-bold" value={s.startTime} onChange={e => updateSession(i, { startTime: e.target.value })} />
+                    <input type="time" required className="bg-white p-4 rounded-[1.25rem] font-bold" value={s.endTime} onChange={e => updateSession(i, { endTime: e.target.value })} />
+                    <input type="number" min={1} placeholder="Cap (opt.)" className="bg-white p-4 rounded-[1.25rem] font-bold" value={s.capacity || ''} onChange={e => updateSession(i, { capacity: parseInt(e.target.value) || undefined })} />
+                  </div>
+                </div>
+              ))}
+              <button type="button" onClick={() => setSessions([...sessions, { title: '', venue: form.venue, venueId: form.venueId, date: form.date, startTime: form.startTime, endTime: form.endTime }])} className="w-full border-2 border-dashed border-gray-200 text-gray-400 hover:text-red-800 hover:border-red-200 py-4 rounded-[1.5rem] text-[10px] font-black uppercase tracking-widest transition">
+                <i className="fas fa-plus mr-2"></i>{multiSession ? 'Add Another Session' : 'Split Into Sessions'}
+              </button>
               <div className="grid grid-cols-2 gap-4">
-                <input type="date" required className="bg-gray-50 p-5 rounded-[1.5rem] font-bold" value={form.date} onChange={e => setForm({...form, date: e.target.value})} />
-                <input placeholder="Venue" required className="bg-gray-50 p-5 rounded-[1.5rem] font-bold" value={form.venue} onChange={e => setForm({...form, venue: e.target.value})} />
-              </div>
-              <div className="grid grid-cols-2 gap-4">
-                <input type="time" required className="bg-gray-50 p-5 rounded-[1.5rem] font-bold" value={form.startTime} onChange={e => setForm({...form, startTime: e.target.value})} />
-                <input type="time" required className="bg-gray-50 p-5 rounded-[1.5rem] font-bold" value={form.endTime} onChange={e => setForm({...form, endTime: e.target.value})} />
+                <input type="number" min={1} placeholder="Seat Capacity" title="Seat Capacity" required className="bg-gray-50 p-5 rounded-[1.5rem] font-bold" value={form.maxParticipants} onChange={e => setForm({...form, maxParticipants: parseInt(e.target.value) || 0})} />
+                <input type="number" min={0} placeholder="Release Cutoff (hours)" title="Passes can be released until this many hours before start" required className="bg-gray-50 p-5 rounded-[1.5rem] font-bold" value={form.cancellationCutoffHours} onChange={e => setForm({...form, cancellationCutoffHours: parseInt(e.target.value) || 0})} />
               </div>
+              {mainCapacity !== undefined && (
+                <p className={`text-xs font-bold ${form.maxParticipants > mainCapacity ? 'text-red-600' : 'text-gray-400'}`}>
+                  <i className="fas fa-chair mr-2"></i>{form.venue} seats {mainCapacity}{form.maxParticipants > mainCapacity ? ' — lower the seat capacity or pick a larger venue.' : '.'}
+                </p>
+              )}
+              <input type="number" min={0} placeholder="Minimum Attendance (minutes)" title="Minutes between check-in and check-out for attendance to count as complete" className="w-full bg-gray-50 p-5 rounded-[1.5rem] font-bold" value={form.minAttendanceMinutes} onChange={e => setForm({...form, minAttendanceMinutes: parseInt(e.target.value) || 0})} />
+              {!editing && (
+                <div className="bg-gray-50 p-5 rounded-[2rem] space-y-3 border border-gray-100">
+                  <label className="flex items-center gap-3 text-[10px] font-black uppercase text-gray-400 tracking-widest ml-2 cursor-pointer">
+                    <input type="checkbox" checked={repeat} onChange={e => setRepeat(e.target.checked)} /> Repeat As A Series
+                  </label>
+                  {repeat && (
+                    <>
+                      <div className="grid grid-cols-2 gap-3">
+                        <select className="bg-white p-4 rounded-[1.25rem] font-bold" value={rule.frequency} onChange={e => setRule({...rule, frequency: e.target.value as RecurrenceRule['frequency']})}>
+                          <option value="weekly">Every N Weeks</option>
+                          <option value="daily">Every N Days</option>
+                        </select>
+                        <input type="number" min={1} title="N" className="bg-white p-4 rounded-[1.25rem] font-bold" value={rule.interval} onChange={e => setRule({...rule, interval: parseInt(e.target.value) || 0})} />
+                      </div>
+                      <div className="grid grid-cols-2 gap-3">
+                        <select className="bg-white p-4 rounded-[1.25rem] font-bold" value={endsBy} onChange={e => setEndsBy(e.target.value as 'count' | 'until')}>
+                          <option value="count">Ends After</option>
+                          <option value="until">Ends On</option>
+                        </select>
+                        {endsBy === 'count'
+                          ? <input type="number" min={2} placeholder="Occurrences" className="bg-white p-4 rounded-[1.25rem] font-bold" value={rule.count || ''} onChange={e => setRule({...rule, count: parseInt(e.target.value) || 0})} />
+                          : <input type="date" className="bg-white p-4 rounded-[1.25rem] font-bold" value={rule.until} onChange={e => setRule({...rule, until: e.target.value})} />}
+                      </div>
+                      {seriesProblem ? <p className="text-xs font-bold text-red-600 ml-2">{seriesProblem}</p> : (
+                        <div className="space-y-2">
+                          <p className="text-[10px] font-black uppercase text-gray-400 tracking-widest ml-2">{describeRecurrence(seriesRule)} • {seriesDates.length} workshops (click a date to skip it)</p>
+                          <div className="flex flex-wrap gap-2">
+                            {seriesDates.map(d => <button key={d} type="button" onClick={() => setRule({...rule, skipDates: [...rule.skipDates, d]})} className="bg-white px-3 py-1 rounded-lg text-[10px] font-black text-gray-600 hover:text-red-800 hover:line-through transition">{d}</button>)}
+                            {rule.skipDates.map(d => <button key={d} type="button" title="Restore" onClick={() => setRule({...rule, skipDates: rule.skipDates.filter(x => x !== d)})} className="bg-gray-100 px-3 py-1 rounded-lg text-[10px] font-black text-gray-300 line-through hover:text-green-700 transition">{d}</button>)}
+                          </div>
+                        </div>
+                      )}
+                    </>
+                  )}
+                </div>
+              )}
+              {editing?.seriesId && (
+                <div className="bg-gray-50 p-5 rounded-[2rem] space-y-2 border border-gray-100">
+                  <p className="text-[10px] font-black uppercase text-gray-400 tracking-widest ml-2">Occurrence #{editing.seriesIndex} of a series — apply changes to</p>
+                  <label className="flex items-center gap-3 text-xs font-bold ml-2 cursor-pointer"><input type="radio" checked={editScope === 'this'} onChange={() => setEditScope('this')} /> This occurrence only</label>
+                  <label className="flex items-center gap-3 text-xs font-bold ml-2 cursor-pointer"><input type="radio" checked={editScope === 'future'} onChange={() => setEditScope('future')} /> This and all future occurrences</label>
+                </div>
+              )}
             </div>
           </div>
         </div>
-        <button type="submit" disabled={!!busy} className="w-full bg-red-800 text-white py-6 rounded-[2.5rem] font-black text-2xl uppercase tracking-widest shadow-2xl disabled:opacity-50">Publish Proposal</button>
+        {editing?.status === 'approved' && <p className="text-xs font-bold text-gray-400 text-center"><i className="fas fa-info-circle mr-2 text-red-800"></i>Pass holders are notified of every change. Moving the date, time or venue may send the workshop back for review.</p>}
+        <button type="submit" disabled={!!busy} className="w-full bg-red-800 text-white py-6 rounded-[2.5rem] font-black text-2xl uppercase tracking-widest shadow-2xl disabled:opacity-50">{editing ? 'Save Changes' : repeat ? `Publish ${seriesDates.length} Workshops` : 'Publish Proposal'}</button>
       </form>
+      {revisions.length > 0 && (
+        <div className="mt-12 pt-10 border-t space-y-6">
+          <h4 className="text-[10px] font-black uppercase text-gray-400 tracking-widest">Change History</h4>
+          {revisions.map(r => (
+            <div key={r._id} className="bg-gray-50 p-6 rounded-[2rem] space-y-3">
+              <p className="text-[10px] font-black uppercase text-gray-400 tracking-widest">{new Date(r.createdAt).toLocaleString()} • {r.changedByName}{r.sentForReview ? ' • Sent for review' : ''}</p>
+              <ChangeList changes={r.changes} />
+            </div>
+          ))}
+        </div>
+      )}
     </div>
   );
 };
 
-const CheckInScanner = ({ onBack }: any) => {
+const CheckInScanner = ({ events, onBack }: { events: Event[], onBack: () => void }) => {
+  const [selectedEvent, setSelectedEvent] = useState<Event | null>(null);
+  const [selectedSession, setSelectedSession] = useState<EventSession | null>(null);
+  const [scanMode, setScanMode] = useState<'in' | 'out'>('in');
   const [active, setActive] = useState(false);
   const [result, setResult] = useState<any>(null);
   const [busy, setBusy] = useState(false);
+  const [offlineMode, setOfflineMode] = useState(localStorage.getItem('unievents_offline_mode') === '1');
+  const [online, setOnline] = useState(navigator.onLine);
+  const [pending, setPending] = useState(0);
+  const [rosterSize, setRosterSize] = useState<number | null>(null);
+  const [syncing, setSyncing] = useState(false);
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
 
+  const syncQueue = async () => {
+    setSyncing(true);
+    try {
+      const { conflicts: found } = await OfflineCheckIn.sync();
+      if (found.length) setConflicts(prev => [...prev, ...found]);
+    } finally {
+      setPending(await OfflineCheckIn.pendingCount());
+      setSyncing(false);
+    }
+  };
+
+  useEffect(() => {
+    OfflineCheckIn.pendingCount().then(setPending);
+    const goOnline = () => { setOnline(true); syncQueue(); };
+    const goOffline = () => setOnline(false);
+    window.addEventListener('online', goOnline);
+    window.addEventListener('offline', goOffline);
+    return () => { window.removeEventListener('online', goOnline); window.removeEventListener('offline', goOffline); };
+  }, []);
+
+  useEffect(() => {
+    localStorage.setItem('unievents_offline_mode', offlineMode ? '1' : '0');
+    if (offlineMode && selectedEvent && navigator.onLine) OfflineCheckIn.preload([selectedEvent._id]).then(setRosterSize);
+  }, [offlineMode, selectedEvent]);
+
   const processCode = async (code: string) => {
-    if (busy || !code) return;
+    if (busy || !code || !selectedEvent) return;
     setBusy(true);
     try {
-      const res = await DB.checkInUser(code);
-      setResult(res);
+      if (scanMode === 'out') {
+        setResult(offlineMode
+          ? { success: false, message: 'Check-out scans need a live connection. Turn off offline mode.' }
+          : await DB.checkOutUser(code, selectedEvent._id));
+      } else if (offlineMode && selectedSession) {
+        setResult({ success: false, message: 'Session check-ins need a live connection. Turn off offline mode.' });
+      } else if (offlineMode) {
+        const res = await OfflineCheckIn.checkIn(code, selectedEvent._id);
+        setPending(await OfflineCheckIn.pendingCount());
+        setResult(res);
+        if (res.success && navigator.onLine) syncQueue();
+      } else {
+        setResult(await DB.checkInUser(code, selectedEvent._id, selectedSession?._id));
+      }
       setActive(false);
-    } catch (e) { alert('Check-in failed.'); }
+    } catch (e) { toast.fail(e, () => processCode(code), scanMode === 'out' ? 'Check-out failed.' : 'Check-in failed.'); }
     finally { setBusy(false); }
   };
 
+  const statusBar = (
+    <div className="mb-8 space-y-3 text-left">
+      <div className="flex items-center justify-between bg-gray-50 rounded-2xl px-5 py-3">
+        <span className={`text-[10px] font-black uppercase tracking-widest ${online ? 'text-green-600' : 'text-orange-600'}`}>
+          <i className={`fas ${online ? 'fa-wifi' : 'fa-plug'} mr-2`}></i>{online ? 'Online' : 'Offline'}
+        </span>
+        <button onClick={() => setOfflineMode(!offlineMode)} className={`px-4 py-1.5 rounded-xl text-[10px] font-black uppercase tracking-widest transition ${offlineMode ? 'bg-red-800 text-white' : 'bg-white text-gray-400 border'}`}>Offline Mode {offlineMode ? 'On' : 'Off'}</button>
+      </div>
+      {offlineMode && (
+        <div className="flex items-center justify-between bg-orange-50 border border-orange-100 rounded-2xl px-5 py-3">
+          <span className="text-[10px] font-black uppercase tracking-widest text-orange-700">
+            {pending} Pending Sync{rosterSize !== null && <span className="text-orange-400"> • {rosterSize} Cached Passes</span>}
+          </span>
+          <button onClick={syncQueue} disabled={syncing || !online || pending === 0} className="text-[10px] font-black uppercase tracking-widest text-orange-700 disabled:opacity-40">
+            <i className={`fas fa-sync-alt mr-1 ${syncing ? 'fa-spin' : ''}`}></i> Sync
+          </button>
+        </div>
+      )}
+      {conflicts.length > 0 && (
+        <div className="bg-red-50 border border-red-100 rounded-2xl px-5 py-3">
+          <div className="flex justify-between items-center mb-2">
+            <span className="text-[10px] font-black uppercase tracking-widest text-red-800">{conflicts.length} Sync Conflicts</span>
+            <button onClick={() => setConflicts([])} className="text-[10px] font-black uppercase text-red-400 hover:text-red-800">Dismiss</button>
+          </div>
+          {conflicts.map(c => <p key={c.checkIn.registrationId} className="text-xs font-bold text-red-900">{c.checkIn.userName}: <span className="text-red-700/70">{c.reason}</span></p>)}
+        </div>
+      )}
+    </div>
+  );
+
   useEffect(() => {
     if (!active) return;
     let stream: MediaStream | null = null;
@@ -662,13 +1653,70 @@ const CheckInScanner = ({ onBack }: any) => {
     return () => { if (stream) stream.getTracks().forEach(t => t.stop()); cancelAnimationFrame(rAF); };
   }, [active]);
 
+  if (!selectedEvent) return (
+    <div className="max-w-md mx-auto bg-white p-14 rounded-[5rem] shadow-2xl text-center animate-scale-up">
+      <div className="flex justify-between items-center mb-10">
+        <h3 className="text-2xl font-black">Select Venue</h3>
+        <button onClick={onBack} className="px-4 py-2 bg-gray-50 text-gray-400 rounded-xl text-[10px] font-black uppercase tracking-widest">Close</button>
+      </div>
+      {events.length === 0 ? <p className="py-10 text-gray-300 font-black uppercase tracking-widest text-xs">No approved sessions to admit.</p> : (
+        <div className="space-y-4 text-left">
+          {events.map(e => (
+            <button key={e._id} onClick={() => setSelectedEvent(e)} className="w-full bg-gray-50 hover:bg-red-50 p-6 rounded-[2rem] transition group">
+              <p className="font-black text-lg tracking-tighter group-hover:text-red-800 transition">{e.title}</p>
+              <p className="text-[10px] font-black uppercase text-gray-400 tracking-widest">{e.date} • {e.startTime}-{e.endTime} • {e.venue}</p>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+
+  if (selectedEvent.sessions.length > 0 && !selectedSession) return (
+    <div className="max-w-md mx-auto bg-white p-14 rounded-[5rem] shadow-2xl text-center animate-scale-up">
+      <div className="flex justify-between items-center mb-10">
+        <h3 className="text-2xl font-black">Select Session</h3>
+        <button onClick={() => setSelectedEvent(null)} className="px-4 py-2 bg-gray-50 text-gray-400 rounded-xl text-[10px] font-black uppercase tracking-widest">Back</button>
+      </div>
+      <div className="space-y-4 text-left">
+        {selectedEvent.sessions.map(s => (
+          <button key={s._id} onClick={() => setSelectedSession(s)} className="w-full bg-gray-50 hover:bg-red-50 p-6 rounded-[2rem] transition group">
+            <p className="font-black text-lg tracking-tighter group-hover:text-red-800 transition">{s.title}</p>
+            <p className="text-[10px] font-black uppercase text-gray-400 tracking-widest">{s.date} • {s.startTime}-{s.endTime} • {s.venue}</p>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+
+  const venueHeader = (
+    <div className="flex items-center justify-between bg-red-50 rounded-2xl px-5 py-3 mb-3 text-left">
+      <div>
+        <p className="text-[8px] font-black uppercase text-red-400 tracking-widest">Admitting For</p>
+        <p className="text-xs font-black text-red-900">{selectedEvent.title}{selectedSession && <span className="text-red-400"> • {selectedSession.title}</span>}</p>
+      </div>
+      <button onClick={() => { setActive(false); setResult(null); setRosterSize(null); setSelectedSession(null); setSelectedEvent(null); }} className="text-[10px] font-black uppercase tracking-widest text-red-400 hover:text-red-800">Change</button>
+    </div>
+  );
+
+  const checkOutMinutes = scanMode === 'out' && result?.success ? Attendance.durationMinutes(result.registration?.checkInTime, result.registration?.checkOutTime) : null;
+
   if (result) return (
     <div className="max-w-md mx-auto text-center p-14 bg-white rounded-[5rem] shadow-2xl animate-scale-up">
+      {venueHeader}
+      {statusBar}
       <div className={`w-32 h-32 mx-auto rounded-[3rem] flex items-center justify-center mb-10 text-white ${result.success ? 'bg-green-500 shadow-green-100' : 'bg-red-700 shadow-red-100'} shadow-2xl`}>
         <i className={`fas ${result.success ? 'fa-check' : 'fa-times'} text-5xl`}></i>
       </div>
-      <h3 className="text-4xl font-black mb-4 tracking-tighter">{result.success ? 'Verified' : 'Access Denied'}</h3>
-      <p className="text-gray-400 font-bold mb-12">{result.registration?.userName || result.message}</p>
+      <h3 className="text-4xl font-black mb-4 tracking-tighter">{result.success ? (scanMode === 'out' ? 'Checked Out' : 'Verified') : result.code === 'wrong-event' ? 'Wrong Venue' : 'Access Denied'}</h3>
+      <p className="text-gray-400 font-bold mb-12">
+        {result.registration?.userName || result.message}
+        {checkOutMinutes !== null && (
+          <span className={`block mt-2 text-xs font-black uppercase tracking-widest ${Attendance.isComplete(checkOutMinutes, selectedEvent) ? 'text-green-600' : 'text-orange-600'}`}>
+            Stayed {Attendance.formatDuration(checkOutMinutes)} • {Attendance.isComplete(checkOutMinutes, selectedEvent) ? 'Attendance Complete' : 'Attendance Incomplete'}
+          </span>
+        )}
+      </p>
       <div className="space-y-4">
         <button onClick={() => { setResult(null); setActive(true); }} className="w-full bg-red-800 text-white py-6 rounded-[2.5rem] font-black uppercase tracking-widest text-xs">Next Admission</button>
         <button onClick={onBack} className="w-full text-[10px] font-black uppercase text-gray-400 py-2 hover:text-red-800 transition">Return to Dashboard</button>
@@ -682,6 +1730,12 @@ const CheckInScanner = ({ onBack }: any) => {
         <h3 className="text-2xl font-black">Scanning Terminal</h3>
         <button onClick={onBack} className="px-4 py-2 bg-gray-50 text-gray-400 rounded-xl text-[10px] font-black uppercase tracking-widest">Close</button>
       </div>
+      {venueHeader}
+      {statusBar}
+      <div className="bg-gray-50 rounded-2xl p-2 flex mb-8">
+        <button onClick={() => setScanMode('in')} className={`flex-grow py-3 rounded-xl font-black text-[10px] uppercase transition ${scanMode === 'in' ? 'bg-white shadow-sm text-red-800' : 'text-gray-400'}`}>Check-in</button>
+        <button onClick={() => setScanMode('out')} className={`flex-grow py-3 rounded-xl font-black text-[10px] uppercase transition ${scanMode === 'out' ? 'bg-white shadow-sm text-red-800' : 'text-gray-400'}`}>Check-out</button>
+      </div>
       <div className="aspect-square bg-gray-900 rounded-[4rem] mb-12 overflow-hidden relative">
         {active ? <video ref={videoRef} className="absolute inset-0 w-full h-full object-cover" muted playsInline /> : <button onClick={() => setActive(true)} className="bg-white text-red-800 px-14 py-6 rounded-[3rem] font-black shadow-2xl mt-32 text-xs">Activate Camera</button>}
         <canvas ref={canvasRef} className="hidden" />
@@ -690,67 +1744,420 @@ const CheckInScanner = ({ onBack }: any) => {
   );
 };
 
-const AdminDashboard = () => {
+// Scanner-only view for gate staff, limited to the events they currently hold a grant for.
+const GateDashboard = ({ user }: { user: User }) => {
+  const [events, setEvents] = useState<Event[]>([]);
+  const [load, setLoad] = useState(true);
+  const [terminal, setTerminal] = useState(0);
+
+  useEffect(() => {
+    DB.getEvents().then(all => {
+      setEvents(all.filter(e => e.status === 'approved' && can(user, 'checkin.scan', e)));
+      setLoad(false);
+    });
+  }, []);
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      {load ? <div className="text-center py-32 text-red-800"><i className="fas fa-circle-notch fa-spin fa-4x"></i></div> :
+        // Closing the terminal remounts it back at venue selection
+        <div key={terminal}><CheckInScanner events={events} onBack={() => setTerminal(t => t + 1)} /></div>}
+    </div>
+  );
+};
+
+const ARRIVAL_BUCKET_MINUTES = 5;
+const ARRIVAL_BUCKETS = 12; // One hour of arrival rate
+
+// Event-day display for a screen at the venue entrance. It re-reads the snapshot whenever check-ins or
+// registrations change; the clock only moves the arrival-rate window along.
+const LiveAttendanceBoard = ({ event, onBack }: { event: Event, onBack: () => void }) => {
+  const [live, setLive] = useState<LiveAttendance | null>(null);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    let closed = false;
+    let pending: ReturnType<typeof setTimeout> | undefined;
+    const load = () => DB.getLiveAttendance(event._id)
+      .then(snapshot => { if (!closed) setLive(snapshot); })
+      .catch(err => { if (!closed) toast.fail(err, load); });
+    // A check-in changes both tables at once, so a burst of changes is read once
+    const changed = () => { clearTimeout(pending); pending = setTimeout(load, 250); };
+
+    load();
+    const unsubscribe = DB.onAttendanceChange(event._id, changed);
+    const clock = setInterval(() => setNow(Date.now()), 30000);
+    return () => { closed = true; clearTimeout(pending); clearInterval(clock); unsubscribe(); };
+  }, [event._id]);
+
+  const checkedIn = live?.checkIns.length || 0;
+  const registered = live?.registered || 0;
+  const share = registered > 0 ? Math.min(100, Math.round((checkedIn / registered) * 100)) : 0;
+  const rate = Attendance.arrivalRate(live?.checkIns || [], now, ARRIVAL_BUCKET_MINUTES, ARRIVAL_BUCKETS);
+  const peak = Math.max(1, ...rate);
+  const windowEnd = Math.ceil(now / (ARRIVAL_BUCKET_MINUTES * 60000)) * ARRIVAL_BUCKET_MINUTES * 60000;
+  const bucketStart = (i: number) => new Date(windowEnd - (ARRIVAL_BUCKETS - i) * ARRIVAL_BUCKET_MINUTES * 60000);
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-gray-950 text-white overflow-y-auto animate-fade-in">
+      <div className="min-h-full flex flex-col p-10 gap-10">
+        <div className="flex justify-between items-center">
+          <div className="flex items-center gap-6">
+            <LogoImage className="h-16 w-auto" />
+            <div>
+              <p className="text-[10px] font-black uppercase text-red-400 tracking-[0.3em]"><i className="fas fa-circle text-[6px] align-middle mr-2 animate-pulse"></i>Live Attendance</p>
+              <h2 className="text-4xl font-black tracking-tighter">{event.title}</h2>
+              <p className="text-xs font-bold text-gray-400 uppercase tracking-widest">{event.venue} • {event.date} • {event.startTime}-{event.endTime}</p>
+            </div>
+          </div>
+          <div className="flex items-center gap-4">
+            <p className="text-4xl font-black font-mono text-gray-300">{new Date(now).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</p>
+            <button onClick={() => document.documentElement.requestFullscreen?.()} title="Full Screen" className="text-gray-500 hover:text-white transition p-4 text-xl"><i className="fas fa-expand"></i></button>
+            <button onClick={() => { if (document.fullscreenElement) document.exitFullscreen(); onBack(); }} title="Close" className="text-gray-500 hover:text-white transition p-4 text-xl"><i className="fas fa-times"></i></button>
+          </div>
+        </div>
+
+        {!live ? <div className="flex-1 flex items-center justify-center text-red-400"><i className="fas fa-circle-notch fa-spin fa-4x"></i></div> : (
+          <div className="flex-1 grid lg:grid-cols-5 gap-10">
+            <div className="lg:col-span-2 space-y-10">
+              <div className="bg-white/5 rounded-[3rem] p-10">
+                <p className="text-[10px] font-black uppercase text-gray-400 tracking-widest mb-4">Checked In</p>
+                <p className="font-black tracking-tighter leading-none"><span className="text-8xl text-white">{checkedIn}</span><span className="text-4xl text-gray-500"> / {registered}</span></p>
+                <div className="h-4 bg-white/10 rounded-full mt-8 overflow-hidden">
+                  <div className="h-full bg-red-600 rounded-full transition-all duration-700" style={{ width: `${share}%` }}></div>
+                </div>
+                <p className="text-xs font-black uppercase text-gray-400 tracking-widest mt-3">{share}% of registered attendees</p>
+              </div>
+              <div className="bg-white/5 rounded-[3rem] p-10">
+                <p className="text-[10px] font-black uppercase text-gray-400 tracking-widest mb-6">Arrivals per {ARRIVAL_BUCKET_MINUTES} Minutes</p>
+                <div className="flex items-end gap-2 h-40">
+                  {rate.map((count, i) => (
+                    <div key={i} className="flex-1 flex flex-col items-center justify-end h-full" title={`${bucketStart(i).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}: ${count}`}>
+                      {count > 0 && <span className="text-[10px] font-black text-gray-300 mb-1">{count}</span>}
+                      <div className={`w-full rounded-t-lg transition-all duration-700 ${i === ARRIVAL_BUCKETS - 1 ? 'bg-red-600' : 'bg-white/30'}`} style={{ height: `${(count / peak) * 100}%`, minHeight: 2 }}></div>
+                    </div>
+                  ))}
+                </div>
+                <div className="flex justify-between text-[10px] font-bold text-gray-500 mt-3">
+                  <span>{bucketStart(0).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
+                  <span>Now</span>
+                </div>
+              </div>
+            </div>
+
+            <div className="lg:col-span-3 bg-white/5 rounded-[3rem] p-10">
+              <p className="text-[10px] font-black uppercase text-gray-400 tracking-widest mb-8">Latest Arrivals</p>
+              {live.latest.length === 0 ? <p className="text-center py-20 text-gray-600 font-black uppercase tracking-widest">Waiting for the first check-in</p> : (
+                <div className="grid sm:grid-cols-2 xl:grid-cols-3 gap-6">
+                  {live.latest.map((a, i) => (
+                    <div key={a.registrationId} className={`flex items-center gap-5 rounded-[2rem] p-5 ${i === 0 ? 'bg-red-800 animate-scale-up' : 'bg-white/5'}`}>
+                      <div className="w-16 h-16 rounded-full overflow-hidden bg-white/10 flex items-center justify-center flex-shrink-0">
+                        {a.profilePhoto ? <img src={a.profilePhoto} alt={a.userName} className="w-full h-full object-cover" /> : <i className="fas fa-user text-2xl text-gray-500"></i>}
+                      </div>
+                      <div className="min-w-0">
+                        <p className="font-black text-lg leading-tight truncate">{a.userName}</p>
+                        <p className="text-[10px] font-bold text-gray-400 uppercase tracking-widest">{a.uniId}</p>
+                        <p className="text-[10px] font-mono text-gray-400">{new Date(a.checkInTime).toLocaleTimeString()}</p>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// Faculty oversight: full control for admins, department-scoped review for coordinators, read-only for auditors.
+// --- PAGED TABLES ---
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+// The value once it has stopped changing for `ms`, so a search box doesn't query on every keystroke.
+const useDebouncedValue = <T,>(value: T, ms = SEARCH_DEBOUNCE_MS): T => {
+  const [settled, setSettled] = useState(value);
+  useEffect(() => {
+    const timer = setTimeout(() => setSettled(value), ms);
+    return () => clearTimeout(timer);
+  }, [value, ms]);
+  return settled;
+};
+
+// Cursor pagination over a repository search. A new query starts again from the first page; answers to
+// queries that have since been replaced are dropped.
+const usePagedSearch = <Q, P extends Page<any>>(search: (query: Q & { cursor?: string; limit?: number }) => Promise<P>, query: Q, enabled = true) => {
+  const [cursors, setCursors] = useState<(string | undefined)[]>([undefined]);
+  const [page, setPage] = useState<P>({ items: [], total: 0 } as P);
+  const [loading, setLoading] = useState(false);
+  const latest = useRef(0);
+  const key = JSON.stringify(query);
+
+  const load = async (cursor?: string) => {
+    const request = ++latest.current;
+    setLoading(true);
+    try {
+      const result = await search({ ...query, cursor, limit: PAGE_SIZE });
+      if (request === latest.current) setPage(result);
+    } catch (err) {
+      if (request === latest.current) toast.fail(err, () => load(cursor));
+    } finally {
+      if (request === latest.current) setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!enabled) return;
+    setCursors([undefined]);
+    load();
+  }, [key, enabled]);
+
+  return {
+    page,
+    loading,
+    first: (cursors.length - 1) * PAGE_SIZE + 1,
+    hasPrevious: cursors.length > 1,
+    next: () => {
+      if (!page.nextCursor) return;
+      setCursors([...cursors, page.nextCursor]);
+      load(page.nextCursor);
+    },
+    previous: () => {
+      const back = cursors.slice(0, -1);
+      setCursors(back);
+      load(back[back.length - 1]);
+    },
+    reload: () => load(cursors[cursors.length - 1]),
+  };
+};
+
+// Every row matching a query, page by page, for exports.
+const collectPages = async <Q, T>(search: (query: Q & { cursor?: string; limit?: number }) => Promise<Page<T>>, query: Q): Promise<T[]> => {
+  const rows: T[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await search({ ...query, cursor, limit: 500 });
+    rows.push(...page.items);
+    cursor = page.nextCursor;
+  } while (cursor);
+  return rows;
+};
+
+const Pager = ({ paged }: { paged: ReturnType<typeof usePagedSearch> }) => (
+  <div className="px-10 py-6 border-t flex justify-between items-center text-[10px] font-black uppercase tracking-widest text-gray-400">
+    <span>{paged.page.total === 0 ? 'No results' : `${paged.first}–${paged.first + paged.page.items.length - 1} of ${paged.page.total}`}</span>
+    <div className="flex gap-2">
+      <button onClick={paged.previous} disabled={!paged.hasPrevious || paged.loading} className="bg-gray-100 text-gray-600 px-4 py-2 rounded-xl hover:bg-gray-200 transition disabled:opacity-40"><i className="fas fa-chevron-left mr-2"></i>Previous</button>
+      <button onClick={paged.next} disabled={!paged.page.nextCursor || paged.loading} className="bg-gray-100 text-gray-600 px-4 py-2 rounded-xl hover:bg-gray-200 transition disabled:opacity-40">Next<i className="fas fa-chevron-right ml-2"></i></button>
+    </div>
+  </div>
+);
+
+// A column header that sorts by `field`; clicking the active column flips the direction.
+const SortHeader = <S extends string>({ label, field, sort, direction, onSort, className = "px-10 py-6" }: { label: string, field: S, sort: S, direction: SortDirection, onSort: (sort: S, direction: SortDirection) => void, className?: string }) => (
+  <th className={`${className} cursor-pointer select-none hover:text-red-800 transition`} onClick={() => onSort(field, sort === field && direction === 'asc' ? 'desc' : 'asc')}>
+    {label}
+    <i className={`fas ml-2 ${sort !== field ? 'fa-sort text-gray-200' : direction === 'asc' ? 'fa-sort-up text-red-800' : 'fa-sort-down text-red-800'}`}></i>
+  </th>
+);
+
+const AdminDashboard = ({ user }: { user: User }) => {
   const [evs, setEvs] = useState<Event[]>([]);
   const [pendingStaff, setPendingStaff] = useState<User[]>([]);
-  const [allUsers, setAllUsers] = useState<User[]>([]);
-  const [participants, setParticipants] = useState<any[]>([]);
-  const [view, setView] = useState<'approvals' | 'inventory' | 'participants' | 'users'>('approvals');
-  const [userCategory, setUserCategory] = useState<'all' | 'student' | 'organizer' | 'admin'>('all');
+  const [totals, setTotals] = useState({ members: 0, students: 0, checkIns: 0 });
+  const canReview = can(user, 'events.review') || can(user, 'users.review');
+  const canExport = can(user, 'reports.export');
+  const [view, setView] = useState<'approvals' | 'inventory' | 'participants' | 'users' | 'venues' | 'taxonomy'>(canReview ? 'approvals' : 'inventory');
+  const [userCategory, setUserCategory] = useState<'all' | UserRole>('all');
+  const [userSearch, setUserSearch] = useState('');
+  const [userSort, setUserSort] = useState<Pick<UserQuery, 'sort' | 'direction'>>({ sort: 'name', direction: 'asc' });
+  const [activityFilters, setActivityFilters] = useState({ search: '', eventId: '', from: '', to: '' });
+  const [liveEvent, setLiveEvent] = useState<Event | null>(null);
+  const [activitySort, setActivitySort] = useState<Pick<ActivityQuery, 'sort' | 'direction'>>({ sort: 'checkInTime', direction: 'desc' });
+  const [venues, setVenues] = useState<Venue[]>([]);
+  const [conflicts, setConflicts] = useState<VenueConflict[]>([]);
+  const [venueForm, setVenueForm] = useState({ name: '', building: '', capacity: 0 });
+  const [departments, setDepartments] = useState<Department[]>([]);
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [deptForm, setDeptForm] = useState({ code: '', name: '' });
+  const [tagName, setTagName] = useState('');
   
   const [inspectingUser, setInspectingUser] = useState<User | null>(null);
   const [inspectingUserRegs, setInspectingUserRegs] = useState<Registration[]>([]);
+  const [inspectingUserHistory, setInspectingUserHistory] = useState<StatusChange[]>([]);
   
   const [inspectingEvent, setInspectingEvent] = useState<Event | null>(null);
   const [inspectingEventRegs, setInspectingEventRegs] = useState<Registration[]>([]);
-  
-  const [loading, setLoading] = useState(false);
+  const [inspectingEventSessions, setInspectingEventSessions] = useState<SessionCheckIn[]>([]);
+  const [inspectingEventHistory, setInspectingEventHistory] = useState<StatusChange[]>([]);
+
+  const debouncedUserSearch = useDebouncedValue(userSearch);
+  const debouncedActivitySearch = useDebouncedValue(activityFilters.search);
+  const userQuery: UserQuery = { search: debouncedUserSearch, role: userCategory === 'all' ? undefined : userCategory, ...userSort };
+  const activityQuery: ActivityQuery = { ...activityFilters, search: debouncedActivitySearch, ...activitySort };
+  const registry = usePagedSearch(DB.searchUsers, userQuery, view === 'users');
+  const activity = usePagedSearch(DB.searchActivity, activityQuery, view === 'participants');
 
   const refresh = async () => {
-    setLoading(true);
-    const [allE, allPendingU, allP, allUsersList] = await Promise.all([
-      DB.getEvents(), 
-      DB.getPendingUsers(), 
-      DB.getAllParticipants(), 
-      DB.getAllUsers()
-    ]);
-    setEvs(allE); 
-    setPendingStaff(allPendingU); 
-    setParticipants(allP); 
-    setAllUsers(allUsersList);
-    setLoading(false);
+    try {
+      const [allE, allPendingU, memberCount, checkInCount, venueList, conflictList, depts, tagList] = await Promise.all([
+        DB.getEvents(), 
+        DB.getPendingUsers(), 
+        DB.searchUsers({ limit: 0 }),
+        DB.searchActivity({ limit: 0 }),
+        DB.getVenues(),
+        DB.getVenueConflicts(),
+        DB.getDepartments(),
+        DB.getTags()
+      ]);
+      setEvs(allE); 
+      setPendingStaff(allPendingU); 
+      setTotals({ members: memberCount.total, students: memberCount.roleCounts.student || 0, checkIns: checkInCount.total });
+      if (view === 'users') registry.reload();
+      if (view === 'participants') activity.reload();
+      setVenues(venueList);
+      setConflicts(conflictList);
+      setDepartments(depts);
+      setTags(tagList);
+    } catch (err) {
+      toast.fail(err, refresh);
+    }
   };
 
   const loadUserInsight = async (user: User) => {
     setInspectingUser(user);
-    const regs = await DB.getRegistrationsByUser(user._id);
+    const [regs, history] = await Promise.all([DB.getRegistrationsByUser(user._id), DB.getUserStatusHistory(user._id)]);
     setInspectingUserRegs(regs);
+    setInspectingUserHistory(history);
   };
 
   const loadEventInsight = async (event: Event) => {
     setInspectingEvent(event);
-    const regs = await DB.getRegistrationsByEvent(event._id);
+    setInspectingEventSessions([]);
+    setInspectingEventHistory([]);
+    const [regs, sessionLog, history] = await Promise.all([
+      DB.getRegistrationsByEvent(event._id),
+      event.sessions.length > 0 ? DB.getSessionAttendance(event._id) : Promise.resolve([]),
+      DB.getEventStatusHistory(event._id)
+    ]);
     setInspectingEventRegs(regs);
+    setInspectingEventSessions(sessionLog);
+    setInspectingEventHistory(history);
+  };
+
+  const reviewEvent = async (e: Event, status: 'approved' | 'rejected' | 'changes_requested') => {
+    const comment = status === 'approved' ? undefined : promptReviewComment(status);
+    if (comment === null) return;
+    const res = await DB.updateEventStatus(e._id, status, comment);
+    if (!res.success) toast.error(res.message);
+    refresh();
+  };
+
+  const reviewSeries = async (e: Event, status: 'approved' | 'rejected') => {
+    const count = pendingEvents.filter(x => x.seriesId === e.seriesId).length;
+    const comment = status === 'approved' ? undefined : promptReviewComment(status);
+    if (comment === null) return;
+    if (status === 'approved' && !confirm(`Approve all ${count} pending occurrences of "${e.title}"?`)) return;
+    const res = await DB.reviewSeries(e.seriesId, status, comment);
+    if (res.message) toast.error(res.message);
+    else if (res.failed.length > 0) toast.info(`${res.reviewed} occurrences reviewed. ${res.failed.length} stayed pending:\n${res.failed.map(f => `• ${evs.find(x => x._id === f.eventId)?.date || f.eventId}: ${f.message}`).join('\n')}`);
+    refresh();
+  };
+
+  const reviewUser = async (u: User, status: 'approved' | 'rejected' | 'changes_requested') => {
+    const comment = status === 'approved' ? undefined : promptReviewComment(status);
+    if (comment === null) return;
+    const res = await DB.updateUserStatus(u._id, status, comment);
+    if (!res.success) toast.error(res.message);
+    refresh();
+  };
+
+  const changeRole = async (target: User, role: UserRole) => {
+    if (!confirm(`Make ${target.name} a ${ROLE_LABELS[role]}?`)) return;
+    if (!(await DB.setUserRole(target._id, role))) return toast.error('Your account cannot change roles.');
+    setInspectingUser({ ...target, role });
+    refresh();
   };
 
+  const addVenue = async (ev: React.FormEvent) => {
+    ev.preventDefault();
+    try {
+      await DB.createVenue(venueForm);
+      setVenueForm({ name: '', building: '', capacity: 0 });
+      refresh();
+    } catch (err) {
+      toast.fail(err, undefined, 'Could not add the venue.');
+    }
+  };
+
+  const removeVenue = async (v: Venue) => {
+    if (!confirm(`Remove ${v.name} from the registry? Workshops booked there keep their venue name.`)) return;
+    if (!(await DB.deleteVenue(v._id))) return toast.error('Your account cannot manage venues.');
+    refresh();
+  };
+
+  const addDepartment = async (ev: React.FormEvent) => {
+    ev.preventDefault();
+    try {
+      await DB.createDepartment(deptForm);
+      setDeptForm({ code: '', name: '' });
+      refresh();
+    } catch (err) {
+      toast.fail(err, undefined, 'Could not add the department.');
+    }
+  };
+
+  const removeDepartment = async (d: Department) => {
+    if (!confirm(`Remove the ${d.name} department?`)) return;
+    const res = await DB.deleteDepartment(d.code);
+    if (!res.success) return toast.error(res.message);
+    refresh();
+  };
+
+  const addTag = async (ev: React.FormEvent) => {
+    ev.preventDefault();
+    try {
+      await DB.createTag(tagName);
+      setTagName('');
+      refresh();
+    } catch (err) {
+      toast.fail(err, undefined, 'Could not add the tag.');
+    }
+  };
+
+  const removeTag = async (t: Tag) => {
+    if (!confirm(`Remove the "${t.name}" tag? It will be taken off every workshop that carries it.`)) return;
+    if (!(await DB.deleteTag(t._id))) return toast.error('Your account cannot manage tags.');
+    refresh();
+  };
+
+  // One entry per clashing workshop, even when several sessions overlap.
+  const conflictsFor = (eventId: string) =>
+    conflicts.filter((c, i) => c.eventId === eventId && conflicts.findIndex(o => o.eventId === eventId && o.conflictingEventId === c.conflictingEventId) === i);
+
   useEffect(() => { refresh(); }, []);
 
-  const pendingEvents = evs.filter(e => e.status === 'pending');
-  const filteredUsers = userCategory === 'all' ? allUsers : allUsers.filter(u => u.role === userCategory);
+  const pendingEvents = evs.filter(e => e.status === 'pending' && can(user, 'events.review', e));
 
   // --- REPORT GENERATION LOGIC ---
 
-  const exportActivityLog = (type: 'csv' | 'pdf') => {
+  const exportActivityLog = async (type: 'csv' | 'pdf') => {
+    const participants = await collectPages(DB.searchActivity, activityQuery);
     if (type === 'csv') {
       const data = participants.map(p => ({
         Member: p.user_name,
         Event: p.event_title,
-        Time: new Date(p.check_in_time).toLocaleString()
+        Time: new Date(p.check_in_time).toLocaleString(),
+        CheckOut: p.check_out_time ? new Date(p.check_out_time).toLocaleString() : '',
+        Duration: Attendance.formatDuration(Attendance.durationMinutes(p.check_in_time, p.check_out_time)),
+        ScannedBy: p.scanned_by_name || ''
       }));
       ExportService.downloadCSV(data, 'Institutional_Activity_Log');
     } else {
-      const headers = ["Member", "Event Context", "Timestamp"];
-      const body = participants.map(p => [p.user_name, p.event_title, new Date(p.check_in_time).toLocaleString()]);
+      const headers = ["Member", "Event Context", "Timestamp", "Scanned By"];
+      const body = participants.map(p => [p.user_name, p.event_title, new Date(p.check_in_time).toLocaleString(), p.scanned_by_name || '']);
       ExportService.downloadPDF("Institutional Activity Log", headers, body, "Institutional_Activity_Log");
     }
   };
@@ -772,8 +2179,8 @@ const AdminDashboard = () => {
     }
   };
 
-  const exportRegistry = (type: 'csv' | 'pdf') => {
-    const dataList = filteredUsers;
+  const exportRegistry = async (type: 'csv' | 'pdf') => {
+    const dataList = await collectPages(DB.searchUsers, userQuery);
     const catName = userCategory.toUpperCase();
     if (type === 'csv') {
       const data = dataList.map(u => ({
@@ -796,10 +2203,10 @@ const AdminDashboard = () => {
       {/* Intelligence Stats Bar */}
       <div className="grid grid-cols-2 lg:grid-cols-4 gap-6">
         {[
-          { label: 'Enrolled Students', count: allUsers.filter(u => u.role === 'student').length, icon: 'fa-user-graduate', color: 'text-red-800' },
+          { label: 'Enrolled Students', count: totals.students, icon: 'fa-user-graduate', color: 'text-red-800' },
           { label: 'Staff Proposals', count: pendingEvents.length, icon: 'fa-file-invoice', color: 'text-orange-600' },
           { label: 'Live Workshops', count: evs.filter(e => e.status === 'approved').length, icon: 'fa-broadcast-tower', color: 'text-green-600' },
-          { label: 'Total Check-ins', count: participants.length, icon: 'fa-id-card-alt', color: 'text-blue-600' }
+          { label: 'Total Check-ins', count: totals.checkIns, icon: 'fa-id-card-alt', color: 'text-blue-600' }
         ].map((stat, i) => (
           <div key={i} className="bg-white/60 backdrop-blur-md p-6 rounded-[2.5rem] border border-white/50 shadow-sm flex items-center justify-between">
             <div>
@@ -814,10 +2221,12 @@ const AdminDashboard = () => {
       </div>
 
       <div className="flex flex-wrap gap-4 bg-white p-2 rounded-3xl border inline-flex shadow-sm">
-        <button onClick={() => setView('approvals')} className={`px-8 py-3 rounded-2xl font-black text-[10px] uppercase transition ${view === 'approvals' ? 'bg-red-800 text-white shadow-xl' : 'text-gray-400'}`}>Requests ({pendingEvents.length + pendingStaff.length})</button>
+        {canReview && <button onClick={() => setView('approvals')} className={`px-8 py-3 rounded-2xl font-black text-[10px] uppercase transition ${view === 'approvals' ? 'bg-red-800 text-white shadow-xl' : 'text-gray-400'}`}>Requests ({pendingEvents.length + pendingStaff.length})</button>}
         <button onClick={() => setView('inventory')} className={`px-8 py-3 rounded-2xl font-black text-[10px] uppercase transition ${view === 'inventory' ? 'bg-red-800 text-white shadow-xl' : 'text-gray-400'}`}>Workshops ({evs.length})</button>
-        <button onClick={() => setView('users')} className={`px-8 py-3 rounded-2xl font-black text-[10px] uppercase transition ${view === 'users' ? 'bg-red-800 text-white shadow-xl' : 'text-gray-400'}`}>Registry ({allUsers.length})</button>
-        <button onClick={() => setView('participants')} className={`px-8 py-3 rounded-2xl font-black text-[10px] uppercase transition ${view === 'participants' ? 'bg-red-800 text-white shadow-xl' : 'text-gray-400'}`}>Activity Log ({participants.length})</button>
+        {can(user, 'users.view') && <button onClick={() => setView('users')} className={`px-8 py-3 rounded-2xl font-black text-[10px] uppercase transition ${view === 'users' ? 'bg-red-800 text-white shadow-xl' : 'text-gray-400'}`}>Registry ({totals.members})</button>}
+        {can(user, 'attendance.view') && <button onClick={() => setView('participants')} className={`px-8 py-3 rounded-2xl font-black text-[10px] uppercase transition ${view === 'participants' ? 'bg-red-800 text-white shadow-xl' : 'text-gray-400'}`}>Activity Log ({totals.checkIns})</button>}
+        {can(user, 'venues.manage') && <button onClick={() => setView('venues')} className={`px-8 py-3 rounded-2xl font-black text-[10px] uppercase transition ${view === 'venues' ? 'bg-red-800 text-white shadow-xl' : 'text-gray-400'}`}>Venues ({venues.length})</button>}
+        {can(user, 'taxonomy.manage') && <button onClick={() => setView('taxonomy')} className={`px-8 py-3 rounded-2xl font-black text-[10px] uppercase transition ${view === 'taxonomy' ? 'bg-red-800 text-white shadow-xl' : 'text-gray-400'}`}>Departments & Tags</button>}
       </div>
 
       {view === 'participants' && (
@@ -828,33 +2237,46 @@ const AdminDashboard = () => {
               <p className="text-[10px] text-gray-400 font-bold uppercase tracking-widest">Central Check-in Audit</p>
             </div>
             <div className="flex gap-4">
-              <button onClick={() => exportActivityLog('csv')} className="bg-gray-100 text-gray-600 px-6 py-2 rounded-xl text-[10px] font-black uppercase hover:bg-gray-200 transition"><i className="fas fa-file-csv mr-2"></i> CSV</button>
-              <button onClick={() => exportActivityLog('pdf')} className="bg-red-800 text-white px-6 py-2 rounded-xl text-[10px] font-black uppercase hover:bg-red-900 transition shadow-lg shadow-red-100"><i className="fas fa-file-pdf mr-2"></i> PDF</button>
+              {activityFilters.eventId && <button onClick={() => setLiveEvent(evs.find(e => e._id === activityFilters.eventId) || null)} className="bg-gray-900 text-white px-6 py-2 rounded-xl text-[10px] font-black uppercase hover:bg-black transition"><i className="fas fa-tv mr-2"></i> Live Display</button>}
+              {canExport && <button onClick={() => exportActivityLog('csv')} className="bg-gray-100 text-gray-600 px-6 py-2 rounded-xl text-[10px] font-black uppercase hover:bg-gray-200 transition"><i className="fas fa-file-csv mr-2"></i> CSV</button>}
+              {canExport && <button onClick={() => exportActivityLog('pdf')} className="bg-red-800 text-white px-6 py-2 rounded-xl text-[10px] font-black uppercase hover:bg-red-900 transition shadow-lg shadow-red-100"><i className="fas fa-file-pdf mr-2"></i> PDF</button>}
               <button onClick={refresh} className="bg-red-50 text-red-800 px-4 py-2 rounded-xl text-[10px] font-black uppercase hover:bg-red-100 transition" title="Refresh"><i className="fas fa-sync-alt"></i></button>
             </div>
           </div>
+          <div className="p-10 border-b grid md:grid-cols-4 gap-4">
+            <input placeholder="Search name, University ID, email or workshop" className="bg-gray-50 p-4 rounded-[1.25rem] font-bold" value={activityFilters.search} onChange={e => setActivityFilters({...activityFilters, search: e.target.value})} />
+            <select className="bg-gray-50 p-4 rounded-[1.25rem] font-bold" value={activityFilters.eventId} onChange={e => setActivityFilters({...activityFilters, eventId: e.target.value})}>
+              <option value="">All Workshops</option>
+              {evs.map(e => <option key={e._id} value={e._id}>{e.title} ({e.date})</option>)}
+            </select>
+            <input type="date" title="From" className="bg-gray-50 p-4 rounded-[1.25rem] font-bold" value={activityFilters.from} onChange={e => setActivityFilters({...activityFilters, from: e.target.value})} />
+            <input type="date" title="To" min={activityFilters.from || undefined} className="bg-gray-50 p-4 rounded-[1.25rem] font-bold" value={activityFilters.to} onChange={e => setActivityFilters({...activityFilters, to: e.target.value})} />
+          </div>
           <table className="w-full text-left">
             <thead className="bg-gray-50 text-[10px] font-black uppercase text-gray-400 tracking-widest">
               <tr>
-                <th className="px-10 py-6">Institutional Member</th>
-                <th className="px-10 py-6">Event Context</th>
-                <th className="px-10 py-6">Check-in Timestamp</th>
+                <SortHeader label="Institutional Member" field="member" sort={activitySort.sort} direction={activitySort.direction} onSort={(sort, direction) => setActivitySort({ sort, direction })} />
+                <SortHeader label="Event Context" field="event" sort={activitySort.sort} direction={activitySort.direction} onSort={(sort, direction) => setActivitySort({ sort, direction })} />
+                <SortHeader label="Check-in Timestamp" field="checkInTime" sort={activitySort.sort} direction={activitySort.direction} onSort={(sort, direction) => setActivitySort({ sort, direction })} />
+                <th className="px-10 py-6">Scanned By</th>
               </tr>
             </thead>
             <tbody className="divide-y text-sm font-bold">
-              {loading ? (
-                <tr><td colSpan={3} className="px-10 py-20 text-center"><i className="fas fa-circle-notch fa-spin text-red-800 text-2xl"></i></td></tr>
-              ) : participants.length === 0 ? (
-                <tr><td colSpan={3} className="px-10 py-20 text-center text-gray-300 font-black uppercase tracking-widest">No activity recorded.</td></tr>
-              ) : participants.map(p => (
+              {activity.loading ? (
+                <tr><td colSpan={4} className="px-10 py-20 text-center"><i className="fas fa-circle-notch fa-spin text-red-800 text-2xl"></i></td></tr>
+              ) : activity.page.items.length === 0 ? (
+                <tr><td colSpan={4} className="px-10 py-20 text-center text-gray-300 font-black uppercase tracking-widest">No activity recorded.</td></tr>
+              ) : activity.page.items.map(p => (
                 <tr key={p.id} className="hover:bg-green-50/20 transition">
                   <td className="px-10 py-6 text-red-900">{p.user_name}</td>
                   <td className="px-10 py-6 text-gray-500 text-xs uppercase tracking-tight">{p.event_title}</td>
                   <td className="px-10 py-6 text-gray-400 font-mono text-[10px]">{new Date(p.check_in_time).toLocaleString()}</td>
+                  <td className="px-10 py-6 text-gray-400 text-xs">{p.scanned_by_name || '—'}</td>
                 </tr>
               ))}
             </tbody>
           </table>
+          <Pager paged={activity} />
         </div>
       )}
 
@@ -866,16 +2288,28 @@ const AdminDashboard = () => {
               <div key={e._id} onClick={() => loadEventInsight(e)} className="flex justify-between items-center border-b py-6 last:border-0 hover:bg-gray-50/80 px-4 rounded-2xl transition group cursor-pointer">
                 <div>
                   <h3 className="font-black text-lg group-hover:text-red-800 transition">{e.title}</h3>
-                  <p className="text-[10px] font-bold text-gray-400">Proposed by {e.organizerName}</p>
+                  <p className="text-[10px] font-bold text-gray-400">Proposed by {e.organizerName}{e.seriesId && ` • ${e.date} • #${e.seriesIndex} in series`}</p>
+                  {conflictsFor(e._id).map(c => (
+                    <p key={c.conflictingEventId} className={`text-[10px] font-black mt-1 ${c.status === 'approved' ? 'text-red-600' : 'text-orange-500'}`}>
+                      <i className="fas fa-exclamation-triangle mr-1"></i>Clashes with "{c.title}" ({c.status.replace('_', ' ')}) at {venues.find(v => v._id === c.venueId)?.name || e.venue}, {c.date} {c.startTime}-{c.endTime}
+                    </p>
+                  ))}
                 </div>
                 <div className="flex gap-4">
-                  <button onClick={(event) => { event.stopPropagation(); DB.updateEventStatus(e._id, 'approved').then(refresh); }} className="bg-green-600 text-white px-6 py-2 rounded-xl text-[10px] font-black uppercase hover:scale-105 transition">Approve</button>
-                  <button onClick={(event) => { event.stopPropagation(); DB.updateEventStatus(e._id, 'rejected').then(refresh); }} className="bg-red-50 text-red-800 px-6 py-2 rounded-xl text-[10px] font-black uppercase hover:bg-red-100 hover:scale-105 transition">Reject</button>
+                  <button onClick={(event) => { event.stopPropagation(); reviewEvent(e, 'approved'); }} className="bg-green-600 text-white px-6 py-2 rounded-xl text-[10px] font-black uppercase hover:scale-105 transition">Approve</button>
+                  <button onClick={(event) => { event.stopPropagation(); reviewEvent(e, 'changes_requested'); }} className="bg-orange-50 text-orange-600 px-6 py-2 rounded-xl text-[10px] font-black uppercase hover:bg-orange-100 hover:scale-105 transition">Request Changes</button>
+                  <button onClick={(event) => { event.stopPropagation(); reviewEvent(e, 'rejected'); }} className="bg-red-50 text-red-800 px-6 py-2 rounded-xl text-[10px] font-black uppercase hover:bg-red-100 hover:scale-105 transition">Reject</button>
+                  {e.seriesId && pendingEvents.filter(x => x.seriesId === e.seriesId).length > 1 && (
+                    <>
+                      <button onClick={(event) => { event.stopPropagation(); reviewSeries(e, 'approved'); }} className="bg-green-50 text-green-700 px-6 py-2 rounded-xl text-[10px] font-black uppercase hover:bg-green-100 hover:scale-105 transition">Approve Series ({pendingEvents.filter(x => x.seriesId === e.seriesId).length})</button>
+                      <button onClick={(event) => { event.stopPropagation(); reviewSeries(e, 'rejected'); }} className="bg-red-50 text-red-800 px-6 py-2 rounded-xl text-[10px] font-black uppercase hover:bg-red-100 hover:scale-105 transition">Reject Series</button>
+                    </>
+                  )}
                 </div>
               </div>
             ))}
           </div>
-          <div className="bg-white p-10 rounded-[4rem] shadow-sm border">
+          {can(user, 'users.review') && <div className="bg-white p-10 rounded-[4rem] shadow-sm border">
             <h4 className="text-[10px] font-black uppercase text-red-800 tracking-widest mb-8">Staff Credential Queue</h4>
             {pendingStaff.length === 0 ? <p className="text-center py-10 text-gray-300 font-bold uppercase tracking-widest text-xs">All Staff Verified</p> : pendingStaff.map(u => (
               <div key={u._id} className="flex justify-between items-center border-b py-6 last:border-0 hover:bg-gray-50/50 px-4 rounded-2xl transition">
@@ -887,10 +2321,87 @@ const AdminDashboard = () => {
                   </div>
                 </div>
                 <div className="flex gap-4">
-                  <button onClick={(event) => { event.stopPropagation(); DB.updateUserStatus(u._id, 'approved').then(refresh); }} className="bg-red-800 text-white px-6 py-2 rounded-xl text-[10px] font-black uppercase hover:scale-105 transition">Verify</button>
+                  <button onClick={(event) => { event.stopPropagation(); reviewUser(u, 'approved'); }} className="bg-red-800 text-white px-6 py-2 rounded-xl text-[10px] font-black uppercase hover:scale-105 transition">Verify</button>
+                  <button onClick={(event) => { event.stopPropagation(); reviewUser(u, 'changes_requested'); }} className="bg-orange-50 text-orange-600 px-6 py-2 rounded-xl text-[10px] font-black uppercase hover:bg-orange-100 hover:scale-105 transition">Request Changes</button>
+                  <button onClick={(event) => { event.stopPropagation(); reviewUser(u, 'rejected'); }} className="bg-red-50 text-red-800 px-6 py-2 rounded-xl text-[10px] font-black uppercase hover:bg-red-100 hover:scale-105 transition">Reject</button>
                 </div>
               </div>
             ))}
+          </div>}
+        </div>
+      )}
+
+      {view === 'venues' && (
+        <div className="bg-white rounded-[4rem] border shadow-sm overflow-hidden animate-scale-up">
+          <div className="p-10 border-b bg-gray-50/50">
+            <h3 className="text-2xl font-black tracking-tighter">Venue Registry</h3>
+            <p className="text-[10px] text-gray-400 font-bold uppercase tracking-widest">Bookable rooms and their seating</p>
+          </div>
+          <form onSubmit={addVenue} className="p-10 border-b grid md:grid-cols-4 gap-4">
+            <input placeholder="Venue Name" required className="bg-gray-50 p-4 rounded-[1.25rem] font-bold" value={venueForm.name} onChange={e => setVenueForm({...venueForm, name: e.target.value})} />
+            <input placeholder="Building" className="bg-gray-50 p-4 rounded-[1.25rem] font-bold" value={venueForm.building} onChange={e => setVenueForm({...venueForm, building: e.target.value})} />
+            <input type="number" min={1} placeholder="Seats" required className="bg-gray-50 p-4 rounded-[1.25rem] font-bold" value={venueForm.capacity || ''} onChange={e => setVenueForm({...venueForm, capacity: parseInt(e.target.value) || 0})} />
+            <button type="submit" className="bg-red-800 text-white rounded-[1.25rem] text-[10px] font-black uppercase tracking-widest hover:bg-red-900 transition"><i className="fas fa-plus mr-2"></i>Add Venue</button>
+          </form>
+          <table className="w-full text-left">
+            <thead className="bg-gray-50 text-[10px] font-black uppercase text-gray-400 tracking-widest">
+              <tr>
+                <th className="px-10 py-6">Venue</th>
+                <th className="px-10 py-6">Building</th>
+                <th className="px-10 py-6">Seats</th>
+                <th className="px-10 py-6 text-right"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y text-sm font-bold">
+              {venues.length === 0 ? (
+                <tr><td colSpan={4} className="px-10 py-20 text-center text-gray-300 font-black uppercase tracking-widest">No venues registered. Organizers can type a venue until one is added.</td></tr>
+              ) : venues.map(v => (
+                <tr key={v._id} className="hover:bg-gray-50/50 transition">
+                  <td className="px-10 py-6 text-red-900">{v.name}</td>
+                  <td className="px-10 py-6 text-gray-500">{v.building || '—'}</td>
+                  <td className="px-10 py-6">{v.capacity}</td>
+                  <td className="px-10 py-6 text-right">
+                    <button onClick={() => removeVenue(v)} className="text-red-800 hover:text-red-900 text-[10px] font-black uppercase"><i className="fas fa-trash-alt mr-1"></i>Remove</button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {view === 'taxonomy' && (
+        <div className="grid lg:grid-cols-2 gap-8 animate-scale-up">
+          <div className="bg-white p-10 rounded-[4rem] shadow-sm border">
+            <h4 className="text-[10px] font-black uppercase text-red-800 tracking-widest mb-8">Departments</h4>
+            <form onSubmit={addDepartment} className="grid grid-cols-4 gap-3 mb-6">
+              <input placeholder="Code" required maxLength={4} className="bg-gray-50 p-4 rounded-[1.25rem] font-bold uppercase" value={deptForm.code} onChange={e => setDeptForm({...deptForm, code: e.target.value})} />
+              <input placeholder="Department Name" required className="col-span-2 bg-gray-50 p-4 rounded-[1.25rem] font-bold" value={deptForm.name} onChange={e => setDeptForm({...deptForm, name: e.target.value})} />
+              <button type="submit" className="bg-red-800 text-white rounded-[1.25rem] text-[10px] font-black uppercase tracking-widest hover:bg-red-900 transition"><i className="fas fa-plus mr-2"></i>Add</button>
+            </form>
+            {departments.map(d => (
+              <div key={d.code} className="flex justify-between items-center border-b py-4 last:border-0 px-4">
+                <p className="font-bold text-sm"><span className="font-black text-red-800 mr-3">{d.code}</span>{d.name}</p>
+                <button onClick={() => removeDepartment(d)} className="text-gray-300 hover:text-red-800 transition"><i className="fas fa-trash-alt"></i></button>
+              </div>
+            ))}
+          </div>
+          <div className="bg-white p-10 rounded-[4rem] shadow-sm border">
+            <h4 className="text-[10px] font-black uppercase text-red-800 tracking-widest mb-8">Workshop Categories</h4>
+            <form onSubmit={addTag} className="grid grid-cols-4 gap-3 mb-6">
+              <input placeholder="Ex: Machine Learning" required className="col-span-3 bg-gray-50 p-4 rounded-[1.25rem] font-bold" value={tagName} onChange={e => setTagName(e.target.value)} />
+              <button type="submit" className="bg-red-800 text-white rounded-[1.25rem] text-[10px] font-black uppercase tracking-widest hover:bg-red-900 transition"><i className="fas fa-plus mr-2"></i>Add</button>
+            </form>
+            {tags.length === 0 ? <p className="text-center py-10 text-gray-300 font-bold uppercase tracking-widest text-xs">No categories yet</p> : (
+              <div className="flex flex-wrap gap-3">
+                {tags.map(t => (
+                  <span key={t._id} className="bg-gray-50 px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest text-gray-600 flex items-center gap-3">
+                    {t.name}
+                    <button onClick={() => removeTag(t)} className="text-gray-300 hover:text-red-800 transition"><i className="fas fa-times"></i></button>
+                  </span>
+                ))}
+              </div>
+            )}
           </div>
         </div>
       )}
@@ -899,14 +2410,15 @@ const AdminDashboard = () => {
         <div className="animate-scale-up space-y-6">
           <div className="flex flex-wrap justify-between items-center">
             <div className="flex flex-wrap gap-4 bg-gray-100/50 p-2 rounded-2xl border inline-flex">
-              <button onClick={() => setUserCategory('all')} className={`px-6 py-2 rounded-xl font-black text-[10px] uppercase transition ${userCategory === 'all' ? 'bg-white shadow-sm text-red-800' : 'text-gray-400'}`}>All Members ({allUsers.length})</button>
-              <button onClick={() => setUserCategory('student')} className={`px-6 py-2 rounded-xl font-black text-[10px] uppercase transition ${userCategory === 'student' ? 'bg-white shadow-sm text-red-800' : 'text-gray-400'}`}>Students ({allUsers.filter(u => u.role === 'student').length})</button>
-              <button onClick={() => setUserCategory('organizer')} className={`px-6 py-2 rounded-xl font-black text-[10px] uppercase transition ${userCategory === 'organizer' ? 'bg-white shadow-sm text-red-800' : 'text-gray-400'}`}>Staff ({allUsers.filter(u => u.role === 'organizer').length})</button>
-              <button onClick={() => setUserCategory('admin')} className={`px-6 py-2 rounded-xl font-black text-[10px] uppercase transition ${userCategory === 'admin' ? 'bg-white shadow-sm text-red-800' : 'text-gray-400'}`}>Admins ({allUsers.filter(u => u.role === 'admin').length})</button>
+              <button onClick={() => setUserCategory('all')} className={`px-6 py-2 rounded-xl font-black text-[10px] uppercase transition ${userCategory === 'all' ? 'bg-white shadow-sm text-red-800' : 'text-gray-400'}`}>All Members ({Object.values(registry.page.roleCounts || {}).reduce((a: number, b: number) => a + b, 0)})</button>
+              {(Object.keys(ROLE_LABELS) as UserRole[]).map(role => (
+                <button key={role} onClick={() => setUserCategory(role)} className={`px-6 py-2 rounded-xl font-black text-[10px] uppercase transition ${userCategory === role ? 'bg-white shadow-sm text-red-800' : 'text-gray-400'}`}>{ROLE_LABELS[role]} ({registry.page.roleCounts?.[role] || 0})</button>
+              ))}
             </div>
             <div className="flex gap-4">
-              <button onClick={() => exportRegistry('csv')} className="bg-gray-100 text-gray-600 px-6 py-2 rounded-xl text-[10px] font-black uppercase hover:bg-gray-200 transition"><i className="fas fa-file-csv mr-2"></i> CSV</button>
-              <button onClick={() => exportRegistry('pdf')} className="bg-red-800 text-white px-6 py-2 rounded-xl text-[10px] font-black uppercase hover:bg-red-900 transition shadow-lg shadow-red-100"><i className="fas fa-file-pdf mr-2"></i> PDF</button>
+              <input placeholder="Search name, University ID or email" className="bg-white border px-4 py-2 rounded-xl text-xs font-bold w-64" value={userSearch} onChange={e => setUserSearch(e.target.value)} />
+              {canExport && <button onClick={() => exportRegistry('csv')} className="bg-gray-100 text-gray-600 px-6 py-2 rounded-xl text-[10px] font-black uppercase hover:bg-gray-200 transition"><i className="fas fa-file-csv mr-2"></i> CSV</button>}
+              {canExport && <button onClick={() => exportRegistry('pdf')} className="bg-red-800 text-white px-6 py-2 rounded-xl text-[10px] font-black uppercase hover:bg-red-900 transition shadow-lg shadow-red-100"><i className="fas fa-file-pdf mr-2"></i> PDF</button>}
             </div>
           </div>
           
@@ -914,27 +2426,28 @@ const AdminDashboard = () => {
             <table className="w-full text-left">
               <thead className="bg-gray-50 text-[10px] font-black uppercase text-gray-400 tracking-widest">
                 <tr>
-                  <th className="px-10 py-6">Institutional Member</th>
+                  <SortHeader label="Institutional Member" field="name" sort={userSort.sort} direction={userSort.direction} onSort={(sort, direction) => setUserSort({ sort, direction })} />
+                  <SortHeader label="University ID" field="uniId" sort={userSort.sort} direction={userSort.direction} onSort={(sort, direction) => setUserSort({ sort, direction })} />
                   <th className="px-10 py-6">Affiliation</th>
-                  <th className="px-10 py-6">Contact</th>
+                  <SortHeader label="Contact" field="email" sort={userSort.sort} direction={userSort.direction} onSort={(sort, direction) => setUserSort({ sort, direction })} />
                   <th className="px-10 py-6 text-right">Verification</th>
                 </tr>
               </thead>
               <tbody className="divide-y text-sm">
-                {filteredUsers.length === 0 ? (
-                  <tr><td colSpan={4} className="px-10 py-20 text-center text-gray-300 font-black uppercase tracking-widest">No members found in this category.</td></tr>
-                ) : filteredUsers.map(u => (
+                {registry.loading ? (
+                  <tr><td colSpan={5} className="px-10 py-20 text-center"><i className="fas fa-circle-notch fa-spin text-red-800 text-2xl"></i></td></tr>
+                ) : registry.page.items.length === 0 ? (
+                  <tr><td colSpan={5} className="px-10 py-20 text-center text-gray-300 font-black uppercase tracking-widest">No members found in this category.</td></tr>
+                ) : registry.page.items.map(u => (
                   <tr key={u._id} className="hover:bg-gray-50/50 transition cursor-pointer group" onClick={() => loadUserInsight(u)}>
                     <td className="px-10 py-6 flex items-center gap-4">
                       <UserAvatar user={u} className="w-10 h-10" />
-                      <div>
-                        <p className="font-black text-red-900 group-hover:underline leading-none mb-1">{u.name}</p>
-                        <p className="text-[10px] font-bold text-gray-400">{u.uniId}</p>
-                      </div>
+                      <p className="font-black text-red-900 group-hover:underline">{u.name}</p>
                     </td>
+                    <td className="px-10 py-6 text-[10px] font-bold text-gray-400">{u.uniId}</td>
                     <td className="px-10 py-6 uppercase font-black text-[10px] tracking-widest">
-                      <span className={`px-3 py-1 rounded-lg ${u.role === 'admin' ? 'bg-red-900 text-white' : u.role === 'organizer' ? 'bg-gray-800 text-white' : 'bg-gray-100 text-gray-600'}`}>
-                        {u.role}
+                      <span className={`px-3 py-1 rounded-lg ${u.role === 'admin' ? 'bg-red-900 text-white' : u.role === 'student' ? 'bg-gray-100 text-gray-600' : 'bg-gray-800 text-white'}`}>
+                        {ROLE_LABELS[u.role]}
                       </span>
                     </td>
                     <td className="px-10 py-6 font-bold text-gray-500">{u.email}</td>
@@ -947,6 +2460,7 @@ const AdminDashboard = () => {
                 ))}
               </tbody>
             </table>
+            <Pager paged={registry} />
           </div>
         </div>
       )}
@@ -959,8 +2473,8 @@ const AdminDashboard = () => {
               <p className="text-[10px] text-gray-400 font-bold uppercase tracking-widest">Faculty Syllabus Control</p>
             </div>
             <div className="flex gap-4">
-              <button onClick={() => exportWorkshops('csv')} className="bg-gray-100 text-gray-600 px-6 py-2 rounded-xl text-[10px] font-black uppercase hover:bg-gray-200 transition"><i className="fas fa-file-csv mr-2"></i> CSV</button>
-              <button onClick={() => exportWorkshops('pdf')} className="bg-red-800 text-white px-6 py-2 rounded-xl text-[10px] font-black uppercase hover:bg-red-900 transition shadow-lg shadow-red-100"><i className="fas fa-file-pdf mr-2"></i> PDF</button>
+              {canExport && <button onClick={() => exportWorkshops('csv')} className="bg-gray-100 text-gray-600 px-6 py-2 rounded-xl text-[10px] font-black uppercase hover:bg-gray-200 transition"><i className="fas fa-file-csv mr-2"></i> CSV</button>}
+              {canExport && <button onClick={() => exportWorkshops('pdf')} className="bg-red-800 text-white px-6 py-2 rounded-xl text-[10px] font-black uppercase hover:bg-red-900 transition shadow-lg shadow-red-100"><i className="fas fa-file-pdf mr-2"></i> PDF</button>}
             </div>
           </div>
           <table className="w-full text-left">
@@ -980,8 +2494,8 @@ const AdminDashboard = () => {
                   </td>
                   <td className="px-10 py-6 font-bold text-gray-600">{e.organizerName}</td>
                   <td className="px-10 py-6 text-right">
-                    <span className={`px-4 py-1.5 rounded-full text-[9px] font-black uppercase tracking-widest ${e.status === 'approved' ? 'bg-green-50 text-green-700' : 'bg-yellow-50 text-yellow-700'}`}>
-                      {e.status}
+                    <span className={`px-4 py-1.5 rounded-full text-[9px] font-black uppercase tracking-widest ${e.status === 'approved' ? 'bg-green-50 text-green-700' : e.status === 'cancelled' ? 'bg-gray-100 text-gray-400' : e.status === 'changes_requested' ? 'bg-orange-50 text-orange-600' : 'bg-yellow-50 text-yellow-700'}`}>
+                      {e.status.replace('_', ' ')}
                     </span>
                   </td>
                 </tr>
@@ -1012,10 +2526,25 @@ const AdminDashboard = () => {
                   </div>
                   <div className="bg-gray-50 p-6 rounded-3xl border border-gray-100">
                      <p className="text-[9px] font-black uppercase text-gray-400 mb-1">System Status</p>
-                     <p className="text-lg font-black uppercase">{inspectingUser.status}</p>
+                     <p className="text-lg font-black uppercase">{inspectingUser.status.replace('_', ' ')}</p>
+                  </div>
+                  <div className="bg-gray-50 p-6 rounded-3xl border border-gray-100 col-span-2">
+                     <p className="text-[9px] font-black uppercase text-gray-400 mb-1">Role</p>
+                     {can(user, 'users.review') && inspectingUser._id !== user._id ? (
+                       <select value={inspectingUser.role} onChange={e => changeRole(inspectingUser, e.target.value as UserRole)} className="w-full bg-white border rounded-xl px-4 py-2 font-black text-sm">
+                         {(Object.keys(ROLE_LABELS) as UserRole[]).map(role => <option key={role} value={role}>{ROLE_LABELS[role]}</option>)}
+                       </select>
+                     ) : <p className="text-lg font-black uppercase">{ROLE_LABELS[inspectingUser.role]}</p>}
                   </div>
                </div>
                
+               {inspectingUserHistory.length > 0 && (
+                  <div>
+                    <h4 className="text-[10px] font-black uppercase text-gray-400 tracking-widest mb-4">Review History</h4>
+                    <StatusTimeline history={inspectingUserHistory} />
+                  </div>
+               )}
+
                <div className="bg-white border rounded-[3rem] overflow-hidden shadow-sm">
                   <div className="bg-gray-50 px-8 py-5 border-b flex justify-between items-center">
                     <h4 className="text-[10px] font-black uppercase text-gray-400 tracking-widest">Participation History</h4>
@@ -1065,16 +2594,43 @@ const AdminDashboard = () => {
                        <span className="bg-white/10 px-4 py-1.5 rounded-full"><i className="fas fa-map-pin mr-2"></i>{inspectingEvent.venue}</span>
                        <span className="bg-white/10 px-4 py-1.5 rounded-full"><i className="far fa-clock mr-2"></i>{inspectingEvent.startTime} - {inspectingEvent.endTime}</span>
                     </div>
+                    <div className="flex flex-wrap gap-3 mt-6">
+                      {can(user, 'events.cancel', inspectingEvent) && inspectingEvent.status !== 'cancelled' && (
+                        <button onClick={async () => { if (await promptCancelEvent(inspectingEvent)) { setInspectingEvent(null); refresh(); } }} className="bg-white/10 hover:bg-white/20 px-5 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition"><i className="fas fa-ban mr-2"></i>Cancel Workshop</button>
+                      )}
+                      {can(user, 'events.delete', inspectingEvent) && inspectingEventRegs.length === 0 && (
+                        <button onClick={async () => {
+                          if (!confirm(`Permanently delete "${inspectingEvent.title}"?`)) return;
+                          try {
+                            const res = await DB.deleteEvent(inspectingEvent._id);
+                            if (!res.success) return toast.error(res.message);
+                            setInspectingEvent(null);
+                            refresh();
+                          } catch (e) {
+                            toast.fail(e, undefined, 'Could not delete the workshop.');
+                          }
+                        }} className="bg-white/10 hover:bg-white/20 px-5 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition"><i className="fas fa-trash-alt mr-2"></i>Delete</button>
+                      )}
+                    </div>
                   </div>
                </div>
             </div>
             
             <div className="flex-grow overflow-y-auto p-12 space-y-12">
+               {inspectingEvent.status === 'cancelled' && (
+                  <div className="bg-gray-50 border border-gray-100 p-6 rounded-[2rem] text-xs font-bold text-gray-500"><i className="fas fa-ban mr-3 text-red-800"></i>Cancelled {inspectingEvent.cancelledAt ? new Date(inspectingEvent.cancelledAt).toLocaleString() : ''}: {inspectingEvent.cancellationReason}</div>
+               )}
                <div>
                   <h4 className="text-[10px] font-black uppercase text-gray-400 tracking-widest mb-4">Workshop Abstract</h4>
                   <p className="text-lg font-medium text-gray-700 leading-relaxed italic border-l-4 border-red-800/20 pl-6">{inspectingEvent.description}</p>
                </div>
 
+               <div>
+                  <h4 className="text-[10px] font-black uppercase text-gray-400 tracking-widest mb-4">Review History</h4>
+                  <p className="text-[10px] font-black uppercase tracking-widest text-gray-400 mb-3">{new Date(inspectingEvent.createdAt).toLocaleString()} • Proposed by {inspectingEvent.organizerName}</p>
+                  <StatusTimeline history={inspectingEventHistory} />
+               </div>
+
                <div className="grid md:grid-cols-2 gap-12">
                   <div>
                      <h4 className="text-[10px] font-black uppercase text-gray-400 tracking-widest mb-6">Host Information</h4>
@@ -1091,7 +2647,7 @@ const AdminDashboard = () => {
                     <div className="grid grid-cols-2 gap-4">
                        <div className="bg-white border p-6 rounded-[2rem] text-center shadow-sm">
                           <p className="text-[9px] font-black uppercase text-gray-400 mb-1">Registrations</p>
-                          <p className="text-3xl font-black text-red-800">{inspectingEventRegs.length}</p>
+                          <p className="text-3xl font-black text-red-800">{inspectingEventRegs.filter(r => r.status !== 'cancelled').length}</p>
                        </div>
                        <div className="bg-white border p-6 rounded-[2rem] text-center shadow-sm">
                           <p className="text-[9px] font-black uppercase text-gray-400 mb-1">Attendance</p>
@@ -1101,6 +2657,13 @@ const AdminDashboard = () => {
                   </div>
                </div>
 
+               {inspectingEvent.sessions.length > 0 && (
+                 <div>
+                    <h4 className="text-[10px] font-black uppercase text-gray-400 tracking-widest mb-6">Session Attendance</h4>
+                    <SessionMatrix sessions={inspectingEvent.sessions} regs={inspectingEventRegs} attendance={inspectingEventSessions} />
+                 </div>
+               )}
+
                <div>
                   <div className="flex justify-between items-center mb-6">
                     <h4 className="text-[10px] font-black uppercase text-gray-400 tracking-widest">Enrollment Registry</h4>
@@ -1136,6 +2699,8 @@ const AdminDashboard = () => {
           </div>
         </div>
       )}
+
+      {liveEvent && <LiveAttendanceBoard event={liveEvent} onBack={() => { setLiveEvent(null); refresh(); }} />}
     </div>
   );
 };
@@ -1188,6 +2753,8 @@ const AssistantWrapper = () => {
   return <AIChatbot events={evs} />;
 };
 
+// Exported for the component tests, which render them without mounting the whole app.
+export { ExportService, LoginForm, StudentDashboard, CheckInScanner };
+
 const container = document.getElementById('root');
-const root = createRoot(container!);
-root.render(<App />);
+if (container) createRoot(container).render(<App />);
@@ -0,0 +1,44 @@
+
+// --- ACCOUNT MAIL TRANSPORT ---
+// Verification and password-reset links carry single-use tokens minted by Supabase Auth, so the
+// browser never sees them. A transport decides how a requested mail actually leaves: through Supabase
+// Auth's mailer in production, or into an in-memory outbox for local development and tests.
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { toDataError } from './errors';
+
+export type AccountMailKind = 'verify-email' | 'password-reset';
+
+export interface AccountMail {
+  kind: AccountMailKind;
+  to: string;
+  redirectTo: string; // Where the emailed link lands once the token is accepted
+}
+
+export interface MailTransport {
+  name: string;
+  send: (mail: AccountMail) => Promise<void>;
+}
+
+export const createSupabaseTransport = (client: SupabaseClient): MailTransport => ({
+  name: 'supabase',
+  send: async (mail) => {
+    const { error } = mail.kind === 'verify-email'
+      ? await client.auth.resend({ type: 'signup', email: mail.to, options: { emailRedirectTo: mail.redirectTo } })
+      : await client.auth.resetPasswordForEmail(mail.to, { redirectTo: mail.redirectTo });
+    if (error) throw toDataError(error, 'Could not send the email. Please try again shortly.');
+  },
+});
+
+/** Keeps every requested mail in `outbox` instead of sending it. */
+export const createStubTransport = (): MailTransport & { outbox: AccountMail[] } => {
+  const outbox: AccountMail[] = [];
+  return {
+    name: 'stub',
+    outbox,
+    send: async (mail) => {
+      outbox.push(mail);
+      console.info(`[mail:stub] ${mail.kind} for ${mail.to} -> ${mail.redirectTo}`);
+    },
+  };
+};
@@ -0,0 +1,1246 @@
+
+// --- IN-MEMORY STORAGE BACKEND ---
+// A Repository that needs no network or Supabase project, for demos, offline development and automated
+// tests. Every table of the SQL schema in db.ts is an array of rows with the same columns, and each method
+// follows the database function or row-level security policy behind its Supabase counterpart, failure
+// codes included. With `persist` set the tables are saved to IndexedDB, so a demo survives a reload.
+
+import { User, UserRole, Event, EventChange, Registration, EventOccupancy, LiveAttendance, SessionCheckIn, StaffGrant, EventRevision, UserNotification, StatusChange, Venue, VenueConflict, RecurrenceRule, EventSeries, Department, Tag } from './types';
+import { signPassToken, verifyPassToken, generatePassSecret, PASS_REJECTION_MESSAGES } from './passToken';
+import { MailTransport, createStubTransport } from './mailer';
+import { validateEnrollment, parseUniId, EnrollmentError } from './enrollment';
+import { ConflictError, PermissionError, ValidationError } from './errors';
+import { can, Capability } from './permissions';
+import {
+  Repository, EventProposal, EventEdit, BookingRequest, ReviewDecision, PassResult, composedOperations, eventStart, passExpiry, bookingSlots, PASS_GRACE_HOURS,
+  CHECK_IN_FAILURES, REVIEW_FAILURES, UPDATE_FAILURES, CANCEL_FAILURES, GATE_STAFF_FAILURES, replayConflict, releaseFailure,
+  Page, UserPage, UserQuery, ActivityQuery, SortDirection, pageLimit, activityRange, decodeCursor, toPage,
+  mapLiveAttendance, mapUser, mapEvent, mapVenue, mapTag, mapSeries, mapConflict, mapStaffGrant, mapChange, mapRevision, mapNotification, mapStatusChange, mapSessionCheckIn, mapReg,
+} from './repository';
+
+type Row = Record<string, any>;
+
+export interface MemoryTables {
+  accounts: Row[]; // Stands in for auth.users: id, email, password_hash, email_confirmed_at
+  users: Row[];
+  events: Row[];
+  registrations: Row[];
+  participants: Row[];
+  event_sessions: Row[];
+  session_attendance: Row[];
+  event_staff: Row[];
+  app_settings: Row[];
+  event_changes: Row[];
+  notifications: Row[];
+  event_status_history: Row[];
+  user_status_history: Row[];
+  venues: Row[];
+  event_series: Row[];
+  departments: Row[];
+  tags: Row[];
+  event_tags: Row[];
+  pass_signing_key: Row[]; // One row: secret
+}
+
+// Accounts a fresh store starts with. They are approved and their email counts as verified.
+export type MemoryAccount = Omit<User, '_id' | 'status' | 'reviewComment' | 'emailVerified' | 'staffGrants'> & { password: string };
+
+export interface MemoryRepositoryOptions {
+  persist?: string; // IndexedDB database holding the tables between page loads; omitted, nothing is saved
+  accounts?: MemoryAccount[];
+}
+
+// The admin the Initial Admin step of the SQL setup creates, so a demo store can review workshops.
+export const DEMO_ACCOUNTS: MemoryAccount[] = [
+  { name: 'System Admin', email: 'admin@gmail.com', password: 'admin1234', role: 'admin', uniId: 'ADMIN-001', profilePhoto: '/admin.png' },
+];
+
+// Seeded like the departments and app_settings tables in the SQL setup.
+const initialTables = (): MemoryTables => ({
+  accounts: [], users: [], events: [], registrations: [], participants: [], event_sessions: [], session_attendance: [],
+  event_staff: [], event_changes: [], notifications: [], event_status_history: [], user_status_history: [], venues: [],
+  event_series: [], tags: [], event_tags: [],
+  pass_signing_key: [{ id: true, secret: generatePassSecret() }],
+  app_settings: [{ key: 'review_schedule_changes', value: 'true' }],
+  departments: [
+    { code: 'ICT', name: 'Information & Communication Technology' },
+    { code: 'IAT', name: 'Instrumentation & Automation Technology' },
+    { code: 'BST', name: 'Biosystems Technology' },
+    { code: 'EVT', name: 'Environmental Technology' },
+    { code: 'AGT', name: 'Agricultural Technology' },
+  ],
+});
+
+interface Snapshot {
+  tables: MemoryTables;
+  session: string | null; // Id of the signed-in account
+}
+
+const SNAPSHOT_STORE = 'snapshot';
+
+const request = <T>(req: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+// Keeps the whole store as a single IndexedDB record.
+const snapshotStore = (name: string) => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+  const open = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+      const req = indexedDB.open(name, 1);
+      req.onupgradeneeded = () => req.result.createObjectStore(SNAPSHOT_STORE);
+      dbPromise = request(req);
+    }
+    return dbPromise;
+  };
+  return {
+    load: async (): Promise<Snapshot | undefined> =>
+      request((await open()).transaction(SNAPSHOT_STORE).objectStore(SNAPSHOT_STORE).get('current')),
+    save: async (snapshot: Snapshot): Promise<void> => {
+      await request((await open()).transaction(SNAPSHOT_STORE, 'readwrite').objectStore(SNAPSHOT_STORE).put(snapshot, 'current'));
+    },
+  };
+};
+
+const hashPassword = async (password: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(password));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const now = () => new Date().toISOString();
+
+// nullif(trim(x), '') in the SQL functions
+const trimmed = (text?: string | null): string | null => (text || '').trim() || null;
+
+// How a column reads through ->> in the SQL functions, so diffs compare and report values the same way.
+const asText = (value: any): string | null => (value === null || value === undefined ? null : String(value));
+
+const remove = (rows: Row[], match: (row: Row) => boolean): number => {
+  let removed = 0;
+  for (let i = rows.length - 1; i >= 0; i--) {
+    if (match(rows[i])) { rows.splice(i, 1); removed++; }
+  }
+  return removed;
+};
+
+const byCreatedAt = (a: Row, b: Row) => a.created_at.localeCompare(b.created_at);
+
+// Whether any of the fields contains the search text, like the ilike match in search_users / search_activity.
+const matchesSearch = (search: string | undefined, ...fields: (string | null | undefined)[]) => {
+  const text = (search || '').trim().toLowerCase();
+  return !text || fields.some(field => (field || '').toLowerCase().includes(text));
+};
+
+// Orders rows carrying a sort_key by it and then id, and keeps one more than `limit` after the cursor,
+// which is what toPage expects.
+const keysetRows = (rows: Row[], direction: SortDirection, cursor: string | undefined, limit: number): Row[] => {
+  const sign = direction === 'asc' ? 1 : -1;
+  const compare = (a: Row, b: Row) => sign * (a.sort_key.localeCompare(b.sort_key) || a.id.localeCompare(b.id));
+  const after = decodeCursor(cursor);
+  return rows
+    .sort(compare)
+    .filter(row => !after || compare(row, { sort_key: after.sortValue, id: after.id }) > 0)
+    .slice(0, limit + 1);
+};
+
+// How many recent arrivals live_attendance returns with their photos.
+const LATEST_ARRIVALS = 12;
+
+// Workshops in these states hold their venue.
+const ACTIVE_STATUSES = ['pending', 'approved', 'changes_requested'];
+
+const EDITABLE_FIELDS = ['title', 'description', 'venue', 'venue_id', 'date', 'start_time', 'end_time',
+  'max_participants', 'cancellation_cutoff_hours', 'min_attendance_minutes', 'poster_url'];
+const SCHEDULE_FIELDS = ['venue', 'date', 'start_time', 'end_time', 'sessions'];
+
+export const createMemoryRepository = (options: MemoryRepositoryOptions = {}): Repository => {
+  const store = options.persist && typeof indexedDB !== 'undefined' ? snapshotStore(options.persist) : null;
+  let t: MemoryTables = initialTables();
+  let session: string | null = null;
+  let mailTransport: MailTransport = createStubTransport();
+  const listeners = new Set<(user: User | null, recovery?: boolean) => void>();
+  const attendanceListeners = new Set<() => void>();
+
+  const save = () => {
+    if (store) store.save({ tables: t, session }).catch(err => console.warn('Could not save the local database', err));
+    // There is no per-table change feed here, so any write may be an attendance change; subscribers re-read.
+    attendanceListeners.forEach(callback => callback());
+  };
+
+  // handle_new_user: the profile comes from the signup details. Signups can only be students or organizers;
+  // seeded accounts arrive with a status and keep whatever role they were given.
+  const addAccount = async (input: MemoryAccount, status?: User['status']): Promise<Row> => {
+    const id = crypto.randomUUID();
+    const role: UserRole = (status || input.role === 'organizer') ? input.role : 'student';
+    t.accounts.push({ id, email: input.email, password_hash: await hashPassword(input.password), email_confirmed_at: now() });
+    const profile = {
+      id, name: input.name || input.email, email: input.email, role, uni_id: input.uniId || id,
+      intake_year: input.intakeYear ?? null, department: input.department ?? null, profile_photo: input.profilePhoto ?? null,
+      status: status || (role === 'organizer' ? 'pending' : 'approved'), review_comment: null, created_at: now(),
+    };
+    t.users.push(profile);
+    return profile;
+  };
+
+  const ready = (async () => {
+    const saved = store && await store.load();
+    if (saved) {
+      t = saved.tables;
+      t.pass_signing_key ||= initialTables().pass_signing_key; // Saved before passes were signed with a store key
+      session = saved.session;
+      return;
+    }
+    for (const account of options.accounts || []) await addAccount(account, 'approved');
+    save();
+  })();
+
+  const profile = () => t.users.find(u => u.id === session) || null;
+  const actingName = () => profile()?.name ?? null;
+
+  const sessionUser = (): User | null => {
+    const u = profile();
+    return u && { ...mapUser(u), staffGrants: t.event_staff.filter(s => s.user_id === u.id).map(mapStaffGrant) };
+  };
+
+  // can() from the SQL setup: with an event id, the grant's scope has to cover that event.
+  const allowed = (capability: Capability, eventId?: string, at?: Date) => {
+    if (!eventId) return can(sessionUser(), capability);
+    const evt = t.events.find(e => e.id === eventId);
+    return can(sessionUser(), capability, { _id: eventId, organizerId: evt?.organizer_id, department: evt?.department }, at);
+  };
+
+  const notify = () => {
+    const user = session ? sessionUser() : null;
+    listeners.forEach(callback => callback(user && { ...user, emailVerified: true }));
+  };
+
+  const withRelations = (e: Row): Row => ({
+    ...e,
+    event_sessions: t.event_sessions.filter(s => s.event_id === e.id),
+    event_tags: t.event_tags.filter(x => x.event_id === e.id),
+  });
+
+  const expiryOf = (evt: Row) =>
+    passExpiry({ date: evt.date, end_time: evt.end_time, event_sessions: t.event_sessions
+      .filter(s => s.event_id === evt.id)
+      .map(s => ({ date: s.date, end_time: s.end_time })) });
+
+  // sign_pass and pass_rejection
+  const signPass = (registrationId: string, evt: Row) =>
+    signPassToken({ rid: registrationId, eid: evt.id, iat: Math.floor(Date.now() / 1000), exp: expiryOf(evt) }, t.pass_signing_key[0].secret);
+  const passVerdict = (qrPayload: string, eventId: string) => verifyPassToken(qrPayload, t.pass_signing_key[0].secret, eventId);
+
+  // Row-level security read policies
+  const canSeeEvent = (e: Row) =>
+    e.status === 'approved' || e.organizer_id === session || allowed('events.review', e.id) || allowed('attendance.view', e.id);
+  const canSeeRegistration = (r: Row) =>
+    r.user_id === session || allowed('attendance.view', r.event_id) || allowed('checkin.scan', r.event_id);
+
+  const recordEventStatus = (eventId: string, from: string | null, to: string, comment: string | null) =>
+    t.event_status_history.push({ id: crypto.randomUUID(), event_id: eventId, from_status: from, to_status: to, comment, acted_by: session, acted_by_name: actingName(), created_at: now() });
+  const recordUserStatus = (userId: string, from: string | null, to: string, comment: string | null) =>
+    t.user_status_history.push({ id: crypto.randomUUID(), user_id: userId, from_status: from, to_status: to, comment, acted_by: session, acted_by_name: actingName(), created_at: now() });
+
+  const addParticipant = (reg: Row, checkInTime: string) =>
+    t.participants.push({
+      id: crypto.randomUUID(), registration_id: reg.id, user_id: reg.user_id, event_id: reg.event_id, user_name: reg.user_name,
+      event_title: reg.event_title, check_in_time: checkInTime, check_out_time: null, scanned_by: session, scanned_by_name: actingName(),
+    });
+
+  const deleteEventRows = (eventId: string) => {
+    const sessionIds = t.event_sessions.filter(s => s.event_id === eventId).map(s => s.id);
+    remove(t.session_attendance, a => sessionIds.includes(a.session_id));
+    for (const table of ['event_sessions', 'registrations', 'participants', 'event_staff', 'event_changes', 'notifications', 'event_status_history', 'event_tags'] as const) {
+      remove(t[table], r => r.event_id === eventId);
+    }
+    remove(t.events, e => e.id === eventId);
+  };
+
+  // --- DATABASE FUNCTIONS ---
+  // Each one follows the function of the same name in the SQL setup and returns what it returns.
+
+  const checkInRegistration = (registrationId: string, eventId: string, qrPayload: string): Row => {
+    if (!allowed('checkin.scan', eventId)) return { code: 'not_authorised' };
+    const reg = t.registrations.find(r => r.id === registrationId && r.event_id === eventId && r.qr_payload === qrPayload);
+    if (!reg) return { code: 'not_found' };
+    if (reg.status !== 'registered') return { code: reg.status, registration: { ...reg } };
+
+    Object.assign(reg, { status: 'checked-in', check_in_time: now() });
+    addParticipant(reg, reg.check_in_time);
+    return { code: 'ok', registration: { ...reg } };
+  };
+
+  const checkOutRegistration = (registrationId: string, eventId: string, qrPayload: string): Row => {
+    if (!allowed('checkin.scan', eventId)) return { code: 'not_authorised' };
+    const reg = t.registrations.find(r => r.id === registrationId && r.event_id === eventId && r.qr_payload === qrPayload);
+    if (!reg) return { code: 'not_found' };
+    if (reg.status !== 'checked-in') return { code: 'not_checked_in', registration: { ...reg } };
+    if (reg.check_out_time) return { code: 'checked_out', registration: { ...reg } };
+
+    reg.check_out_time = now();
+    t.participants.filter(p => p.registration_id === reg.id).forEach(p => { p.check_out_time = reg.check_out_time; });
+    return { code: 'ok', registration: { ...reg } };
+  };
+
+  const checkInSession = (registrationId: string, sessionId: string, eventId: string, qrPayload: string): Row => {
+    if (!allowed('checkin.scan', eventId)) return { code: 'not_authorised' };
+    const sess = t.event_sessions.find(s => s.id === sessionId && s.event_id === eventId);
+    if (!sess) return { code: 'session_not_found' };
+    const reg = t.registrations.find(r => r.id === registrationId && r.event_id === eventId && r.qr_payload === qrPayload);
+    if (!reg) return { code: 'not_found' };
+    if (reg.status !== 'registered' && reg.status !== 'checked-in') return { code: reg.status, registration: { ...reg } };
+    const attendance = t.session_attendance.filter(a => a.session_id === sess.id);
+    if (attendance.some(a => a.registration_id === reg.id)) return { code: 'session_checked_in', registration: { ...reg } };
+    if (sess.capacity != null && attendance.length >= sess.capacity) return { code: 'session_full', registration: { ...reg } };
+
+    const checkInTime = now();
+    t.session_attendance.push({
+      id: crypto.randomUUID(), session_id: sess.id, registration_id: reg.id, user_id: reg.user_id, user_name: reg.user_name,
+      check_in_time: checkInTime, scanned_by: session, scanned_by_name: actingName(),
+    });
+    if (reg.status === 'registered') {
+      Object.assign(reg, { status: 'checked-in', check_in_time: checkInTime });
+      addParticipant(reg, checkInTime);
+    }
+    return { code: 'ok', registration: { ...reg } };
+  };
+
+  const replayCheckIn = (registrationId: string, eventId: string, checkInTime: string): Row => {
+    const scannedAt = new Date(checkInTime);
+    if (!allowed('checkin.scan', eventId, scannedAt)) return { code: 'not_authorised' };
+    const evt = t.events.find(e => e.id === eventId);
+    if (!evt) return { code: 'not_found' };
+    const slots = [evt, ...t.event_sessions.filter(s => s.event_id === eventId)];
+    const opens = Math.min(...slots.map(s => eventStart(s.date, s.start_time).getTime())) - PASS_GRACE_HOURS * 60 * 60 * 1000;
+    const closes = Math.max(...slots.map(s => eventStart(s.date, s.end_time).getTime())) + PASS_GRACE_HOURS * 60 * 60 * 1000;
+    const at = scannedAt.getTime();
+    if (!(at <= Date.now() && at >= opens && at <= closes)) return { code: 'outside_window' };
+    const reg = t.registrations.find(r => r.id === registrationId && r.event_id === eventId);
+    if (!reg) return { code: 'not_found' };
+    if (reg.status !== 'registered') return { code: reg.status, registration: { ...reg } };
+
+    Object.assign(reg, { status: 'checked-in', check_in_time: checkInTime });
+    addParticipant(reg, checkInTime);
+    return { code: 'ok', registration: { ...reg } };
+  };
+
+  const eventOccupancy = (only?: string): Row[] =>
+    [...new Set(t.registrations.map(r => r.event_id))].filter(eventId => !only || eventId === only).map(eventId => {
+      const regs = t.registrations.filter(r => r.event_id === eventId);
+      return {
+        event_id: eventId,
+        seats_taken: regs.filter(r => r.status === 'registered' || r.status === 'checked-in').length,
+        waitlist: regs.filter(r => r.status === 'waitlisted').sort((a, b) => a.timestamp.localeCompare(b.timestamp)).map(r => r.id),
+      };
+    });
+
+  const seatsTaken = (eventId: string) =>
+    t.registrations.filter(r => r.event_id === eventId && (r.status === 'registered' || r.status === 'checked-in')).length;
+
+  const promoteWaitlist = (eventId: string): number => {
+    const evt = t.events.find(e => e.id === eventId);
+    const freeSeats = evt ? evt.max_participants - seatsTaken(eventId) : 0;
+    if (freeSeats <= 0) return 0;
+    const promoted = t.registrations
+      .filter(r => r.event_id === eventId && r.status === 'waitlisted')
+      .sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+      .slice(0, freeSeats);
+    promoted.forEach(r => { r.status = 'registered'; });
+    return promoted.length;
+  };
+
+  const releaseRegistration = (registrationId: string): Row => {
+    const reg = t.registrations.find(r => r.id === registrationId && r.user_id === session);
+    if (!reg) return { code: 'not_found' };
+    if (reg.status !== 'registered' && reg.status !== 'waitlisted') return { code: reg.status, registration: { ...reg } };
+
+    const evt = t.events.find(e => e.id === reg.event_id);
+    const cutoffHours = evt.cancellation_cutoff_hours ?? 24;
+    if (Date.now() > eventStart(evt.date, evt.start_time).getTime() - cutoffHours * 60 * 60 * 1000) {
+      return { code: 'past_cutoff', cutoff_hours: cutoffHours, registration: { ...reg } };
+    }
+
+    Object.assign(reg, { status: 'cancelled', cancelled_at: now() });
+    promoteWaitlist(reg.event_id);
+    return { code: 'ok', registration: { ...reg } };
+  };
+
+  const setUserStatus = (userId: string, status: string, comment?: string | null): Row => {
+    if (!allowed('users.review')) return { code: 'not_authorised' };
+    if ((status === 'rejected' || status === 'changes_requested') && !trimmed(comment)) return { code: 'comment_required' };
+    const user = t.users.find(u => u.id === userId);
+    if (!user) return { code: 'not_found' };
+
+    const previous = user.status;
+    Object.assign(user, { status, review_comment: trimmed(comment) });
+    recordUserStatus(userId, previous, status, trimmed(comment));
+    return { code: 'ok' };
+  };
+
+  const setUserRole = (userId: string, role: UserRole): boolean => {
+    if (!allowed('users.review') || userId === session) return false;
+    const user = t.users.find(u => u.id === userId);
+    if (!user) return false;
+    user.role = role;
+    return true;
+  };
+
+  const assignGateStaff = (eventId: string, email: string, validFrom: string, validUntil: string): Row => {
+    if (!allowed('staff.assign', eventId)) return { code: 'not_authorised' };
+    const from = new Date(validFrom).getTime(), until = new Date(validUntil).getTime();
+    if (!(until > from) || until <= Date.now()) return { code: 'invalid_window' };
+    const staff = t.users.find(u => u.email === email.trim().toLowerCase());
+    if (!staff) return { code: 'not_found' };
+    if (staff.status !== 'approved') return { code: 'not_approved' };
+
+    const grant = { valid_from: new Date(from).toISOString(), valid_until: new Date(until).toISOString(), assigned_by: session };
+    const existing = t.event_staff.find(s => s.event_id === eventId && s.user_id === staff.id);
+    if (existing) Object.assign(existing, grant);
+    else t.event_staff.push({ event_id: eventId, user_id: staff.id, user_name: staff.name, user_email: staff.email, ...grant, created_at: now() });
+    return { code: 'ok', user_id: staff.id, name: staff.name };
+  };
+
+  const venueSlots = (): Row[] => t.events.flatMap(e => {
+    const sessions = t.event_sessions.filter(s => s.event_id === e.id);
+    return sessions.length === 0
+      ? [{ event_id: e.id, title: e.title, status: e.status, venue_id: e.venue_id, date: e.date, start_time: e.start_time, end_time: e.end_time, capacity: e.max_participants }]
+      : sessions.map(s => ({ event_id: e.id, title: e.title, status: e.status, venue_id: s.venue_id, date: s.date, start_time: s.start_time, end_time: s.end_time, capacity: s.capacity ?? e.max_participants }));
+  });
+
+  const venueConflicts = (venueId: string | null, date: string, startTime: string, endTime: string, eventId?: string | null): Row[] =>
+    venueSlots().filter(b =>
+      venueId && b.venue_id === venueId && b.date === date
+      && b.start_time < endTime && startTime < b.end_time
+      && ACTIVE_STATUSES.includes(b.status)
+      && (!eventId || b.event_id !== eventId));
+
+  const eventConflicts = (): Row[] => {
+    const slots = venueSlots().filter(s => s.venue_id && ACTIVE_STATUSES.includes(s.status));
+    return slots.flatMap(a => slots
+      .filter(b => b.venue_id === a.venue_id && b.date === a.date && b.event_id !== a.event_id && a.start_time < b.end_time && b.start_time < a.end_time)
+      .map(b => ({ event_id: a.event_id, conflicting_event_id: b.event_id, title: b.title, status: b.status, venue_id: b.venue_id, date: b.date, start_time: b.start_time, end_time: b.end_time })));
+  };
+
+  const sessionSummary = (eventId: string): string | null => {
+    const sessions = t.event_sessions
+      .filter(s => s.event_id === eventId)
+      .sort((a, b) => `${a.date}T${a.start_time}`.localeCompare(`${b.date}T${b.start_time}`));
+    return sessions.length === 0 ? null : sessions.map(s => `${s.title}: ${s.date} ${s.start_time}-${s.end_time} @ ${s.venue ?? ''}`).join('; ');
+  };
+
+  const updateEvent = (eventId: string, patch: Row, sessions: Row[] | null, tagIds: string[] | null): Row => {
+    if (!allowed('events.edit', eventId)) return { code: 'not_authorised' };
+    const evt = t.events.find(e => e.id === eventId);
+    if (!evt) return { code: 'not_found' };
+    if (evt.status === 'cancelled') return { code: 'cancelled' };
+    // The event_tags foreign key rolls the whole edit back
+    if (tagIds?.some(id => !t.tags.some(tag => tag.id === id))) throw new ConflictError('Update failed.');
+
+    const next = { ...evt };
+    for (const field of EDITABLE_FIELDS) if (patch[field] !== undefined) next[field] = patch[field];
+    const changes: Row[] = [];
+    for (const field of EDITABLE_FIELDS) {
+      // A venue change shows up through its name
+      if (field === 'venue_id' || asText(evt[field]) === asText(next[field])) continue;
+      // Posters are data URLs; only the fact that one changed is worth keeping
+      changes.push({ field, from: field === 'poster_url' ? null : asText(evt[field]), to: field === 'poster_url' ? null : asText(next[field]) });
+    }
+
+    // Issued passes keep their seats, so a workshop cannot shrink below the seats already taken
+    if (next.max_participants < seatsTaken(eventId)) return { code: 'below_seats_taken' };
+
+    // The new schedule may not overfill a venue or double-book one an approved workshop holds
+    const slots: Row[] = sessions && sessions.length > 0
+      ? sessions.map(s => ({ ...s, capacity: s.capacity ?? next.max_participants }))
+      : sessions || !t.event_sessions.some(s => s.event_id === eventId)
+        ? [{ venue_id: next.venue_id, date: next.date, start_time: next.start_time, end_time: next.end_time, capacity: next.max_participants }]
+        : [];
+    if (slots.some(s => t.venues.some(v => v.id === s.venue_id && s.capacity > v.capacity))) return { code: 'over_capacity' };
+    if (slots.some(s => venueConflicts(s.venue_id, s.date, s.start_time, s.end_time, eventId).some(c => c.status === 'approved'))) {
+      return { code: 'venue_conflict' };
+    }
+
+    if (sessions) {
+      const kept = sessions.filter(s => s.id).map(s => s.id);
+      const dropped = t.event_sessions.filter(s => s.event_id === eventId && !kept.includes(s.id)).map(s => s.id);
+      if (t.session_attendance.some(a => dropped.includes(a.session_id))) return { code: 'session_has_attendance' };
+
+      const before = sessionSummary(eventId);
+      remove(t.event_sessions, s => dropped.includes(s.id));
+      for (const { id, ...fields } of sessions) {
+        const existing = id && t.event_sessions.find(s => s.id === id && s.event_id === eventId);
+        if (existing) Object.assign(existing, fields);
+        else if (!id) t.event_sessions.push({ id: crypto.randomUUID(), event_id: eventId, ...fields });
+      }
+      const after = sessionSummary(eventId);
+      if (before !== after) changes.push({ field: 'sessions', from: before, to: after });
+    }
+
+    if (tagIds) {
+      remove(t.event_tags, x => x.event_id === eventId);
+      tagIds.forEach(tagId => t.event_tags.push({ event_id: eventId, tag_id: tagId }));
+    }
+
+    if (changes.length === 0) return { code: 'ok', changes, sent_for_review: false };
+
+    // Reviewers' own edits never need a second look
+    const sentForReview = evt.status === 'approved' && !allowed('events.review', eventId)
+      && changes.some(c => SCHEDULE_FIELDS.includes(c.field))
+      && t.app_settings.find(s => s.key === 'review_schedule_changes')?.value === 'true';
+    if (sentForReview) next.status = 'pending';
+
+    const previous = { ...evt };
+    Object.assign(evt, next);
+    if (evt.title !== previous.title) {
+      [...t.registrations, ...t.participants].filter(r => r.event_id === eventId).forEach(r => { r.event_title = evt.title; });
+    }
+    if (evt.max_participants > previous.max_participants) promoteWaitlist(eventId);
+
+    t.event_changes.push({ id: crypto.randomUUID(), event_id: eventId, changed_by: session, changed_by_name: actingName(), changes, sent_for_review: sentForReview, created_at: now() });
+    if (sentForReview) recordEventStatus(eventId, previous.status, 'pending', 'Date, time or venue changed.');
+    const holders = new Set(t.registrations.filter(r => r.event_id === eventId && r.status !== 'cancelled').map(r => r.user_id));
+    holders.forEach(userId => t.notifications.push({
+      id: crypto.randomUUID(), user_id: userId, event_id: eventId, kind: 'event_updated', title: evt.title, changes, message: null, read_at: null, created_at: now(),
+    }));
+    return { code: 'ok', changes, sent_for_review: sentForReview };
+  };
+
+  const reissuePass = async (registrationId: string): Promise<boolean> => {
+    const reg = t.registrations.find(r => r.id === registrationId && r.user_id === session && (r.status === 'registered' || r.status === 'waitlisted'));
+    const evt = reg && t.events.find(e => e.id === reg.event_id);
+    if (!evt) return false;
+    const { claims } = await passVerdict(reg.qr_payload, evt.id);
+    if (claims?.exp === expiryOf(evt)) return false;
+    reg.qr_payload = await signPass(reg.id, evt);
+    return true;
+  };
+
+  const cancelEvent = (eventId: string, reason: string): Row => {
+    if (!allowed('events.cancel', eventId)) return { code: 'not_authorised' };
+    if (!trimmed(reason)) return { code: 'reason_required' };
+    const evt = t.events.find(e => e.id === eventId);
+    if (!evt) return { code: 'not_found' };
+    if (evt.status === 'cancelled') return { code: 'cancelled' };
+
+    const previous = evt.status;
+    Object.assign(evt, { status: 'cancelled', cancellation_reason: reason.trim(), cancelled_at: now(), cancelled_by: session });
+    recordEventStatus(eventId, previous, 'cancelled', reason.trim());
+    const outstanding = t.registrations.filter(r => r.event_id === eventId && (r.status === 'registered' || r.status === 'waitlisted'));
+    new Set(outstanding.map(r => r.user_id)).forEach(userId => t.notifications.push({
+      id: crypto.randomUUID(), user_id: userId, event_id: eventId, kind: 'event_cancelled', title: evt.title, changes: null, message: reason.trim(), read_at: null, created_at: now(),
+    }));
+    outstanding.forEach(r => { r.status = 'voided'; });
+    remove(t.event_staff, s => s.event_id === eventId);
+    return { code: 'ok', voided: outstanding.length };
+  };
+
+  const reviewEvent = (eventId: string, status: string, comment?: string | null): Row => {
+    if (!allowed('events.review', eventId)) return { code: 'not_authorised' };
+    if (!['approved', 'rejected', 'changes_requested'].includes(status)) return { code: 'invalid_status' };
+    if (status !== 'approved' && !trimmed(comment)) return { code: 'comment_required' };
+    const evt = t.events.find(e => e.id === eventId);
+    if (!evt) return { code: 'not_found' };
+    if (evt.status !== 'pending') return { code: 'not_pending' };
+    if (status === 'approved') {
+      if (venueSlots().some(s => s.event_id === eventId && t.venues.some(v => v.id === s.venue_id && s.capacity > v.capacity))) return { code: 'over_capacity' };
+      if (eventConflicts().some(c => c.event_id === eventId && c.status === 'approved')) return { code: 'venue_conflict' };
+    }
+
+    const previous = evt.status;
+    Object.assign(evt, { status, review_comment: trimmed(comment) });
+    recordEventStatus(eventId, previous, status, trimmed(comment));
+    return { code: 'ok' };
+  };
+
+  const resubmitEvent = (eventId: string, note?: string | null): Row => {
+    if (!allowed('events.edit', eventId)) return { code: 'not_authorised' };
+    const evt = t.events.find(e => e.id === eventId);
+    if (!evt) return { code: 'not_found' };
+    if (evt.status !== 'changes_requested') return { code: 'not_requested' };
+
+    evt.status = 'pending';
+    recordEventStatus(eventId, 'changes_requested', 'pending', trimmed(note));
+    return { code: 'ok' };
+  };
+
+  const resubmitAccount = (note?: string | null): Row => {
+    const user = profile();
+    if (user?.status !== 'changes_requested') return { code: 'not_requested' };
+
+    user.status = 'pending';
+    recordUserStatus(user.id, 'changes_requested', 'pending', trimmed(note));
+    return { code: 'ok' };
+  };
+
+  const reviewSeries = (seriesId: string, status: string, comment?: string | null): Row => {
+    let reviewed = 0;
+    const failed: Row[] = [];
+    const pending = t.events.filter(e => e.series_id === seriesId && e.status === 'pending').sort((a, b) => a.series_index - b.series_index);
+    for (const occurrence of pending) {
+      const result = reviewEvent(occurrence.id, status, comment);
+      if (result.code === 'ok') reviewed++;
+      else failed.push({ event_id: occurrence.id, code: result.code });
+    }
+    return { code: 'ok', reviewed, failed };
+  };
+
+  const saveSeries = async (organizerId: string, title: string, rule: RecurrenceRule): Promise<EventSeries> => {
+    await ready;
+    if (!allowed('events.propose') || organizerId !== session) throw new PermissionError('Your account cannot host workshops.');
+    const row = { id: crypto.randomUUID(), organizer_id: organizerId, title, rule, created_at: now() };
+    t.event_series.push(row);
+    save();
+    return mapSeries(row);
+  };
+
+  const appUrl = () => (typeof window !== 'undefined' ? window.location.origin : '');
+
+  const repo: Repository = {
+    ...composedOperations(() => repo, saveSeries),
+
+    isConfigured: () => true,
+
+    // --- AUTH ---
+    getCurrentUser: async (): Promise<User | null> => {
+      await ready;
+      const user = sessionUser();
+      if (!user) return null;
+      const account = t.accounts.find(a => a.id === user._id);
+      return { ...user, emailVerified: !!account?.email_confirmed_at };
+    },
+
+    signIn: async (email: string, password: string): Promise<User | null> => {
+      await ready;
+      const account = t.accounts.find(a => a.email === email.trim().toLowerCase());
+      if (!account || account.password_hash !== await hashPassword(password)) return null;
+      session = account.id;
+      save();
+      notify();
+      return repo.getCurrentUser();
+    },
+
+    signOut: async (): Promise<void> => {
+      await ready;
+      session = null;
+      save();
+      notify();
+    },
+
+    onAuthChange: (callback: (user: User | null, recovery?: boolean) => void): (() => void) => {
+      listeners.add(callback);
+      return () => { listeners.delete(callback); };
+    },
+
+    // There is no mail server, so new accounts are verified and signed in straight away.
+    createUser: async (input: Omit<User, '_id' | 'status'> & { password: string }): Promise<User> => {
+      await ready;
+      const user = { ...input, email: input.email.trim().toLowerCase(), uniId: input.uniId.trim().toUpperCase() };
+      const invalid = validateEnrollment(user, t.departments.map(d => d.code));
+      if (Object.keys(invalid).length > 0) throw new EnrollmentError(invalid);
+      if (t.users.some(u => u.uni_id === user.uniId)) throw new EnrollmentError({ uniId: 'This University ID is already enrolled.' });
+      if (t.accounts.some(a => a.email === user.email)) throw new EnrollmentError({ email: 'An account with this email already exists.' });
+
+      const { intakeYear, department } = parseUniId(user.uniId, user.role);
+      const created = await addAccount({ ...user, intakeYear, department });
+      session = created.id;
+      save();
+      notify();
+      return repo.getCurrentUser();
+    },
+
+    // --- ACCOUNT RECOVERY ---
+    setMailTransport: (transport: MailTransport) => { mailTransport = transport; },
+
+    openedFromRecoveryLink: () => false,
+
+    requestEmailVerification: async (email: string): Promise<void> => {
+      await mailTransport.send({ kind: 'verify-email', to: email, redirectTo: appUrl() });
+    },
+
+    requestPasswordReset: async (email: string): Promise<void> => {
+      await mailTransport.send({ kind: 'password-reset', to: email, redirectTo: appUrl() });
+    },
+
+    resetPassword: async (newPassword: string): Promise<boolean> => {
+      await ready;
+      const account = t.accounts.find(a => a.id === session);
+      if (!account) return false;
+      account.password_hash = await hashPassword(newPassword);
+      save();
+      return true;
+    },
+
+    changePassword: async (currentPassword: string, newPassword: string): Promise<{ success: boolean; message?: string }> => {
+      await ready;
+      const account = t.accounts.find(a => a.id === session);
+      if (!account) return { success: false, message: 'Your session has expired. Please sign in again.' };
+      if (account.password_hash !== await hashPassword(currentPassword)) return { success: false, message: 'Current password is incorrect.' };
+      if (currentPassword === newPassword) return { success: false, message: 'New password must differ from the current one.' };
+      account.password_hash = await hashPassword(newPassword);
+      save();
+      return { success: true };
+    },
+
+    getAllUsers: async (): Promise<User[]> => {
+      await ready;
+      if (!allowed('users.view')) return [];
+      return [...t.users].sort((a, b) => a.role.localeCompare(b.role)).map(mapUser);
+    },
+
+    searchUsers: async (query: UserQuery): Promise<UserPage> => {
+      await ready;
+      if (!allowed('users.view')) return { items: [], total: 0, roleCounts: {} };
+      const column = { name: 'name', uniId: 'uni_id', email: 'email', createdAt: 'created_at' }[query.sort || 'name'];
+      const found = t.users.filter(u => matchesSearch(query.search, u.name, u.uni_id, u.email));
+      const roleCounts: UserPage['roleCounts'] = {};
+      found.forEach(u => { roleCounts[u.role as UserRole] = (roleCounts[u.role as UserRole] || 0) + 1; });
+      const matching = found.filter(u => !query.role || u.role === query.role);
+      const limit = pageLimit(query.limit);
+      const rows = keysetRows(matching.map(u => ({ ...u, sort_key: u[column] || '' })), query.direction || 'asc', query.cursor, limit);
+      return { ...toPage(rows, matching.length, limit, mapUser), roleCounts };
+    },
+
+    getPendingUsers: async (): Promise<User[]> => {
+      await ready;
+      if (!allowed('users.review')) return [];
+      return t.users.filter(u => u.role === 'organizer' && u.status === 'pending').map(mapUser);
+    },
+
+    updateUserStatus: async (userId: string, status: ReviewDecision, comment?: string): Promise<{ success: boolean; message?: string }> => {
+      await ready;
+      const data = setUserStatus(userId, status, comment || null);
+      if (data.code !== 'ok') return { success: false, message: REVIEW_FAILURES[data.code] || 'Review failed.' };
+      save();
+      return { success: true };
+    },
+
+    resubmitAccount: async (note?: string): Promise<{ success: boolean; message?: string }> => {
+      await ready;
+      const data = resubmitAccount(note || null);
+      if (data.code !== 'ok') return { success: false, message: REVIEW_FAILURES[data.code] || 'Resubmission failed.' };
+      save();
+      return { success: true };
+    },
+
+    updateProfile: async (patch: Partial<Pick<User, 'name' | 'profilePhoto'>>): Promise<boolean> => {
+      await ready;
+      const user = profile();
+      if (!user) return false;
+      if (patch.name !== undefined) user.name = patch.name;
+      if (patch.profilePhoto !== undefined) user.profile_photo = patch.profilePhoto;
+      save();
+      return true;
+    },
+
+    getUserStatusHistory: async (userId: string): Promise<StatusChange[]> => {
+      await ready;
+      if (userId !== session && !allowed('users.review')) return [];
+      return t.user_status_history.filter(h => h.user_id === userId).sort(byCreatedAt).map(mapStatusChange);
+    },
+
+    setUserRole: async (userId: string, role: UserRole): Promise<boolean> => {
+      await ready;
+      const updated = setUserRole(userId, role);
+      if (updated) save();
+      return updated;
+    },
+
+    getEvents: async (): Promise<Event[]> => {
+      await ready;
+      return t.events.filter(canSeeEvent).sort((a, b) => byCreatedAt(b, a)).map(e => mapEvent(withRelations(e)));
+    },
+
+    getEvent: async (eventId: string): Promise<Event | null> => {
+      await ready;
+      const evt = t.events.find(e => e.id === eventId);
+      return evt && canSeeEvent(evt) ? mapEvent(withRelations(evt)) : null;
+    },
+
+    createEvent: async (evt: EventProposal): Promise<Event> => {
+      await ready;
+      if (!allowed('events.propose') || evt.organizerId !== session) throw new PermissionError('Your account cannot host workshops.');
+      const { problem } = await repo.checkBooking(evt);
+      if (problem) throw new ConflictError(problem);
+      if (!t.departments.some(d => d.code === evt.department)) throw new ValidationError(`Unknown department ${evt.department}.`);
+
+      const row = {
+        id: crypto.randomUUID(),
+        title: evt.title,
+        description: evt.description,
+        organizer_name: evt.organizerName,
+        organizer_email: evt.organizerEmail,
+        organizer_id: evt.organizerId,
+        department: evt.department,
+        venue: evt.venue,
+        venue_id: evt.venueId || null,
+        date: evt.date,
+        start_time: evt.startTime,
+        end_time: evt.endTime,
+        max_participants: evt.maxParticipants ?? 50,
+        cancellation_cutoff_hours: evt.cancellationCutoffHours ?? 24,
+        min_attendance_minutes: evt.minAttendanceMinutes ?? 0,
+        status: 'pending',
+        review_comment: null,
+        poster_url: evt.posterUrl ?? null,
+        cancellation_reason: null,
+        cancelled_at: null,
+        cancelled_by: null,
+        series_id: evt.seriesId || null,
+        series_index: evt.seriesIndex || null,
+        created_at: now(),
+      };
+      t.events.push(row);
+      (evt.tagIds || []).forEach(tagId => t.event_tags.push({ event_id: row.id, tag_id: tagId }));
+      (evt.sessions || []).forEach(s => t.event_sessions.push({
+        id: crypto.randomUUID(),
+        event_id: row.id,
+        title: s.title,
+        venue: s.venue,
+        venue_id: s.venueId || null,
+        date: s.date,
+        start_time: s.startTime,
+        end_time: s.endTime,
+        capacity: s.capacity || null,
+      }));
+      save();
+      return mapEvent(withRelations(row));
+    },
+
+    updateEvent: async (
+      eventId: string,
+      evt: EventEdit
+    ): Promise<{ success: boolean; message?: string; changes?: EventChange[]; sentForReview?: boolean }> => {
+      await ready;
+      if (!allowed('events.edit', eventId)) return { success: false, message: 'You cannot edit this workshop.' };
+      const data = updateEvent(eventId, {
+        title: evt.title,
+        description: evt.description,
+        venue: evt.venue,
+        venue_id: evt.venueId || null,
+        date: evt.date,
+        start_time: evt.startTime,
+        end_time: evt.endTime,
+        max_participants: evt.maxParticipants,
+        cancellation_cutoff_hours: evt.cancellationCutoffHours,
+        min_attendance_minutes: evt.minAttendanceMinutes,
+        poster_url: evt.posterUrl,
+      }, evt.sessions ? evt.sessions.map(s => ({
+        id: s._id || null,
+        title: s.title,
+        venue: s.venue,
+        venue_id: s.venueId || null,
+        date: s.date,
+        start_time: s.startTime,
+        end_time: s.endTime,
+        capacity: s.capacity || null,
+      })) : null, evt.tagIds || null);
+
+      if (data.code !== 'ok') return { success: false, message: UPDATE_FAILURES[data.code] || 'Update failed.' };
+      save();
+      return { success: true, changes: data.changes.map(mapChange), sentForReview: data.sent_for_review };
+    },
+
+    getEventRevisions: async (eventId: string): Promise<EventRevision[]> => {
+      await ready;
+      if (!allowed('events.edit', eventId) && !allowed('events.review', eventId)) return [];
+      return t.event_changes.filter(c => c.event_id === eventId).sort((a, b) => byCreatedAt(b, a)).map(mapRevision);
+    },
+
+    updateEventStatus: async (eventId: string, status: ReviewDecision, comment?: string): Promise<{ success: boolean; message?: string }> => {
+      await ready;
+      const data = reviewEvent(eventId, status, comment || null);
+      if (data.code !== 'ok') return { success: false, message: REVIEW_FAILURES[data.code] || 'Review failed.' };
+      save();
+      return { success: true };
+    },
+
+    resubmitEvent: async (eventId: string, note?: string): Promise<{ success: boolean; message?: string }> => {
+      await ready;
+      const data = resubmitEvent(eventId, note || null);
+      if (data.code !== 'ok') return { success: false, message: REVIEW_FAILURES[data.code] || 'Resubmission failed.' };
+      save();
+      return { success: true };
+    },
+
+    getEventStatusHistory: async (eventId: string): Promise<StatusChange[]> => {
+      await ready;
+      if (!allowed('events.edit', eventId) && !allowed('events.review', eventId)) return [];
+      return t.event_status_history.filter(h => h.event_id === eventId).sort(byCreatedAt).map(mapStatusChange);
+    },
+
+    cancelEvent: async (eventId: string, reason: string): Promise<{ success: boolean; message?: string; voided?: number }> => {
+      await ready;
+      const data = cancelEvent(eventId, reason);
+      if (data.code !== 'ok') return { success: false, message: CANCEL_FAILURES[data.code] || 'Cancellation failed.' };
+      save();
+      return { success: true, voided: data.voided };
+    },
+
+    deleteEvent: async (eventId: string): Promise<{ success: boolean; message?: string }> => {
+      await ready;
+      if (!t.events.some(e => e.id === eventId) || !allowed('events.delete', eventId)) return { success: false, message: 'You cannot delete this workshop.' };
+      if (t.registrations.some(r => r.event_id === eventId)) return { success: false, message: 'Workshops with registrations can only be cancelled.' };
+      deleteEventRows(eventId);
+      save();
+      return { success: true };
+    },
+
+    // --- VENUES ---
+    getVenues: async (): Promise<Venue[]> => {
+      await ready;
+      return [...t.venues].sort((a, b) => a.name.localeCompare(b.name)).map(mapVenue);
+    },
+
+    createVenue: async (venue: Omit<Venue, '_id'>): Promise<Venue> => {
+      await ready;
+      if (!allowed('venues.manage')) throw new PermissionError('Your account cannot manage venues.');
+      const name = venue.name.trim();
+      if (t.venues.some(v => v.name === name)) throw new ConflictError(`A venue called "${name}" already exists.`);
+      if (!(venue.capacity > 0)) throw new ValidationError('A venue needs at least one seat.');
+      const row = { id: crypto.randomUUID(), name, building: venue.building.trim(), capacity: venue.capacity, created_at: now() };
+      t.venues.push(row);
+      save();
+      return mapVenue(row);
+    },
+
+    deleteVenue: async (venueId: string): Promise<boolean> => {
+      await ready;
+      if (!allowed('venues.manage')) return false;
+      remove(t.venues, v => v.id === venueId);
+      [...t.events, ...t.event_sessions].filter(r => r.venue_id === venueId).forEach(r => { r.venue_id = null; });
+      save();
+      return true;
+    },
+
+    findVenueConflicts: async (evt: BookingRequest, eventId?: string): Promise<VenueConflict[]> => {
+      await ready;
+      return bookingSlots(evt)
+        .filter(s => s.venueId && s.date && s.startTime && s.endTime)
+        .flatMap(s => venueConflicts(s.venueId, s.date, s.startTime, s.endTime, eventId).map((c): VenueConflict => ({
+          eventId,
+          conflictingEventId: c.event_id,
+          title: c.title,
+          status: c.status,
+          venueId: s.venueId,
+          date: c.date,
+          startTime: c.start_time,
+          endTime: c.end_time,
+        })));
+    },
+
+    getVenueConflicts: async (): Promise<VenueConflict[]> => {
+      await ready;
+      return eventConflicts().map(mapConflict);
+    },
+
+    // --- DEPARTMENTS & TAGS ---
+    getDepartments: async (): Promise<Department[]> => {
+      await ready;
+      return [...t.departments].sort((a, b) => a.code.localeCompare(b.code)).map(d => ({ code: d.code, name: d.name }));
+    },
+
+    createDepartment: async (dept: Department): Promise<Department> => {
+      await ready;
+      if (!allowed('taxonomy.manage')) throw new PermissionError('Your account cannot manage departments.');
+      const code = dept.code.trim().toUpperCase();
+      if (t.departments.some(d => d.code === code)) throw new ConflictError(`Department ${code} already exists.`);
+      t.departments.push({ code, name: dept.name.trim() });
+      save();
+      return { code, name: dept.name.trim() };
+    },
+
+    deleteDepartment: async (code: string): Promise<{ success: boolean; message?: string }> => {
+      await ready;
+      if (!allowed('taxonomy.manage')) return { success: false, message: 'Your account cannot manage departments.' };
+      if (t.events.some(e => e.department === code)) return { success: false, message: `${code} still has workshops.` };
+      remove(t.departments, d => d.code === code);
+      save();
+      return { success: true };
+    },
+
+    getTags: async (): Promise<Tag[]> => {
+      await ready;
+      return [...t.tags].sort((a, b) => a.name.localeCompare(b.name)).map(mapTag);
+    },
+
+    createTag: async (name: string): Promise<Tag> => {
+      await ready;
+      if (!allowed('taxonomy.manage')) throw new PermissionError('Your account cannot manage tags.');
+      if (t.tags.some(tag => tag.name === name.trim())) throw new ConflictError(`A tag called "${name.trim()}" already exists.`);
+      const row = { id: crypto.randomUUID(), name: name.trim() };
+      t.tags.push(row);
+      save();
+      return mapTag(row);
+    },
+
+    deleteTag: async (tagId: string): Promise<boolean> => {
+      await ready;
+      if (!allowed('taxonomy.manage')) return false;
+      remove(t.tags, tag => tag.id === tagId);
+      remove(t.event_tags, x => x.tag_id === tagId);
+      save();
+      return true;
+    },
+
+    setEventTags: async (eventId: string, tagIds: string[]): Promise<boolean> => {
+      await ready;
+      if (!allowed('events.edit', eventId) || tagIds.some(id => !t.tags.some(tag => tag.id === id))) return false;
+      remove(t.event_tags, x => x.event_id === eventId);
+      tagIds.forEach(tagId => t.event_tags.push({ event_id: eventId, tag_id: tagId }));
+      save();
+      return true;
+    },
+
+    // --- RECURRING SERIES ---
+    getSeries: async (seriesId: string): Promise<EventSeries | null> => {
+      await ready;
+      const row = t.event_series.find(s => s.id === seriesId);
+      return row ? mapSeries(row) : null;
+    },
+
+    getSeriesEvents: async (seriesId: string): Promise<Event[]> => {
+      await ready;
+      return t.events
+        .filter(e => e.series_id === seriesId && canSeeEvent(e))
+        .sort((a, b) => a.series_index - b.series_index)
+        .map(e => mapEvent(withRelations(e)));
+    },
+
+    reviewSeries: async (seriesId: string, status: ReviewDecision, comment?: string): Promise<{ success: boolean; message?: string; reviewed?: number; failed?: { eventId: string; message: string }[] }> => {
+      await ready;
+      if (!allowed('events.review')) return { success: false, message: REVIEW_FAILURES['not_authorised'] };
+      const data = reviewSeries(seriesId, status, comment || null);
+      save();
+      const failed = data.failed.map((f: Row) => ({ eventId: f.event_id, message: REVIEW_FAILURES[f.code] || 'Review failed.' }));
+      return { success: failed.length === 0, reviewed: data.reviewed, failed };
+    },
+
+    // --- GATE STAFF ---
+    assignGateStaff: async (eventId: string, email: string, validFrom: string, validUntil: string): Promise<{ success: boolean; message?: string }> => {
+      await ready;
+      const data = assignGateStaff(eventId, email, validFrom, validUntil);
+      if (data.code !== 'ok') return { success: false, message: GATE_STAFF_FAILURES[data.code] || 'Assignment failed.' };
+      save();
+      return { success: true };
+    },
+
+    revokeGateStaff: async (eventId: string, userId: string): Promise<boolean> => {
+      await ready;
+      if (!allowed('staff.assign', eventId)) return false;
+      remove(t.event_staff, s => s.event_id === eventId && s.user_id === userId);
+      save();
+      return true;
+    },
+
+    getGateStaff: async (eventId: string): Promise<StaffGrant[]> => {
+      await ready;
+      return t.event_staff
+        .filter(s => s.event_id === eventId && (s.user_id === session || allowed('staff.assign', eventId)))
+        .sort(byCreatedAt)
+        .map(mapStaffGrant);
+    },
+
+    registerForEvent: async (userId: string, userName: string, eventId: string, eventTitle: string): Promise<Registration | null> => {
+      await ready;
+      if (!allowed('events.register')) throw new PermissionError('Your account cannot register for workshops.');
+      const evt = t.events.find(e => e.id === eventId);
+      if (!evt || !canSeeEvent(evt)) throw new ValidationError('Workshop not found.');
+      // registrations_create: students only register themselves, for approved workshops
+      if (userId !== session || evt.status !== 'approved') throw new PermissionError('Registration is not open for this workshop.');
+
+      // registrations_sign_pass
+      const registrationId = crypto.randomUUID();
+      const issuedAt = new Date();
+      const qrPayload = await signPass(registrationId, evt);
+
+      // Nothing from here to the push awaits, so two registrations cannot both see a free seat or no pass yet;
+      // enforce_capacity gets the same from its event row lock. Once every seat is held, new passes join the waitlist.
+      // registrations_one_live_pass
+      if (t.registrations.some(r => r.user_id === userId && r.event_id === eventId && r.status !== 'cancelled' && r.status !== 'voided')) return null;
+      const row = {
+        id: registrationId,
+        user_id: userId,
+        user_name: userName,
+        event_id: eventId,
+        event_title: eventTitle,
+        timestamp: issuedAt.toISOString(),
+        status: seatsTaken(eventId) >= evt.max_participants ? 'waitlisted' : 'registered',
+        qr_payload: qrPayload,
+        check_in_time: null,
+        check_out_time: null,
+        cancelled_at: null,
+      };
+      t.registrations.push(row);
+      save();
+      return mapReg(row);
+    },
+
+    cancelRegistration: async (registrationId: string, userId: string): Promise<PassResult> => {
+      await ready;
+      const data = releaseRegistration(registrationId);
+      const registration = data.registration ? mapReg(data.registration) : undefined;
+      if (data.code !== 'ok') {
+        return { success: false, code: data.code, message: releaseFailure(data.code, data.cutoff_hours), registration };
+      }
+      save();
+      return { success: true, registration };
+    },
+
+    renewPasses: async (userId: string): Promise<number> => {
+      await ready;
+      let renewed = 0;
+      const passes = t.registrations.filter(r => r.user_id === userId && (r.status === 'registered' || r.status === 'waitlisted') && canSeeRegistration(r));
+      for (const reg of passes) {
+        if (await reissuePass(reg.id)) renewed++;
+      }
+      if (renewed > 0) save();
+      return renewed;
+    },
+
+    promoteWaitlist: async (eventId: string): Promise<number> => {
+      await ready;
+      const promoted = promoteWaitlist(eventId);
+      if (promoted > 0) save();
+      return promoted;
+    },
+
+    getEventOccupancy: async (eventId?: string): Promise<Record<string, EventOccupancy>> => {
+      await ready;
+      const occupancy: Record<string, EventOccupancy> = {};
+      eventOccupancy(eventId).forEach(r => {
+        occupancy[r.event_id] = { seatsTaken: r.seats_taken, waitlist: r.waitlist };
+      });
+      return occupancy;
+    },
+
+    getRegistrationsByUser: async (userId: string): Promise<Registration[]> => {
+      await ready;
+      return t.registrations.filter(r => r.user_id === userId && canSeeRegistration(r)).map(mapReg);
+    },
+
+    getRegistrationsByEvent: async (eventId: string): Promise<Registration[]> => {
+      await ready;
+      return t.registrations.filter(r => r.event_id === eventId && canSeeRegistration(r)).map(mapReg);
+    },
+
+    getSessionAttendance: async (eventId: string): Promise<SessionCheckIn[]> => {
+      await ready;
+      const sessionIds = t.event_sessions.filter(s => s.event_id === eventId).map(s => s.id);
+      return t.session_attendance
+        .filter(a => sessionIds.includes(a.session_id) && (a.user_id === session || allowed('attendance.view', eventId)))
+        .map(mapSessionCheckIn);
+    },
+
+    // --- NOTIFICATIONS ---
+    getNotifications: async (userId: string): Promise<UserNotification[]> => {
+      await ready;
+      if (userId !== session) return [];
+      return t.notifications.filter(n => n.user_id === userId).sort((a, b) => byCreatedAt(b, a)).map(mapNotification);
+    },
+
+    markNotificationRead: async (notificationId: string): Promise<boolean> => {
+      await ready;
+      const notification = t.notifications.find(n => n.id === notificationId && n.user_id === session);
+      if (notification) {
+        notification.read_at = now();
+        save();
+      }
+      return true;
+    },
+
+    getAllParticipants: async (): Promise<any[]> => {
+      await ready;
+      return t.participants
+        .filter(p => p.user_id === session || allowed('attendance.view', p.event_id))
+        .sort((a, b) => b.check_in_time.localeCompare(a.check_in_time))
+        .map(p => ({ ...p }));
+    },
+
+    searchActivity: async (query: ActivityQuery): Promise<Page<any>> => {
+      await ready;
+      const column = { checkInTime: 'check_in_time', member: 'user_name', event: 'event_title' }[query.sort || 'checkInTime'];
+      const { from, to } = activityRange(query);
+      const matching = t.participants.filter(p => {
+        if (p.user_id !== session && !allowed('attendance.view', p.event_id)) return false;
+        const member = t.users.find(u => u.id === p.user_id);
+        return matchesSearch(query.search, p.user_name, p.event_title, member?.uni_id, member?.email)
+          && (!query.eventId || p.event_id === query.eventId)
+          && (!from || p.check_in_time >= from)
+          && (!to || p.check_in_time < to);
+      });
+      const limit = pageLimit(query.limit);
+      const rows = keysetRows(matching.map(p => ({ ...p, sort_key: p[column] || '' })), query.direction || 'desc', query.cursor, limit);
+      return toPage(rows, matching.length, limit, row => row);
+    },
+
+    getLiveAttendance: async (eventId: string): Promise<LiveAttendance> => {
+      await ready;
+      if (!allowed('attendance.view', eventId)) throw new PermissionError('Your account cannot follow attendance for this workshop.');
+      const arrivals = t.participants
+        .filter(p => p.event_id === eventId)
+        .sort((a, b) => a.check_in_time.localeCompare(b.check_in_time));
+      return mapLiveAttendance({
+        registered: t.registrations.filter(r => r.event_id === eventId && ['registered', 'checked-in'].includes(r.status)).length,
+        check_ins: arrivals.map(p => p.check_in_time),
+        latest: arrivals.slice(-LATEST_ARRIVALS).reverse().map(p => {
+          const member = t.users.find(u => u.id === p.user_id);
+          return { ...p, uni_id: member?.uni_id, profile_photo: member?.profile_photo };
+        }),
+      });
+    },
+
+    onAttendanceChange: (eventId: string, callback: () => void): (() => void) => {
+      attendanceListeners.add(callback);
+      return () => { attendanceListeners.delete(callback); };
+    },
+
+    checkInUser: async (qrPayload: string, eventId: string, sessionId?: string): Promise<PassResult> => {
+      await ready;
+      // pass_rejection: signature and expiry are checked before the pass is trusted enough to look up.
+      const verdict = await passVerdict(qrPayload, eventId);
+      if (!verdict.valid) {
+        return { success: false, code: verdict.reason, message: PASS_REJECTION_MESSAGES[verdict.reason] };
+      }
+
+      const data = sessionId
+        ? checkInSession(verdict.claims.rid, sessionId, eventId, qrPayload)
+        : checkInRegistration(verdict.claims.rid, eventId, qrPayload);
+      const registration = data.registration ? mapReg(data.registration) : undefined;
+      if (data.code !== 'ok') {
+        return { success: false, code: data.code, message: CHECK_IN_FAILURES[data.code] || 'Check-in failed.', registration };
+      }
+      save();
+      return { success: true, registration };
+    },
+
+    checkOutUser: async (qrPayload: string, eventId: string): Promise<PassResult> => {
+      await ready;
+      const verdict = await passVerdict(qrPayload, eventId);
+      if (!verdict.valid) {
+        return { success: false, code: verdict.reason, message: PASS_REJECTION_MESSAGES[verdict.reason] };
+      }
+
+      const data = checkOutRegistration(verdict.claims.rid, eventId, qrPayload);
+      const registration = data.registration ? mapReg(data.registration) : undefined;
+      if (data.code !== 'ok') {
+        return { success: false, code: data.code, message: CHECK_IN_FAILURES[data.code] || 'Check-out failed.', registration };
+      }
+      save();
+      return { success: true, registration };
+    },
+
+    replayCheckIn: async (registrationId: string, eventId: string, checkInTime: string): Promise<PassResult> => {
+      await ready;
+      const data = replayCheckIn(registrationId, eventId, checkInTime);
+      const current = data.registration;
+      if (data.code === 'ok') {
+        save();
+        return { success: true, registration: mapReg(current) };
+      }
+      return { success: false, code: data.code, message: replayConflict(data.code, current), registration: current ? mapReg(current) : undefined };
+    },
+  };
+  return repo;
+};
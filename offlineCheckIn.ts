@@ -0,0 +1,143 @@
+
+// --- OFFLINE CHECK-IN TERMINAL ---
+// Registrations are cached in IndexedDB so the entry desk keeps admitting people when the hall's
+// network drops. Local check-ins are queued and replayed against Supabase once connectivity returns.
+
+import { DB } from './db';
+import { Registration } from './types';
+import { PassResult } from './repository';
+import { NetworkError, describeError } from './errors';
+import { inspectPassToken, PASS_REJECTION_MESSAGES } from './passToken';
+
+const IDB_NAME = 'unievents_offline';
+const IDB_VERSION = 1;
+const REG_STORE = 'registrations';
+const QUEUE_STORE = 'checkin_queue';
+
+export interface QueuedCheckIn {
+  registrationId: string;
+  eventId: string;
+  userName: string;
+  checkInTime: string;
+}
+
+export interface SyncConflict {
+  checkIn: QueuedCheckIn;
+  reason: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(IDB_NAME, IDB_VERSION);
+      req.onupgradeneeded = () => {
+        const db = req.result;
+        if (!db.objectStoreNames.contains(REG_STORE)) {
+          db.createObjectStore(REG_STORE, { keyPath: '_id' }).createIndex('eventId', 'eventId');
+        }
+        if (!db.objectStoreNames.contains(QUEUE_STORE)) {
+          db.createObjectStore(QUEUE_STORE, { keyPath: 'registrationId' });
+        }
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => { dbPromise = null; reject(req.error); };
+    });
+  }
+  return dbPromise;
+};
+
+const request = <T>(req: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+const complete = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+
+const store = async (name: string, mode: IDBTransactionMode = 'readonly'): Promise<IDBObjectStore> =>
+  (await openDatabase()).transaction(name, mode).objectStore(name);
+
+let syncing: Promise<{ synced: number; conflicts: SyncConflict[] }> | null = null;
+
+export const OfflineCheckIn = {
+  /** Caches the registrations for the given events. Passes with an unsynced local check-in keep their local state. */
+  preload: async (eventIds: string[]): Promise<number> => {
+    const lists = await Promise.all(eventIds.map(id => DB.getRegistrationsByEvent(id)));
+    const queued = new Set((await OfflineCheckIn.getQueue()).map(q => q.registrationId));
+    const fresh = lists.flat().filter(reg => !queued.has(reg._id));
+    const tx = (await openDatabase()).transaction(REG_STORE, 'readwrite');
+    fresh.forEach(reg => tx.objectStore(REG_STORE).put(reg));
+    await complete(tx);
+    return fresh.length;
+  },
+
+  checkIn: async (qrPayload: string, eventId: string): Promise<PassResult> => {
+    const verdict = inspectPassToken(qrPayload, eventId);
+    if (!verdict.valid) {
+      return { success: false, code: verdict.reason, message: PASS_REJECTION_MESSAGES[verdict.reason] };
+    }
+
+    // The terminal holds no key: a pass is genuine when it is exactly the one the server issued for this registration.
+    const reg: Registration | undefined = await request((await store(REG_STORE)).get(verdict.claims.rid));
+    if (!reg || reg.eventId !== eventId) {
+      return { success: false, code: 'not_found', message: 'Pass not found in the offline roster.' };
+    }
+    if (reg.qrPayload !== qrPayload) {
+      return { success: false, code: 'forged', message: PASS_REJECTION_MESSAGES['forged'] };
+    }
+
+    if (reg.status === 'cancelled') return { success: false, code: reg.status, message: 'Pass has been released.', registration: reg };
+    if (reg.status === 'checked-in') return { success: false, code: reg.status, message: 'Already checked in!', registration: reg };
+    if (reg.status === 'waitlisted') return { success: false, code: reg.status, message: 'Pass is still on the waitlist.', registration: reg };
+    if (reg.status === 'voided') return { success: false, code: reg.status, message: 'Pass was voided: the workshop has been cancelled.', registration: reg };
+
+    const updated: Registration = { ...reg, status: 'checked-in', checkInTime: new Date().toISOString() };
+    const entry: QueuedCheckIn = { registrationId: reg._id, eventId: reg.eventId, userName: reg.userName, checkInTime: updated.checkInTime };
+    const tx = (await openDatabase()).transaction([REG_STORE, QUEUE_STORE], 'readwrite');
+    tx.objectStore(REG_STORE).put(updated);
+    tx.objectStore(QUEUE_STORE).put(entry);
+    await complete(tx);
+
+    return { success: true, registration: updated };
+  },
+
+  getQueue: async (): Promise<QueuedCheckIn[]> => request((await store(QUEUE_STORE)).getAll()),
+
+  pendingCount: async (): Promise<number> => request((await store(QUEUE_STORE)).count()),
+
+  /**
+   * Replays queued check-ins in the order they were scanned. Synced and conflicting entries leave the
+   * queue; entries that fail on the network stay queued for the next attempt.
+   */
+  sync: (): Promise<{ synced: number; conflicts: SyncConflict[] }> => {
+    if (syncing) return syncing;
+    syncing = (async () => {
+      const queue = (await OfflineCheckIn.getQueue()).sort((a, b) => a.checkInTime.localeCompare(b.checkInTime));
+      const conflicts: SyncConflict[] = [];
+      let synced = 0;
+      for (const item of queue) {
+        let res;
+        try {
+          res = await DB.replayCheckIn(item.registrationId, item.eventId, item.checkInTime);
+        } catch (e) {
+          if (e instanceof NetworkError) break; // Still offline; keep the rest queued
+          // Anything else won't succeed on a retry either, so it is reported instead of blocking the queue
+          res = { success: false, message: describeError(e, 'Check-in could not be synced.') };
+        }
+        if (res.success) synced++;
+        else conflicts.push({ checkIn: item, reason: res.message || 'Check-in conflict.' });
+        const tx = (await openDatabase()).transaction([REG_STORE, QUEUE_STORE], 'readwrite');
+        tx.objectStore(QUEUE_STORE).delete(item.registrationId);
+        if (res.registration) tx.objectStore(REG_STORE).put(res.registration);
+        await complete(tx);
+      }
+      return { synced, conflicts };
+    })().finally(() => { syncing = null; });
+    return syncing;
+  },
+};
@@ -0,0 +1,80 @@
+
+// --- SIGNED ADMISSION PASS TOKENS ---
+// Format: base64url(JSON claims) + '.' + base64url(HMAC-SHA256(claims segment))
+// Passes are signed where the secret lives: by sign_pass in the database, or by the memory backend with the key
+// kept in its tables. The browser never holds a signing key, so terminals only read a pass's claims and leave
+// the signature to the server, or to the roster they cached from it when offline.
+
+export interface PassClaims {
+  rid: string; // Registration id
+  eid: string; // Event id
+  iat: number; // Issued at (unix seconds)
+  exp: number; // Expires at (unix seconds)
+}
+
+export type PassRejection = 'forged' | 'expired' | 'wrong-event';
+
+export const PASS_REJECTION_MESSAGES: Record<PassRejection, string> = {
+  'forged': 'Forged or tampered pass.',
+  'expired': 'Pass has expired.',
+  'wrong-event': 'Wrong venue: this pass was issued for a different event.',
+};
+
+export interface PassVerification {
+  valid: boolean;
+  reason?: PassRejection; // Set when valid is false
+  claims?: PassClaims; // Set whenever the claims could be read
+}
+
+const toBase64Url = (bytes: Uint8Array): string =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const fromBase64Url = (str: string): Uint8Array => {
+  const b64 = str.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(str.length / 4) * 4, '=');
+  return Uint8Array.from(atob(b64), c => c.charCodeAt(0));
+};
+
+/** A random key for signing passes, base64url-encoded. */
+export const generatePassSecret = (): string => toBase64Url(crypto.getRandomValues(new Uint8Array(32)));
+
+const signingKey = (secret: string) =>
+  crypto.subtle.importKey('raw', fromBase64Url(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+
+export const signPassToken = async (claims: PassClaims, secret: string): Promise<string> => {
+  const body = toBase64Url(new TextEncoder().encode(JSON.stringify(claims)));
+  const sig = await crypto.subtle.sign('HMAC', await signingKey(secret), new TextEncoder().encode(body));
+  return `${body}.${toBase64Url(new Uint8Array(sig))}`;
+};
+
+/**
+ * Checks a pass's expiry and event without its signature. Only the server's answer, or a match against a roster
+ * it issued, says the pass is genuine.
+ */
+export const inspectPassToken = (token: string, expectedEventId?: string): PassVerification => {
+  const [body, sig, ...rest] = token.split('.');
+  if (!body || !sig || rest.length > 0) return { valid: false, reason: 'forged' };
+
+  let claims: PassClaims;
+  try {
+    claims = JSON.parse(new TextDecoder().decode(fromBase64Url(body)));
+  } catch (e) {
+    return { valid: false, reason: 'forged' };
+  }
+  if (!claims || typeof claims.rid !== 'string' || typeof claims.exp !== 'number') return { valid: false, reason: 'forged' };
+
+  if (Date.now() / 1000 > claims.exp) return { valid: false, reason: 'expired', claims };
+  if (expectedEventId && claims.eid !== expectedEventId) return { valid: false, reason: 'wrong-event', claims };
+  return { valid: true, claims };
+};
+
+export const verifyPassToken = async (token: string, secret: string, expectedEventId?: string): Promise<PassVerification> => {
+  const [body, sig, ...rest] = token.split('.');
+  if (!body || !sig || rest.length > 0) return { valid: false, reason: 'forged' };
+  try {
+    const ok = await crypto.subtle.verify('HMAC', await signingKey(secret), fromBase64Url(sig), new TextEncoder().encode(body));
+    if (!ok) return { valid: false, reason: 'forged' };
+  } catch (e) {
+    return { valid: false, reason: 'forged' };
+  }
+  return inspectPassToken(token, expectedEventId);
+};
@@ -0,0 +1,69 @@
+
+// --- ROLE CAPABILITIES ---
+// Roles only matter through the capabilities they grant. Each grant carries a scope that decides which
+// events it covers. The role_capabilities table in the database holds the same map for row-level security.
+
+import { User, UserRole, Event, StaffGrant } from './types';
+
+export type Capability =
+  | 'events.register'   // Hold admission passes
+  | 'events.propose'    // Host workshops
+  | 'events.review'     // Approve or reject workshop proposals
+  | 'events.edit'       // Change a workshop after proposing it
+  | 'events.cancel'     // Call a workshop off, voiding its passes
+  | 'events.delete'     // Remove a workshop nobody registered for
+  | 'checkin.scan'      // Operate the entry terminal
+  | 'attendance.view'
+  | 'staff.assign'      // Grant gate access for an event
+  | 'users.view'        // Browse the member registry
+  | 'users.review'      // Verify staff accounts and change roles
+  | 'venues.manage'     // Maintain the venue registry
+  | 'taxonomy.manage'   // Maintain the department and tag lists
+  | 'reports.export';
+
+export type CapabilityScope = 'all' | 'department' | 'own' | 'assigned';
+
+export const ROLE_CAPABILITIES: Record<UserRole, Partial<Record<Capability, CapabilityScope>>> = {
+  student: { 'events.register': 'all' },
+  organizer: { 'events.propose': 'all', 'events.edit': 'own', 'events.cancel': 'own', 'checkin.scan': 'own', 'attendance.view': 'own', 'staff.assign': 'own' },
+  coordinator: { 'events.review': 'department', 'attendance.view': 'department', 'reports.export': 'department' },
+  volunteer: { 'checkin.scan': 'assigned' },
+  auditor: { 'attendance.view': 'all', 'users.view': 'all', 'reports.export': 'all' },
+  admin: {
+    'events.review': 'all', 'events.edit': 'all', 'events.cancel': 'all', 'events.delete': 'all', 'checkin.scan': 'all', 'attendance.view': 'all',
+    'staff.assign': 'all', 'users.view': 'all', 'users.review': 'all', 'venues.manage': 'all', 'taxonomy.manage': 'all',
+    'reports.export': 'all',
+  },
+};
+
+// Capabilities a gate grant adds for its event, whatever the holder's role.
+const STAFF_GRANT_CAPABILITIES: Capability[] = ['checkin.scan'];
+
+export const activeStaffGrants = (user: User | null, at: Date = new Date()): StaffGrant[] =>
+  (user?.staffGrants || []).filter(g => new Date(g.validFrom) <= at && at <= new Date(g.validUntil));
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  student: 'Student',
+  organizer: 'Staff',
+  coordinator: 'Department Coordinator',
+  volunteer: 'Gate Volunteer',
+  auditor: 'Auditor',
+  admin: 'Admin',
+};
+
+/**
+ * Whether the user holds the capability. Without an event, any scope counts; with one, the grant's
+ * scope has to cover it. A gate grant active at `at` adds its capabilities for that event. Unapproved
+ * accounts hold nothing.
+ */
+export const can = (user: User | null, capability: Capability, event?: Pick<Event, '_id' | 'organizerId' | 'department'>, at: Date = new Date()): boolean => {
+  if (!user || (user.status && user.status !== 'approved')) return false;
+  const onDuty = activeStaffGrants(user, at).some(g => !event || g.eventId === event._id);
+  if (onDuty && STAFF_GRANT_CAPABILITIES.includes(capability)) return true;
+  const scope = ROLE_CAPABILITIES[user.role]?.[capability];
+  if (!scope) return false;
+  if (!event || scope === 'all') return true;
+  if (scope === 'own') return event.organizerId === user._id;
+  if (scope === 'department') return !!user.department && event.department === user.department;
+  return onDuty;
+};
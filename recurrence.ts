@@ -0,0 +1,55 @@
+
+// --- RECURRING SERIES ---
+// A recurrence rule turns one workshop into a series of dated occurrences. Dates are plain YYYY-MM-DD
+// strings and the arithmetic runs in UTC, so daylight-saving changes never shift an occurrence.
+
+import { RecurrenceRule } from './types';
+
+// A term's worth of weekly sessions, with room to spare.
+export const MAX_OCCURRENCES = 52;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toUtc = (date: string) => Date.parse(`${date}T00:00:00Z`);
+
+export const shiftDate = (date: string, days: number): string =>
+  new Date(toUtc(date) + days * DAY_MS).toISOString().slice(0, 10);
+
+export const daysBetween = (from: string, to: string): number => Math.round((toUtc(to) - toUtc(from)) / DAY_MS);
+
+export const describeRecurrence = (rule: RecurrenceRule): string => {
+  const unit = rule.frequency === 'weekly' ? 'week' : 'day';
+  const every = rule.interval > 1 ? `Every ${rule.interval} ${unit}s` : rule.frequency === 'weekly' ? 'Weekly' : 'Daily';
+  const end = rule.count ? `${rule.count} times` : `until ${rule.until}`;
+  return `${every}, ${end}`;
+};
+
+/** Why the rule can't produce a series starting on `startDate`, or null when it can. */
+export const recurrenceProblem = (startDate: string, rule: RecurrenceRule): string | null => {
+  if (!startDate) return 'Pick the date of the first occurrence.';
+  if (!Number.isInteger(rule.interval) || rule.interval < 1) return 'Repeat interval must be a whole number of at least 1.';
+  if (!rule.count && !rule.until) return 'End the series on a date or after a number of occurrences.';
+  if (rule.until && rule.until < startDate) return 'The series cannot end before its first occurrence.';
+  const dates = expandRecurrence(startDate, rule);
+  if (dates.length < 2) return 'The rule produces a single occurrence; create a one-off workshop instead.';
+  if (dates.length > MAX_OCCURRENCES) return `A series can have at most ${MAX_OCCURRENCES} occurrences.`;
+  return null;
+};
+
+/**
+ * Occurrence dates in order, starting with `startDate` unless it is skipped. Stops at `count` occurrences
+ * or past `until`, whichever comes first, and one past MAX_OCCURRENCES so callers can report the overflow.
+ */
+export const expandRecurrence = (startDate: string, rule: RecurrenceRule): string[] => {
+  const step = rule.interval * (rule.frequency === 'weekly' ? 7 : 1);
+  const skipped = new Set(rule.skipDates);
+  const dates: string[] = [];
+  if (step < 1) return dates;
+  for (let date = startDate; dates.length <= MAX_OCCURRENCES; date = shiftDate(date, step)) {
+    if (rule.until && date > rule.until) break;
+    if (rule.count && dates.length >= rule.count) break;
+    if (!skipped.has(date)) dates.push(date);
+    if (!rule.until && !rule.count) break;
+  }
+  return dates;
+};
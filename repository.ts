@@ -0,0 +1,580 @@
+
+// --- STORAGE REPOSITORY ---
+// Everything the app reads or writes goes through a Repository. db.ts implements it on Supabase and
+// memoryDb.ts in memory; DB_BACKEND picks one at startup. Both backends keep rows in the shapes of the SQL
+// schema at the top of db.ts, so the row mappers and the failure codes of the database functions live here.
+
+import { User, UserRole, Event, EventSession, Registration, EventOccupancy, LiveAttendance, SessionCheckIn, StaffGrant, EventChange, EventRevision, UserNotification, StatusChange, Venue, VenueConflict, RecurrenceRule, EventSeries, Department, Tag } from './types';
+import { MailTransport } from './mailer';
+import { expandRecurrence, recurrenceProblem, shiftDate, daysBetween } from './recurrence';
+import { ConflictError, ValidationError } from './errors';
+import { PASS_REJECTION_MESSAGES } from './passToken';
+
+export type EventProposal = Omit<Event, '_id' | 'status' | 'createdAt' | 'sessions'> & { sessions?: Omit<EventSession, '_id' | 'eventId'>[] };
+
+// Fields left undefined keep their current value; `sessions` replaces the whole list when given.
+export type EventEdit = Partial<Pick<Event, 'title' | 'description' | 'tagIds' | 'venue' | 'venueId' | 'date' | 'startTime' | 'endTime' | 'maxParticipants' | 'cancellationCutoffHours' | 'minAttendanceMinutes' | 'posterUrl'>>
+  & { sessions?: (Omit<EventSession, '_id' | 'eventId'> & { _id?: string })[] };
+
+// What an event books: a slot per session, or a single slot for the event itself. Seats default to the pass count.
+export type BookingRequest = Pick<Event, 'date' | 'startTime' | 'endTime' | 'maxParticipants'> & {
+  venueId?: string;
+  sessions?: Pick<EventSession, 'venueId' | 'date' | 'startTime' | 'endTime' | 'capacity'>[];
+};
+
+export type ReviewDecision = 'approved' | 'rejected' | 'changes_requested';
+
+export interface ActionResult {
+  success: boolean;
+  message?: string; // Set when success is false
+}
+
+export interface PassResult extends ActionResult {
+  code?: string; // Set when success is false: the failure code of the database function behind the call
+  registration?: Registration;
+}
+
+// --- PAGED SEARCH ---
+// The admin tables page through accounts and the activity log instead of loading every row. Pages are
+// keyset-paginated: a cursor holds the sort value and id of the last row shown, so a page never shifts
+// when rows are added in front of it.
+
+export const PAGE_SIZE = 25;
+export const MAX_PAGE_SIZE = 100; // search_users and search_activity return no more than this, plus one
+
+/** The page size a query asks for, within 0 and MAX_PAGE_SIZE. */
+export const pageLimit = (limit?: number): number => Math.min(Math.max(limit ?? PAGE_SIZE, 0), MAX_PAGE_SIZE);
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface Page<T> {
+  items: T[];
+  total: number; // Rows matching the query across all pages
+  nextCursor?: string; // Unset on the last page
+}
+
+export interface UserQuery {
+  search?: string; // Matched against name, University ID and email
+  role?: UserRole;
+  sort?: 'name' | 'uniId' | 'email' | 'createdAt';
+  direction?: SortDirection;
+  cursor?: string;
+  limit?: number; // 0 only counts
+}
+
+export interface UserPage extends Page<User> {
+  roleCounts: Partial<Record<UserRole, number>>; // Matches per role, ignoring the role filter
+}
+
+export interface ActivityQuery {
+  search?: string; // Matched against member name, University ID, email and workshop title
+  eventId?: string;
+  from?: string; // YYYY-MM-DD in local time, inclusive
+  to?: string; // YYYY-MM-DD in local time, inclusive
+  sort?: 'checkInTime' | 'member' | 'event';
+  direction?: SortDirection;
+  cursor?: string;
+  limit?: number; // 0 only counts
+}
+
+/** The activity date range as instants: local midnight at the start of `from`, and after `to` (exclusive). */
+export const activityRange = (query: ActivityQuery): { from: string | null; to: string | null } => {
+  const dayAfter = new Date(`${query.to}T00:00`);
+  dayAfter.setDate(dayAfter.getDate() + 1);
+  return {
+    from: query.from ? new Date(`${query.from}T00:00`).toISOString() : null,
+    to: query.to ? dayAfter.toISOString() : null,
+  };
+};
+
+export const encodeCursor = (sortValue: string, id: string): string =>
+  btoa(encodeURIComponent(JSON.stringify([sortValue, id])));
+
+// A cursor that does not decode starts again from the first page.
+export const decodeCursor = (cursor?: string): { sortValue: string; id: string } | null => {
+  if (!cursor) return null;
+  try {
+    const [sortValue, id] = JSON.parse(decodeURIComponent(atob(cursor)));
+    return typeof sortValue === 'string' && typeof id === 'string' ? { sortValue, id } : null;
+  } catch (e) {
+    return null;
+  }
+};
+
+// Rows come from search_users / search_activity (or the memory equivalent) with one more than `limit` asked
+// for, each carrying its sort_key; the extra row only tells whether another page follows.
+export const toPage = <T>(rows: any[], total: number, limit: number, map: (row: any) => T): Page<T> => {
+  const shown = rows.slice(0, limit);
+  const last = shown[shown.length - 1];
+  return {
+    items: shown.map(({ sort_key, rn, ...row }) => map(row)),
+    total,
+    nextCursor: rows.length > limit && last ? encodeCursor(last.sort_key, last.id) : undefined,
+  };
+};
+
+// Requests that can't be carried out (no connection, a duplicate, a missing permission) throw a DataError
+// from errors.ts; refusals the business rules foresee come back as an unsuccessful ActionResult instead.
+export interface Repository {
+  isConfigured: () => boolean;
+
+  // Auth & accounts
+  getCurrentUser: () => Promise<User | null>;
+  signIn: (email: string, password: string) => Promise<User | null>;
+  signOut: () => Promise<void>;
+  onAuthChange: (callback: (user: User | null, recovery?: boolean) => void) => () => void;
+  createUser: (input: Omit<User, '_id' | 'status'> & { password: string }) => Promise<User>;
+  setMailTransport: (transport: MailTransport) => void;
+  openedFromRecoveryLink: () => boolean;
+  requestEmailVerification: (email: string) => Promise<void>;
+  requestPasswordReset: (email: string) => Promise<void>;
+  resetPassword: (newPassword: string) => Promise<boolean>; // false when the reset link has expired
+  changePassword: (currentPassword: string, newPassword: string) => Promise<ActionResult>;
+  getAllUsers: () => Promise<User[]>;
+  searchUsers: (query: UserQuery) => Promise<UserPage>;
+  getPendingUsers: () => Promise<User[]>;
+  updateUserStatus: (userId: string, status: ReviewDecision, comment?: string) => Promise<ActionResult>;
+  resubmitAccount: (note?: string) => Promise<ActionResult>;
+  updateProfile: (patch: Partial<Pick<User, 'name' | 'profilePhoto'>>) => Promise<boolean>;
+  getUserStatusHistory: (userId: string) => Promise<StatusChange[]>;
+  setUserRole: (userId: string, role: UserRole) => Promise<boolean>;
+
+  // Events
+  getEvents: () => Promise<Event[]>;
+  getEvent: (eventId: string) => Promise<Event | null>;
+  createEvent: (evt: EventProposal) => Promise<Event>;
+  updateEvent: (eventId: string, evt: EventEdit) => Promise<ActionResult & { changes?: EventChange[]; sentForReview?: boolean }>;
+  getEventRevisions: (eventId: string) => Promise<EventRevision[]>;
+  updateEventStatus: (eventId: string, status: ReviewDecision, comment?: string) => Promise<ActionResult>;
+  resubmitEvent: (eventId: string, note?: string) => Promise<ActionResult>;
+  getEventStatusHistory: (eventId: string) => Promise<StatusChange[]>;
+  cancelEvent: (eventId: string, reason: string) => Promise<ActionResult & { voided?: number }>;
+  deleteEvent: (eventId: string) => Promise<ActionResult>;
+
+  // Venues
+  getVenues: () => Promise<Venue[]>;
+  createVenue: (venue: Omit<Venue, '_id'>) => Promise<Venue>;
+  deleteVenue: (venueId: string) => Promise<boolean>;
+  findVenueConflicts: (evt: BookingRequest, eventId?: string) => Promise<VenueConflict[]>;
+  checkBooking: (evt: BookingRequest, eventId?: string) => Promise<{ problem?: string; overlaps: VenueConflict[] }>;
+  getVenueConflicts: () => Promise<VenueConflict[]>;
+
+  // Departments & tags
+  getDepartments: () => Promise<Department[]>;
+  createDepartment: (dept: Department) => Promise<Department>;
+  deleteDepartment: (code: string) => Promise<ActionResult>;
+  getTags: () => Promise<Tag[]>;
+  createTag: (name: string) => Promise<Tag>;
+  deleteTag: (tagId: string) => Promise<boolean>;
+  setEventTags: (eventId: string, tagIds: string[]) => Promise<boolean>;
+
+  // Recurring series
+  createEventSeries: (evt: EventProposal, rule: RecurrenceRule) => Promise<{ series: EventSeries; events: Event[]; failed: { date: string; message: string }[] }>;
+  getSeries: (seriesId: string) => Promise<EventSeries | null>;
+  getSeriesEvents: (seriesId: string) => Promise<Event[]>;
+  updateFutureOccurrences: (eventId: string, evt: EventEdit) => Promise<ActionResult & { updated: number; sentForReview: number; failed: { date: string; message: string }[] }>;
+  reviewSeries: (seriesId: string, status: ReviewDecision, comment?: string) => Promise<ActionResult & { reviewed?: number; failed?: { eventId: string; message: string }[] }>;
+  registerForSeries: (userId: string, userName: string, seriesId: string) => Promise<{ registered: number; waitlisted: number; alreadyHeld: number }>;
+
+  // Gate staff
+  assignGateStaff: (eventId: string, email: string, validFrom: string, validUntil: string) => Promise<ActionResult>;
+  revokeGateStaff: (eventId: string, userId: string) => Promise<boolean>;
+  getGateStaff: (eventId: string) => Promise<StaffGrant[]>;
+
+  // Registrations & attendance
+  registerForEvent: (userId: string, userName: string, eventId: string, eventTitle: string) => Promise<Registration | null>;
+  cancelRegistration: (registrationId: string, userId: string) => Promise<PassResult>;
+  renewPasses: (userId: string) => Promise<number>;
+  promoteWaitlist: (eventId: string) => Promise<number>;
+  getEventOccupancy: (eventId?: string) => Promise<Record<string, EventOccupancy>>; // Every event's, or just eventId's
+  getRegistrationsByUser: (userId: string) => Promise<Registration[]>;
+  getRegistrationsByEvent: (eventId: string) => Promise<Registration[]>;
+  getSessionAttendance: (eventId: string) => Promise<SessionCheckIn[]>;
+  getNotifications: (userId: string) => Promise<UserNotification[]>;
+  markNotificationRead: (notificationId: string) => Promise<boolean>;
+  getAllParticipants: () => Promise<any[]>;
+  searchActivity: (query: ActivityQuery) => Promise<Page<any>>;
+  checkInUser: (qrPayload: string, eventId: string, sessionId?: string) => Promise<PassResult>;
+  checkOutUser: (qrPayload: string, eventId: string) => Promise<PassResult>;
+  replayCheckIn: (registrationId: string, eventId: string, checkInTime: string) => Promise<PassResult>;
+  getLiveAttendance: (eventId: string) => Promise<LiveAttendance>;
+  // Calls back whenever the event's check-ins or registrations change; returns the unsubscribe function.
+  onAttendanceChange: (eventId: string, callback: () => void) => () => void;
+}
+
+export const eventStart = (date: string, startTime: string): Date => new Date(`${date}T${startTime || '00:00'}`);
+
+// Admission passes stay valid for this long after the event's scheduled end.
+export const PASS_GRACE_HOURS = 6;
+
+// Pass expiry in unix seconds. A multi-session pass has to last until the final session ends.
+export const passExpiry = (evt: { date: string; end_time: string; event_sessions?: { date: string; end_time: string }[] }): number => {
+  const lastEnd = [evt, ...(evt.event_sessions || [])]
+    .map(s => eventStart(s.date, s.end_time).getTime())
+    .reduce((a, b) => Math.max(a, b));
+  return Math.floor(lastEnd / 1000) + PASS_GRACE_HOURS * 60 * 60;
+};
+
+export const bookingSlots = (evt: BookingRequest) =>
+  (evt.sessions && evt.sessions.length > 0 ? evt.sessions : [evt]).map(s => ({
+    venueId: s.venueId,
+    date: s.date,
+    startTime: s.startTime,
+    endTime: s.endTime,
+    seats: ('capacity' in s && s.capacity) || evt.maxParticipants,
+  }));
+
+// --- FAILURE CODES ---
+// Failure codes returned by the check_in_registration and check_out_registration database functions.
+export const CHECK_IN_FAILURES: Record<string, string> = {
+  ...PASS_REJECTION_MESSAGES, // From pass_rejection, which checks the signature
+  'not_authorised': 'This terminal is not authorised for the selected event.',
+  'not_found': 'Invalid registration code.',
+  'checked-in': 'Already checked in!',
+  'cancelled': 'Pass has been released.',
+  'waitlisted': 'Pass is still on the waitlist.',
+  'voided': 'Pass was voided: the workshop has been cancelled.',
+  'not_checked_in': 'Pass was never checked in.',
+  'checked_out': 'Already checked out!',
+  'session_not_found': 'Session does not belong to this event.',
+  'session_checked_in': 'Already checked in to this session!',
+  'session_full': 'Session is at capacity.',
+};
+
+// Failure codes shared by the review_event, resubmit_event, set_user_status and resubmit_account functions.
+export const REVIEW_FAILURES: Record<string, string> = {
+  'not_authorised': 'You cannot review this request.',
+  'comment_required': 'Add a comment explaining the decision.',
+  'not_found': 'The request no longer exists.',
+  'not_pending': 'This request has already been reviewed.',
+  'not_requested': 'No changes were requested.',
+  'venue_conflict': 'The venue is already booked by an approved workshop at that time.',
+  'over_capacity': 'The workshop has more seats than its venue holds.',
+};
+
+export const CREATE_FAILURES: Record<string, string> = {
+  'venue_conflict': REVIEW_FAILURES['venue_conflict'],
+  'over_capacity': REVIEW_FAILURES['over_capacity'],
+};
+
+export const UPDATE_FAILURES: Record<string, string> = {
+  'not_authorised': 'You cannot edit this workshop.',
+  'not_found': 'Workshop no longer exists.',
+  'cancelled': 'Cancelled workshops cannot be edited.',
+  'venue_conflict': REVIEW_FAILURES['venue_conflict'],
+  'over_capacity': REVIEW_FAILURES['over_capacity'],
+  'session_has_attendance': 'Sessions with recorded attendance cannot be removed.',
+  'below_seats_taken': 'More seats are already taken than the new limit allows.',
+};
+
+export const CANCEL_FAILURES: Record<string, string> = {
+  'not_authorised': 'You cannot cancel this workshop.',
+  'reason_required': 'Give a reason for the cancellation.',
+  'not_found': 'Workshop no longer exists.',
+  'cancelled': 'Workshop is already cancelled.',
+};
+
+export const GATE_STAFF_FAILURES: Record<string, string> = {
+  'not_authorised': 'You cannot assign staff to this event.',
+  'invalid_window': 'The grant has to end after it starts, and in the future.',
+  'not_found': 'No account uses that email address.',
+  'not_approved': 'That account has not been verified yet.',
+};
+
+/** Why replay_check_in turned down an offline check-in, given the registration row it returned. */
+export const replayConflict = (code: string, current: any): string => {
+  const conflicts: Record<string, string> = {
+    'not_found': 'Registration no longer exists.',
+    'not_authorised': 'This terminal was not authorised for the selected event when the pass was scanned.',
+    'outside_window': "The recorded scan time is in the future or outside the workshop's hours.",
+    'checked-in': current && `Already checked in at ${new Date(current.check_in_time).toLocaleTimeString()} by another terminal.`,
+    'cancelled': 'Pass was released before the check-in synced.',
+    'waitlisted': 'Pass was moved back to the waitlist.',
+    'voided': 'Workshop was cancelled before the check-in synced.',
+  };
+  return conflicts[code] || 'Check-in conflict.';
+};
+
+/** Why release_registration kept a pass. cutoffHours is the event's cancellation cutoff, which it returns. */
+export const releaseFailure = (code: string, cutoffHours?: number): string => {
+  const failures: Record<string, string> = {
+    'not_found': 'Registration not found.',
+    'cancelled': 'Pass already released.',
+    'checked-in': 'Passes cannot be released after check-in.',
+    'voided': CHECK_IN_FAILURES['voided'],
+    'past_cutoff': `Passes can only be released up to ${cutoffHours} hours before the event.`,
+  };
+  return failures[code] || 'Cancellation failed.';
+};
+
+// --- ROW MAPPERS ---
+export const mapUser = (data: any): User => ({
+  _id: data.id,
+  name: data.name,
+  email: data.email,
+  role: data.role,
+  uniId: data.uni_id,
+  intakeYear: data.intake_year ?? undefined,
+  department: data.department ?? undefined,
+  profilePhoto: data.profile_photo,
+  status: data.status || 'approved',
+  reviewComment: data.review_comment ?? undefined,
+});
+
+export const mapEvent = (data: any): Event => ({
+  _id: data.id,
+  title: data.title,
+  description: data.description,
+  organizerName: data.organizer_name,
+  organizerEmail: data.organizer_email,
+  organizerId: data.organizer_id,
+  department: data.department,
+  tagIds: (data.event_tags || []).map((t: any) => t.tag_id),
+  venue: data.venue,
+  venueId: data.venue_id ?? undefined,
+  date: data.date,
+  startTime: data.start_time,
+  endTime: data.end_time,
+  maxParticipants: data.max_participants,
+  cancellationCutoffHours: data.cancellation_cutoff_hours ?? 24,
+  minAttendanceMinutes: data.min_attendance_minutes ?? 0,
+  status: data.status,
+  reviewComment: data.review_comment ?? undefined,
+  createdAt: data.created_at,
+  posterUrl: data.poster_url,
+  cancellationReason: data.cancellation_reason ?? undefined,
+  cancelledAt: data.cancelled_at ?? undefined,
+  seriesId: data.series_id ?? undefined,
+  seriesIndex: data.series_index ?? undefined,
+  sessions: (data.event_sessions || [])
+    .map(mapSession)
+    .sort((a: EventSession, b: EventSession) => `${a.date}T${a.startTime}`.localeCompare(`${b.date}T${b.startTime}`)),
+});
+
+export const mapSession = (data: any): EventSession => ({
+  _id: data.id,
+  eventId: data.event_id,
+  title: data.title,
+  venue: data.venue,
+  venueId: data.venue_id ?? undefined,
+  date: data.date,
+  startTime: data.start_time,
+  endTime: data.end_time,
+  capacity: data.capacity ?? undefined,
+});
+
+export const mapVenue = (data: any): Venue => ({
+  _id: data.id,
+  name: data.name,
+  building: data.building || '',
+  capacity: data.capacity,
+});
+
+export const mapTag = (data: any): Tag => ({ _id: data.id, name: data.name });
+
+export const mapSeries = (data: any): EventSeries => ({
+  _id: data.id,
+  organizerId: data.organizer_id,
+  title: data.title,
+  rule: data.rule,
+  createdAt: data.created_at,
+});
+
+export const mapConflict = (data: any): VenueConflict => ({
+  eventId: data.event_id,
+  conflictingEventId: data.conflicting_event_id,
+  title: data.title,
+  status: data.status,
+  venueId: data.venue_id,
+  date: data.date,
+  startTime: data.start_time,
+  endTime: data.end_time,
+});
+
+export const mapStaffGrant = (data: any): StaffGrant => ({
+  eventId: data.event_id,
+  userId: data.user_id,
+  userName: data.user_name,
+  userEmail: data.user_email,
+  validFrom: data.valid_from,
+  validUntil: data.valid_until,
+  createdAt: data.created_at,
+});
+
+// Changes are recorded against database columns; the app knows them by their Event property names.
+export const mapChange = (data: any): EventChange => ({
+  field: data.field.replace(/_(\w)/g, (_: string, c: string) => c.toUpperCase()),
+  from: data.from ?? null,
+  to: data.to ?? null,
+});
+
+export const mapRevision = (data: any): EventRevision => ({
+  _id: data.id,
+  eventId: data.event_id,
+  changedByName: data.changed_by_name,
+  changes: (data.changes || []).map(mapChange),
+  sentForReview: !!data.sent_for_review,
+  createdAt: data.created_at,
+});
+
+export const mapNotification = (data: any): UserNotification => ({
+  _id: data.id,
+  userId: data.user_id,
+  eventId: data.event_id,
+  kind: data.kind,
+  title: data.title,
+  changes: (data.changes || []).map(mapChange),
+  message: data.message ?? undefined,
+  readAt: data.read_at ?? undefined,
+  createdAt: data.created_at,
+});
+
+export const mapStatusChange = (data: any): StatusChange => ({
+  _id: data.id,
+  fromStatus: data.from_status ?? undefined,
+  toStatus: data.to_status,
+  comment: data.comment ?? undefined,
+  actedByName: data.acted_by_name,
+  createdAt: data.created_at,
+});
+
+export const mapSessionCheckIn = (data: any): SessionCheckIn => ({
+  sessionId: data.session_id,
+  registrationId: data.registration_id,
+  userId: data.user_id,
+  userName: data.user_name,
+  checkInTime: data.check_in_time,
+  scannedByName: data.scanned_by_name,
+});
+
+export const mapReg = (data: any): Registration => ({
+  _id: data.id,
+  userId: data.user_id,
+  userName: data.user_name,
+  eventId: data.event_id,
+  eventTitle: data.event_title,
+  timestamp: data.timestamp,
+  status: data.status,
+  qrPayload: data.qr_payload,
+  checkInTime: data.check_in_time,
+  checkOutTime: data.check_out_time,
+  cancelledAt: data.cancelled_at,
+});
+
+export const mapLiveAttendance = (data: any): LiveAttendance => ({
+  registered: data.registered,
+  checkIns: data.check_ins || [],
+  latest: (data.latest || []).map((a: any) => ({
+    registrationId: a.registration_id,
+    userName: a.user_name,
+    uniId: a.uni_id,
+    profilePhoto: a.profile_photo,
+    checkInTime: a.check_in_time,
+  })),
+});
+
+// --- COMPOSED OPERATIONS ---
+// Operations written entirely against other repository methods, so every backend shares them.
+// `saveSeries` stores the series record itself, the one step that needs the backend.
+export const composedOperations = (
+  repo: () => Repository,
+  saveSeries: (organizerId: string, title: string, rule: RecurrenceRule) => Promise<EventSeries>
+): Pick<Repository, 'checkBooking' | 'createEventSeries' | 'updateFutureOccurrences' | 'registerForSeries'> => ({
+  /**
+   * Checks a booking before it is saved. `problem` is set when a slot overfills its venue or overlaps an
+   * approved workshop; `overlaps` lists clashes with proposals that are still under review.
+   */
+  checkBooking: async (evt, eventId) => {
+    const [venues, conflicts] = await Promise.all([repo().getVenues(), repo().findVenueConflicts(evt, eventId)]);
+    for (const slot of bookingSlots(evt)) {
+      const venue = venues.find(v => v._id === slot.venueId);
+      if (venue && slot.seats > venue.capacity) {
+        return { problem: `${venue.name} seats ${venue.capacity}, but ${slot.seats} seats were requested.`, overlaps: [] };
+      }
+    }
+    const clash = conflicts.find(c => c.status === 'approved');
+    if (clash) {
+      const venue = venues.find(v => v._id === clash.venueId);
+      return { problem: `${venue?.name || 'The venue'} is already booked for "${clash.title}" on ${clash.date}, ${clash.startTime}-${clash.endTime}.`, overlaps: [] };
+    }
+    return { overlaps: conflicts };
+  },
+
+  /**
+   * Proposes one pending workshop per date the rule produces, linked through a new series. Sessions move
+   * with their occurrence. Every booking is checked before anything is written; occurrences that still fail
+   * to save are reported in `failed` while the rest of the series stands.
+   */
+  createEventSeries: async (evt, rule) => {
+    const problem = recurrenceProblem(evt.date, rule);
+    if (problem) throw new ValidationError(problem);
+
+    const occurrences = expandRecurrence(evt.date, rule).map(date => {
+      const offset = daysBetween(evt.date, date);
+      return { ...evt, date, sessions: (evt.sessions || []).map(s => ({ ...s, date: shiftDate(s.date, offset) })) };
+    });
+    for (const occurrence of occurrences) {
+      const { problem } = await repo().checkBooking(occurrence);
+      if (problem) throw new ConflictError(`${occurrence.date}: ${problem}`);
+    }
+
+    const series = await saveSeries(evt.organizerId, evt.title, rule);
+    const events: Event[] = [];
+    const failed: { date: string; message: string }[] = [];
+    for (const [i, occurrence] of occurrences.entries()) {
+      try {
+        events.push(await repo().createEvent({ ...occurrence, seriesId: series._id, seriesIndex: i + 1 }));
+      } catch (err) {
+        failed.push({ date: occurrence.date, message: err?.message || 'Could not be created.' });
+      }
+    }
+    return { series, events, failed };
+  },
+
+  /**
+   * Applies an edit of one occurrence to it and every later occurrence that isn't cancelled. A date change
+   * moves each occurrence by the same number of days; sessions are laid out relative to each occurrence's date.
+   */
+  updateFutureOccurrences: async (eventId, evt) => {
+    const anchor = await repo().getEvent(eventId);
+    if (!anchor?.seriesId) return { success: false, message: 'This workshop is not part of a series.', updated: 0, sentForReview: 0, failed: [] };
+
+    const shift = evt.date ? daysBetween(anchor.date, evt.date) : 0;
+    const occurrences = (await repo().getSeriesEvents(anchor.seriesId))
+      .filter(o => o.seriesIndex >= anchor.seriesIndex && o.status !== 'cancelled');
+
+    let updated = 0, sentForReview = 0;
+    const failed: { date: string; message: string }[] = [];
+    for (const o of occurrences) {
+      const offset = daysBetween(anchor.date, o.date);
+      const edit: EventEdit = o._id === eventId ? evt : {
+        ...evt,
+        date: shiftDate(o.date, shift),
+        // Sessions are matched by position so each occurrence keeps its own session ids and attendance.
+        sessions: evt.sessions?.map((s, i) => ({ ...s, _id: o.sessions[i]?._id, date: shiftDate(s.date, offset) })),
+      };
+      const res = await repo().updateEvent(o._id, edit);
+      if (!res.success) {
+        failed.push({ date: o.date, message: res.message });
+        continue;
+      }
+      if (res.changes.length > 0) updated++;
+      if (res.sentForReview) sentForReview++;
+    }
+    return { success: failed.length === 0, updated, sentForReview, failed };
+  },
+
+  /** Takes a pass for every upcoming approved occurrence the student doesn't already hold one for. */
+  registerForSeries: async (userId, userName, seriesId) => {
+    const today = new Date().toISOString().slice(0, 10);
+    const occurrences = (await repo().getSeriesEvents(seriesId)).filter(o => o.status === 'approved' && o.date >= today);
+    const result = { registered: 0, waitlisted: 0, alreadyHeld: 0 };
+    for (const o of occurrences) {
+      const reg = await repo().registerForEvent(userId, userName, o._id, o.title);
+      if (!reg) result.alreadyHeld++;
+      else if (reg.status === 'waitlisted') result.waitlisted++;
+      else result.registered++;
+    }
+    return result;
+  },
+});
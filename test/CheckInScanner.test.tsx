@@ -0,0 +1,106 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { fireEvent, render, screen } from '@testing-library/react';
+import { CheckInScanner } from '../index';
+import { DB } from '../db';
+import { Event, Registration } from '../types';
+import { enrolOrganizer, enrolStudent, publishWorkshop, PASSWORD } from './fixtures';
+
+// Whatever `decoded` holds is what the camera "sees" on the next frame.
+const camera = vi.hoisted(() => ({ decoded: null as string | null }));
+
+vi.mock('https://cdn.jsdelivr.net/npm/jsqr@1.4.0/+esm', () => ({
+  default: () => (camera.decoded ? { data: camera.decoded } : null),
+}));
+
+// The offline queue lives in IndexedDB, which jsdom does not provide; these tests stay online.
+vi.mock('../offlineCheckIn', () => ({
+  OfflineCheckIn: { pendingCount: async () => 0, preload: async () => 0, checkIn: async () => ({ success: false }), sync: async () => ({ synced: 0, conflicts: [] }) },
+}));
+
+const stopTrack = vi.fn();
+
+beforeEach(() => {
+  camera.decoded = null;
+  Object.defineProperty(navigator, 'mediaDevices', {
+    configurable: true,
+    value: { getUserMedia: async () => ({ getTracks: () => [{ stop: stopTrack }] }) },
+  });
+  vi.spyOn(HTMLMediaElement.prototype, 'play').mockResolvedValue(undefined);
+  vi.spyOn(HTMLMediaElement.prototype, 'readyState', 'get').mockReturnValue(HTMLMediaElement.HAVE_ENOUGH_DATA);
+  vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue({
+    drawImage: () => {},
+    getImageData: () => ({ data: new Uint8ClampedArray(4), width: 1, height: 1 }),
+  } as any);
+});
+
+// An organizer's terminal for one of their workshops, and a student's pass for it.
+const setUp = async (): Promise<{ event: Event; pass: Registration }> => {
+  const organizer = await enrolOrganizer(DB);
+  const event = await publishWorkshop(DB, organizer, { title: `Workshop ${Math.random().toString(36).slice(2, 8)}` });
+  const student = await enrolStudent(DB, 'Kamala Silva');
+  const pass = await DB.registerForEvent(student._id, student.name, event._id, event.title);
+  await DB.signOut();
+  await DB.signIn(organizer.email, PASSWORD);
+  return { event, pass };
+};
+
+const scan = async (event: Event, payload: string) => {
+  camera.decoded = payload;
+  fireEvent.click(screen.getByText(event.title));
+  fireEvent.click(screen.getByText('Activate Camera'));
+};
+
+describe('CheckInScanner', () => {
+  it('admits a valid pass and shows who it belongs to', async () => {
+    const { event, pass } = await setUp();
+    render(<CheckInScanner events={[event]} onBack={vi.fn()} />);
+
+    await scan(event, pass.qrPayload);
+
+    expect(await screen.findByText('Verified')).toBeTruthy();
+    expect(screen.getByText('Kamala Silva')).toBeTruthy();
+    expect((await DB.getRegistrationsByEvent(event._id))[0].status).toBe('checked-in');
+  });
+
+  it('denies a code that is not a pass', async () => {
+    const { event } = await setUp();
+    render(<CheckInScanner events={[event]} onBack={vi.fn()} />);
+
+    await scan(event, 'https://example.com/not-a-pass');
+
+    expect(await screen.findByText('Access Denied')).toBeTruthy();
+    expect(screen.getByText('Forged or tampered pass.')).toBeTruthy();
+  });
+
+  it('points a pass for another workshop to the right venue', async () => {
+    const { event, pass } = await setUp();
+    const other = await publishWorkshop(DB, (await DB.getCurrentUser())!, { title: `Workshop ${Math.random().toString(36).slice(2, 8)}` });
+    render(<CheckInScanner events={[event, other]} onBack={vi.fn()} />);
+
+    await scan(other, pass.qrPayload);
+
+    expect(await screen.findByText('Wrong Venue')).toBeTruthy();
+  });
+
+  it('denies a pass scanned a second time', async () => {
+    const { event, pass } = await setUp();
+    render(<CheckInScanner events={[event]} onBack={vi.fn()} />);
+    await scan(event, pass.qrPayload);
+    await screen.findByText('Verified');
+
+    fireEvent.click(screen.getByText('Next Admission'));
+
+    expect(await screen.findByText('Access Denied')).toBeTruthy();
+    expect(screen.getByText('Kamala Silva')).toBeTruthy();
+  });
+
+  it('stops the camera once a code is read', async () => {
+    const { event, pass } = await setUp();
+    render(<CheckInScanner events={[event]} onBack={vi.fn()} />);
+
+    await scan(event, pass.qrPayload);
+    await screen.findByText('Verified');
+
+    expect(stopTrack).toHaveBeenCalled();
+  });
+});
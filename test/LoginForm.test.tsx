@@ -0,0 +1,41 @@
+import { describe, expect, it, vi } from 'vitest';
+import { fireEvent, render, screen } from '@testing-library/react';
+import { LoginForm } from '../index';
+import { DB } from '../db';
+import { DEMO_ACCOUNTS } from '../memoryDb';
+import { PASSWORD } from './fixtures';
+
+const signIn = (email: string, password: string) => {
+  const onLogin = vi.fn();
+  const { container } = render(<LoginForm onLogin={onLogin} setView={vi.fn()} />);
+  fireEvent.change(container.querySelector('input[type="email"]'), { target: { value: email } });
+  fireEvent.change(container.querySelector('input[type="password"]'), { target: { value: password } });
+  fireEvent.click(screen.getByText('Sign In'));
+  return onLogin;
+};
+
+describe('LoginForm', () => {
+  it('hands approved accounts to the app', async () => {
+    const onLogin = signIn(DEMO_ACCOUNTS[0].email, DEMO_ACCOUNTS[0].password);
+
+    await vi.waitFor(() => expect(onLogin).toHaveBeenCalledWith(expect.objectContaining({ role: 'admin', status: 'approved' })));
+  });
+
+  it('reports a wrong password', async () => {
+    const onLogin = signIn(DEMO_ACCOUNTS[0].email, 'not-the-password');
+
+    expect(await screen.findByText('Invalid institutional credentials.')).toBeTruthy();
+    expect(onLogin).not.toHaveBeenCalled();
+  });
+
+  it('keeps organizers awaiting verification out', async () => {
+    await DB.createUser({ name: 'Pending Organizer', email: 'pending.organizer@cmb.ac.lk', role: 'organizer', uniId: 'STAFF/AGT/900', password: PASSWORD });
+    await DB.signOut();
+
+    const onLogin = signIn('pending.organizer@cmb.ac.lk', PASSWORD);
+
+    expect(await screen.findByText('Account pending faculty verification.')).toBeTruthy();
+    expect(onLogin).not.toHaveBeenCalled();
+    expect(await DB.getCurrentUser()).toBeNull();
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, expect, it, vi } from 'vitest';
+import { fireEvent, render, screen } from '@testing-library/react';
+import { StudentDashboard } from '../index';
+import { DB } from '../db';
+import { toast } from '../toast';
+import { enrolOrganizer, enrolStudent, proposeWorkshop, publishWorkshop } from './fixtures';
+
+describe('StudentDashboard', () => {
+  it('lists approved workshops but not ones still under review', async () => {
+    const organizer = await enrolOrganizer(DB);
+    await publishWorkshop(DB, organizer, { title: 'Cloud Basics' });
+    await proposeWorkshop(DB, organizer, { title: 'Unreviewed Draft' });
+    const student = await enrolStudent(DB);
+
+    render(<StudentDashboard user={student} />);
+
+    expect(await screen.findByText('Cloud Basics')).toBeTruthy();
+    expect(screen.queryByText('Unreviewed Draft')).toBeNull();
+  });
+
+  it('narrows the list as the student searches', async () => {
+    const organizer = await enrolOrganizer(DB);
+    await publishWorkshop(DB, organizer, { title: 'Soil Chemistry' });
+    await publishWorkshop(DB, organizer, { title: 'Robotics Lab' });
+    const student = await enrolStudent(DB);
+    render(<StudentDashboard user={student} />);
+    await screen.findByText('Soil Chemistry');
+
+    fireEvent.change(screen.getByPlaceholderText('Search workshops'), { target: { value: 'robot' } });
+
+    expect(screen.getByText('Robotics Lab')).toBeTruthy();
+    expect(screen.queryByText('Soil Chemistry')).toBeNull();
+  });
+
+  it('issues a pass when a workshop card is clicked', async () => {
+    const event = await publishWorkshop(DB, await enrolOrganizer(DB), { title: 'Data Visualisation', maxParticipants: 3 });
+    const student = await enrolStudent(DB);
+    render(<StudentDashboard user={student} />);
+
+    fireEvent.click(await screen.findByText('Data Visualisation'));
+
+    expect(await screen.findByText('2 of 3 seats left')).toBeTruthy();
+    expect((await DB.getRegistrationsByUser(student._id)).map(r => [r.eventId, r.status])).toEqual([[event._id, 'registered']]);
+  });
+
+  it('asks students to verify their email before registering', async () => {
+    await publishWorkshop(DB, await enrolOrganizer(DB), { title: 'Network Security' });
+    const student = await enrolStudent(DB);
+    const error = vi.spyOn(toast, 'error');
+    render(<StudentDashboard user={{ ...student, emailVerified: false }} />);
+
+    fireEvent.click(await screen.findByText('Network Security'));
+
+    expect(error).toHaveBeenCalledWith('Verify your email address before registering for workshops.');
+    expect(await DB.getRegistrationsByUser(student._id)).toHaveLength(0);
+  });
+});
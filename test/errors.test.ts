@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { toDataError, describeError, ConflictError, NetworkError, NotConfiguredError, PermissionError, ValidationError, DataError } from '../errors';
+import { EnrollmentError } from '../enrollment';
+
+describe('toDataError', () => {
+  it('sorts Postgres and PostgREST failures by what the user can do about them', () => {
+    expect(toDataError({ code: '23505', message: 'duplicate key' }, 'Could not add the tag.')).toBeInstanceOf(ConflictError);
+    expect(toDataError({ code: '42501', message: 'permission denied' }, 'Could not load accounts.')).toBeInstanceOf(PermissionError);
+    expect(toDataError({ code: '42P01', message: 'relation "events" does not exist' }, 'Could not load workshops.')).toBeInstanceOf(NotConfiguredError);
+    expect(toDataError({ code: '22P02', message: 'invalid input syntax' }, 'Update failed.')).toBeInstanceOf(ValidationError);
+  });
+
+  it('treats a failed fetch as a network error worth retrying', () => {
+    const error = toDataError(new TypeError('Failed to fetch'), 'Could not load workshops.');
+
+    expect(error).toBeInstanceOf(NetworkError);
+    expect(error.retryable).toBe(true);
+  });
+
+  it('keeps the action message for anything it does not recognise', () => {
+    const cause = { code: 'XX000', message: 'internal error' };
+    const error = toDataError(cause, 'Review failed.');
+
+    expect(error).toMatchObject({ kind: 'unexpected', message: 'Review failed.', retryable: false, cause });
+  });
+
+  it('passes DataErrors through untouched', () => {
+    const error = new ConflictError('A tag called "AI" already exists.');
+
+    expect(toDataError(error, 'Could not add the tag.')).toBe(error);
+  });
+});
+
+describe('describeError', () => {
+  it('shows DataError messages and falls back for anything else', () => {
+    expect(describeError(new EnrollmentError({ uniId: 'This University ID is already enrolled.' }))).toBe('This University ID is already enrolled.');
+    expect(describeError(new Error('undefined is not a function'), 'Registration failed.')).toBe('Registration failed.');
+    expect(new EnrollmentError({})).toBeInstanceOf(DataError);
+  });
+});
@@ -0,0 +1,55 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { ExportService } from '../index';
+import { toast } from '../toast';
+
+// jsdom's Blob predates Blob.text(), but its FileReader can still read one back.
+const readText = (blob: Blob) => new Promise<string>(resolve => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.readAsText(blob);
+});
+
+describe('ExportService.downloadCSV', () => {
+  let blobs: Blob[];
+  let downloads: string[];
+
+  beforeEach(() => {
+    blobs = [];
+    downloads = [];
+    // jsdom has no object URLs and cannot follow a download link, so both are captured instead.
+    URL.createObjectURL = (blob: Blob) => { blobs.push(blob); return 'blob:test'; };
+    vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(function (this: HTMLAnchorElement) {
+      downloads.push(this.getAttribute('download'));
+    });
+  });
+
+  it('writes a header row and one quoted row per record', async () => {
+    ExportService.downloadCSV([
+      { name: 'Kamal', uniId: '2021/ICT/001', status: 'checked-in' },
+      { name: 'Saman', uniId: '2021/ICT/002', status: 'registered' },
+    ], 'attendance');
+
+    expect(await readText(blobs[0])).toBe([
+      'name,uniId,status',
+      '"Kamal","2021/ICT/001","checked-in"',
+      '"Saman","2021/ICT/002","registered"',
+    ].join('\n'));
+    expect(blobs[0].type).toBe('text/csv;charset=utf-8;');
+    expect(downloads).toEqual([`attendance_${new Date().toISOString().split('T')[0]}.csv`]);
+  });
+
+  it('leaves missing values blank', async () => {
+    ExportService.downloadCSV([{ name: 'Kamal', checkInTime: null, checkOutTime: undefined }], 'attendance');
+
+    expect(await readText(blobs[0])).toBe('name,checkInTime,checkOutTime\n"Kamal","",""');
+  });
+
+  it('tells the user when there is nothing to export', () => {
+    const info = vi.spyOn(toast, 'info');
+
+    ExportService.downloadCSV([], 'attendance');
+
+    expect(info).toHaveBeenCalledWith('No data to export');
+    expect(blobs).toHaveLength(0);
+  });
+});
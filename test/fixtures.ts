@@ -0,0 +1,59 @@
+// --- TEST FIXTURES ---
+// Walks a repository through the same steps the UI takes: enrol, get approved, propose, get reviewed.
+
+import { Repository } from '../repository';
+import { DEMO_ACCOUNTS } from '../memoryDb';
+import { Event, User } from '../types';
+
+export const PASSWORD = 'password1';
+const ADMIN = DEMO_ACCOUNTS[0];
+
+let enrolled = 0;
+
+// Every fixture account gets a fresh email and University ID, so tests can share one repository.
+const nextNumber = () => String(++enrolled).padStart(3, '0');
+
+export const signInAsAdmin = async (db: Repository): Promise<User> => {
+  await db.signOut();
+  return db.signIn(ADMIN.email, ADMIN.password);
+};
+
+/** A student account, left signed in. */
+export const enrolStudent = async (db: Repository, name = 'Test Student'): Promise<User> => {
+  await db.signOut();
+  const n = nextNumber();
+  return db.createUser({ name, email: `student${n}@cmb.ac.lk`, role: 'student', uniId: `2021/ICT/${n}`, password: PASSWORD });
+};
+
+/** An approved organizer account, left signed in. */
+export const enrolOrganizer = async (db: Repository, name = 'Test Organizer'): Promise<User> => {
+  await db.signOut();
+  const n = nextNumber();
+  const email = `organizer${n}@cmb.ac.lk`;
+  const pending = await db.createUser({ name, email, role: 'organizer', uniId: `STAFF/ICT/${n}`, password: PASSWORD });
+  await signInAsAdmin(db);
+  await db.updateUserStatus(pending._id, 'approved');
+  await db.signOut();
+  return db.signIn(email, PASSWORD);
+};
+
+/** A workshop a month from now, proposed by `organizer` (who must be signed in) and awaiting review. */
+export const proposeWorkshop = (db: Repository, organizer: User, overrides: Partial<Event> = {}): Promise<Event> => {
+  const date = new Date(Date.now() + 30 * 86400000).toISOString().slice(0, 10);
+  return db.createEvent({
+    title: 'Intro to Testing', description: 'Writing tests that catch regressions.',
+    organizerName: organizer.name, organizerEmail: organizer.email, organizerId: organizer._id,
+    department: 'ICT', tagIds: [], venue: 'Lab 1', date, startTime: '10:00', endTime: '12:00',
+    maxParticipants: 10, cancellationCutoffHours: 24, minAttendanceMinutes: 0, ...overrides,
+  });
+};
+
+/** Like proposeWorkshop, but approved by the admin. `organizer` is signed back in afterwards. */
+export const publishWorkshop = async (db: Repository, organizer: User, overrides: Partial<Event> = {}): Promise<Event> => {
+  const event = await proposeWorkshop(db, organizer, overrides);
+  await signInAsAdmin(db);
+  await db.updateEventStatus(event._id, 'approved');
+  await db.signOut();
+  await db.signIn(organizer.email, PASSWORD);
+  return db.getEvent(event._id);
+};
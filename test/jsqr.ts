@@ -0,0 +1,4 @@
+// Stand-in for the CDN build of jsQR. Finds nothing unless a test mocks it.
+const jsQR = (_data: Uint8ClampedArray, _width: number, _height: number): { data: string } | null => null;
+
+export default jsQR;
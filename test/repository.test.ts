@@ -0,0 +1,384 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { createMemoryRepository, DEMO_ACCOUNTS } from '../memoryDb';
+import { MAX_PAGE_SIZE, Repository } from '../repository';
+import { EnrollmentError } from '../enrollment';
+import { generatePassSecret, inspectPassToken, signPassToken } from '../passToken';
+import { ConflictError, PermissionError } from '../errors';
+import { enrolOrganizer, enrolStudent, proposeWorkshop, publishWorkshop, signInAsAdmin, PASSWORD } from './fixtures';
+
+let db: Repository;
+
+beforeEach(() => {
+  db = createMemoryRepository({ accounts: DEMO_ACCOUNTS });
+});
+
+describe('createUser', () => {
+  it('approves students straight away and derives intake and department from the University ID', async () => {
+    const student = await db.createUser({ name: 'Nimal', email: ' Nimal@CMB.ac.lk ', role: 'student', uniId: '2022/bst/014', password: PASSWORD });
+
+    expect(student).toMatchObject({ role: 'student', status: 'approved', email: 'nimal@cmb.ac.lk', uniId: '2022/BST/014', intakeYear: 2022, department: 'BST' });
+    expect((await db.getCurrentUser())?._id).toBe(student._id);
+  });
+
+  it('holds organizers for faculty verification', async () => {
+    const organizer = await db.createUser({ name: 'Dr. Perera', email: 'perera@cmb.ac.lk', role: 'organizer', uniId: 'STAFF/EVT/002', password: PASSWORD });
+
+    expect(organizer).toMatchObject({ role: 'organizer', status: 'pending', department: 'EVT' });
+  });
+
+  it('rejects an email or University ID that is already enrolled', async () => {
+    await db.createUser({ name: 'First', email: 'first@cmb.ac.lk', role: 'student', uniId: '2021/ICT/001', password: PASSWORD });
+    await db.signOut();
+
+    await expect(db.createUser({ name: 'Again', email: 'first@cmb.ac.lk', role: 'student', uniId: '2021/ICT/002', password: PASSWORD }))
+      .rejects.toMatchObject({ fields: { email: expect.any(String) } });
+    await expect(db.createUser({ name: 'Copy', email: 'copy@cmb.ac.lk', role: 'student', uniId: '2021/ICT/001', password: PASSWORD }))
+      .rejects.toBeInstanceOf(EnrollmentError);
+  });
+});
+
+describe('registerForEvent', () => {
+  it('returns null instead of issuing a second pass to the same student', async () => {
+    const event = await publishWorkshop(db, await enrolOrganizer(db));
+    const student = await enrolStudent(db);
+
+    const first = await db.registerForEvent(student._id, student.name, event._id, event.title);
+    const second = await db.registerForEvent(student._id, student.name, event._id, event.title);
+
+    expect(first?.status).toBe('registered');
+    expect(second).toBeNull();
+    expect(await db.getRegistrationsByUser(student._id)).toHaveLength(1);
+  });
+
+  it('puts students on the waitlist once the workshop is full', async () => {
+    const event = await publishWorkshop(db, await enrolOrganizer(db), { maxParticipants: 1 });
+    const first = await enrolStudent(db);
+    await db.registerForEvent(first._id, first.name, event._id, event.title);
+    const second = await enrolStudent(db);
+
+    const pass = await db.registerForEvent(second._id, second.name, event._id, event.title);
+
+    expect(pass?.status).toBe('waitlisted');
+  });
+
+  it('issues one pass when the same registration arrives twice at once', async () => {
+    const event = await publishWorkshop(db, await enrolOrganizer(db));
+    const student = await enrolStudent(db);
+
+    const passes = await Promise.all([1, 2].map(() => db.registerForEvent(student._id, student.name, event._id, event.title)));
+
+    expect(passes.filter(Boolean)).toHaveLength(1);
+    expect(await db.getEventOccupancy(event._id)).toEqual({ [event._id]: { seatsTaken: 1, waitlist: [] } });
+  });
+});
+
+describe('cancelRegistration', () => {
+  it('releases a seat to the oldest waitlisted student', async () => {
+    const event = await publishWorkshop(db, await enrolOrganizer(db), { maxParticipants: 1 });
+    const holder = await enrolStudent(db);
+    const pass = await db.registerForEvent(holder._id, holder.name, event._id, event.title);
+    const waiting = await enrolStudent(db);
+    await db.registerForEvent(waiting._id, waiting.name, event._id, event.title);
+    await db.signOut();
+    await db.signIn(holder.email, PASSWORD);
+
+    const result = await db.cancelRegistration(pass._id, holder._id);
+
+    expect(result).toMatchObject({ success: true, registration: { status: 'cancelled' } });
+    expect(await db.getEventOccupancy(event._id)).toEqual({ [event._id]: { seatsTaken: 1, waitlist: [] } });
+  });
+
+  it('keeps the pass once the cancellation cutoff has passed', async () => {
+    const tomorrow = new Date(Date.now() + 86400000).toISOString().slice(0, 10);
+    const event = await publishWorkshop(db, await enrolOrganizer(db), { date: tomorrow, cancellationCutoffHours: 48 });
+    const student = await enrolStudent(db);
+    const pass = await db.registerForEvent(student._id, student.name, event._id, event.title);
+
+    const result = await db.cancelRegistration(pass._id, student._id);
+
+    expect(result).toMatchObject({ success: false, code: 'past_cutoff', message: 'Passes can only be released up to 48 hours before the event.' });
+    expect((await db.getRegistrationsByUser(student._id))[0].status).toBe('registered');
+  });
+});
+
+describe('renewPasses', () => {
+  it('re-signs a pass once its workshop moves, and only then', async () => {
+    const organizer = await enrolOrganizer(db);
+    const event = await publishWorkshop(db, organizer);
+    const student = await enrolStudent(db);
+    const pass = await db.registerForEvent(student._id, student.name, event._id, event.title);
+    expect(await db.renewPasses(student._id)).toBe(0);
+
+    await db.signOut();
+    await db.signIn(organizer.email, PASSWORD);
+    await db.updateEvent(event._id, { date: new Date(Date.now() + 40 * 86400000).toISOString().slice(0, 10) });
+    await db.signOut();
+    await db.signIn(student.email, PASSWORD);
+
+    expect(await db.renewPasses(student._id)).toBe(1);
+    const [renewed] = await db.getRegistrationsByUser(student._id);
+    expect(inspectPassToken(renewed.qrPayload).claims.exp).toBeGreaterThan(inspectPassToken(pass.qrPayload).claims.exp);
+    expect(await db.renewPasses(student._id)).toBe(0);
+  });
+});
+
+describe('createEvent', () => {
+  it('refuses a proposal that seats more than its venue holds', async () => {
+    await signInAsAdmin(db);
+    const lab = await db.createVenue({ name: 'Lab 3', building: 'Science', capacity: 30 });
+    const organizer = await enrolOrganizer(db);
+
+    await expect(proposeWorkshop(db, organizer, { venue: lab.name, venueId: lab._id, maxParticipants: 500 }))
+      .rejects.toThrow('Lab 3 seats 30, but 500 seats were requested.');
+    expect(await db.getEvents()).toEqual([]);
+  });
+});
+
+describe('updateEvent', () => {
+  it('will not lower the seat limit below the passes already issued', async () => {
+    const organizer = await enrolOrganizer(db);
+    const event = await publishWorkshop(db, organizer, { maxParticipants: 2 });
+    for (let i = 0; i < 2; i++) {
+      const student = await enrolStudent(db);
+      await db.registerForEvent(student._id, student.name, event._id, event.title);
+    }
+    await db.signOut();
+    await db.signIn(organizer.email, PASSWORD);
+
+    expect(await db.updateEvent(event._id, { maxParticipants: 1 })).toMatchObject({ success: false, message: 'More seats are already taken than the new limit allows.' });
+    expect((await db.getEvent(event._id)).maxParticipants).toBe(2);
+  });
+
+  it('saves new tags with the edit, and none of an edit that names an unknown tag', async () => {
+    await signInAsAdmin(db);
+    const tag = await db.createTag('Robotics');
+    const organizer = await enrolOrganizer(db);
+    const event = await publishWorkshop(db, organizer);
+
+    expect(await db.updateEvent(event._id, { tagIds: [tag._id] })).toMatchObject({ success: true });
+    expect((await db.getEvent(event._id)).tagIds).toEqual([tag._id]);
+
+    await expect(db.updateEvent(event._id, { title: 'Renamed', tagIds: ['no-such-tag'] })).rejects.toBeInstanceOf(ConflictError);
+    expect(await db.getEvent(event._id)).toMatchObject({ title: event.title, tagIds: [tag._id] });
+  });
+});
+
+describe('deleteEvent', () => {
+  it('refuses to delete a workshop that has registrations', async () => {
+    const event = await publishWorkshop(db, await enrolOrganizer(db));
+    const student = await enrolStudent(db);
+    await db.registerForEvent(student._id, student.name, event._id, event.title);
+    await signInAsAdmin(db);
+
+    const result = await db.deleteEvent(event._id);
+
+    expect(result).toMatchObject({ success: false, message: 'Workshops with registrations can only be cancelled.' });
+    expect((await db.getEvent(event._id))._id).toBe(event._id);
+  });
+
+  it('deletes a workshop nobody has registered for', async () => {
+    const event = await publishWorkshop(db, await enrolOrganizer(db));
+    await signInAsAdmin(db);
+
+    expect(await db.deleteEvent(event._id)).toEqual({ success: true });
+    expect((await db.getEvents()).map(e => e._id)).not.toContain(event._id);
+  });
+});
+
+describe('checkInUser', () => {
+  const issuePass = async () => {
+    const organizer = await enrolOrganizer(db);
+    const event = await publishWorkshop(db, organizer);
+    const student = await enrolStudent(db);
+    const pass = await db.registerForEvent(student._id, student.name, event._id, event.title);
+    await db.signOut();
+    await db.signIn(organizer.email, PASSWORD);
+    return { event, pass };
+  };
+
+  it('admits a valid pass and records the participant', async () => {
+    const { event, pass } = await issuePass();
+
+    const result = await db.checkInUser(pass.qrPayload, event._id);
+
+    expect(result.success).toBe(true);
+    expect(result.registration?.status).toBe('checked-in');
+    expect((await db.getRegistrationsByEvent(event._id))[0].checkInTime).toBeTruthy();
+  });
+
+  it('turns away a pass that was already used', async () => {
+    const { event, pass } = await issuePass();
+    await db.checkInUser(pass.qrPayload, event._id);
+
+    const result = await db.checkInUser(pass.qrPayload, event._id);
+
+    expect(result).toMatchObject({ success: false, code: 'checked-in', message: 'Already checked in!' });
+  });
+
+  it('rejects tampered passes and passes for another event', async () => {
+    const { event, pass } = await issuePass();
+    const other = await publishWorkshop(db, (await db.getCurrentUser())!, { title: 'Another Workshop' });
+
+    expect(await db.checkInUser(`${pass.qrPayload}x`, event._id)).toMatchObject({ success: false, message: 'Forged or tampered pass.' });
+    expect(await db.checkInUser('not a pass', event._id)).toMatchObject({ success: false, message: 'Forged or tampered pass.' });
+    expect(await db.checkInUser(pass.qrPayload, other._id)).toMatchObject({ success: false, code: 'wrong-event', message: 'Wrong venue: this pass was issued for a different event.' });
+  });
+
+  it('rejects a well-formed pass that the store did not sign', async () => {
+    const { event, pass } = await issuePass();
+    const claims = inspectPassToken(pass.qrPayload).claims;
+
+    const minted = await signPassToken({ ...claims, exp: claims.exp + 3600 }, generatePassSecret());
+
+    expect(await db.checkInUser(minted, event._id)).toMatchObject({ success: false, code: 'forged' });
+  });
+
+  it('refuses terminals that are not authorised for the event', async () => {
+    const { event, pass } = await issuePass();
+    await enrolStudent(db);
+
+    const result = await db.checkInUser(pass.qrPayload, event._id);
+
+    expect(result).toMatchObject({ success: false, message: 'This terminal is not authorised for the selected event.' });
+  });
+});
+
+describe('replayCheckIn', () => {
+  const today = new Date().toLocaleDateString('en-CA');
+  const allDay = { date: today, startTime: '00:00', endTime: '23:59' };
+
+  it('admits an offline scan only for the event the terminal was checking', async () => {
+    const organizer = await enrolOrganizer(db);
+    const event = await publishWorkshop(db, organizer, allDay);
+    const other = await publishWorkshop(db, organizer, { ...allDay, title: 'Another Workshop' });
+    const student = await enrolStudent(db);
+    const pass = await db.registerForEvent(student._id, student.name, event._id, event.title);
+    await db.signOut();
+    await db.signIn(organizer.email, PASSWORD);
+    const scannedAt = new Date(Date.now() - 60000).toISOString();
+
+    expect(await db.replayCheckIn(pass._id, other._id, scannedAt)).toMatchObject({ success: false, code: 'not_found' });
+    expect(await db.replayCheckIn(pass._id, event._id, scannedAt)).toMatchObject({ success: true, registration: { checkInTime: scannedAt } });
+  });
+
+  it('turns down scan times in the future or outside the workshop hours', async () => {
+    const organizer = await enrolOrganizer(db);
+    const event = await publishWorkshop(db, organizer, allDay);
+    const later = await publishWorkshop(db, organizer, { title: 'Next Month' });
+    const student = await enrolStudent(db);
+    const pass = await db.registerForEvent(student._id, student.name, event._id, event.title);
+    const early = await db.registerForEvent(student._id, student.name, later._id, later.title);
+    await db.signOut();
+    await db.signIn(organizer.email, PASSWORD);
+
+    expect(await db.replayCheckIn(pass._id, event._id, new Date(Date.now() + 3600000).toISOString())).toMatchObject({ success: false, code: 'outside_window' });
+    expect(await db.replayCheckIn(early._id, later._id, new Date().toISOString())).toMatchObject({ success: false, code: 'outside_window' });
+  });
+});
+
+describe('typed errors', () => {
+  it('throws a PermissionError when the account lacks the capability', async () => {
+    await enrolStudent(db);
+
+    await expect(db.createVenue({ name: 'Hall A', building: 'Main', capacity: 40 })).rejects.toBeInstanceOf(PermissionError);
+  });
+
+  it('throws a ConflictError for a duplicate name', async () => {
+    await signInAsAdmin(db);
+    await db.createTag('Robotics');
+
+    await expect(db.createTag('Robotics')).rejects.toBeInstanceOf(ConflictError);
+  });
+});
+
+describe('searchUsers', () => {
+  it('pages through matches with a cursor, without repeating or skipping anyone', async () => {
+    for (const name of ['Amal', 'Bimal', 'Chamal', 'Dinesh', 'Esala']) await enrolStudent(db, name);
+    await signInAsAdmin(db);
+
+    const first = await db.searchUsers({ role: 'student', limit: 2 });
+    const second = await db.searchUsers({ role: 'student', limit: 2, cursor: first.nextCursor });
+    const last = await db.searchUsers({ role: 'student', limit: 2, cursor: second.nextCursor });
+
+    expect([...first.items, ...second.items, ...last.items].map(u => u.name)).toEqual(['Amal', 'Bimal', 'Chamal', 'Dinesh', 'Esala']);
+    expect(first.total).toBe(5);
+    expect(last.nextCursor).toBeUndefined();
+  });
+
+  it('searches name, University ID and email, and counts matches per role', async () => {
+    const student = await enrolStudent(db, 'Kasun Perera');
+    await enrolOrganizer(db, 'Dr. Perera');
+    await signInAsAdmin(db);
+
+    const byName = await db.searchUsers({ search: 'perera' });
+    const byUniId = await db.searchUsers({ search: student.uniId });
+
+    expect(byName.items.map(u => u.name)).toEqual(['Dr. Perera', 'Kasun Perera']);
+    expect(byName.roleCounts).toEqual({ student: 1, organizer: 1 });
+    expect(byUniId.items.map(u => u._id)).toEqual([student._id]);
+  });
+
+  it('caps the page size however many rows a caller asks for', async () => {
+    for (let i = 0; i <= MAX_PAGE_SIZE; i++) await enrolStudent(db);
+    await signInAsAdmin(db);
+
+    const page = await db.searchUsers({ role: 'student', limit: 10_000 });
+
+    expect(page.items).toHaveLength(MAX_PAGE_SIZE);
+    expect(page.nextCursor).toBeDefined();
+  });
+
+  it('returns nothing to accounts that may not view the registry', async () => {
+    await enrolStudent(db);
+
+    expect(await db.searchUsers({})).toEqual({ items: [], total: 0, roleCounts: {} });
+  });
+});
+
+describe('live attendance', () => {
+  it('counts check-ins against registrations and lists the newest arrival first', async () => {
+    const organizer = await enrolOrganizer(db);
+    const event = await publishWorkshop(db, organizer);
+    const passes = [];
+    for (const name of ['First Arrival', 'Second Arrival', 'No Show']) {
+      const student = await enrolStudent(db, name);
+      passes.push(await db.registerForEvent(student._id, student.name, event._id, event.title));
+    }
+    await db.signOut();
+    await db.signIn(organizer.email, PASSWORD);
+    await db.checkInUser(passes[0].qrPayload, event._id);
+    await db.checkInUser(passes[1].qrPayload, event._id);
+
+    const live = await db.getLiveAttendance(event._id);
+
+    expect(live.registered).toBe(3);
+    expect(live.checkIns).toHaveLength(2);
+    expect(live.latest.map(a => a.userName)).toEqual(['Second Arrival', 'First Arrival']);
+  });
+
+  it('tells subscribers about check-ins until they unsubscribe', async () => {
+    const organizer = await enrolOrganizer(db);
+    const event = await publishWorkshop(db, organizer);
+    const student = await enrolStudent(db);
+    const pass = await db.registerForEvent(student._id, student.name, event._id, event.title);
+    await db.signOut();
+    await db.signIn(organizer.email, PASSWORD);
+    const changes: number[] = [];
+    const unsubscribe = db.onAttendanceChange(event._id, () => changes.push(Date.now()));
+
+    await db.checkInUser(pass.qrPayload, event._id);
+    const seen = changes.length;
+    unsubscribe();
+    await db.checkOutUser(pass.qrPayload, event._id);
+
+    expect(seen).toBeGreaterThan(0);
+    expect(changes).toHaveLength(seen);
+  });
+
+  it('is closed to accounts that cannot view attendance', async () => {
+    const event = await publishWorkshop(db, await enrolOrganizer(db));
+    await enrolStudent(db);
+
+    await expect(db.getLiveAttendance(event._id)).rejects.toBeInstanceOf(PermissionError);
+  });
+});
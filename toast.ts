@@ -0,0 +1,62 @@
+
+// --- TOASTS ---
+// Short-lived notices stacked in a corner of the screen, in place of alert(). Anything can raise one;
+// the ToastViewport in index.tsx subscribes and renders them.
+
+import { DataError, describeError } from './errors';
+
+export type ToastTone = 'success' | 'error' | 'info';
+
+export interface Toast {
+  id: number;
+  tone: ToastTone;
+  message: string;
+  retry?: () => unknown; // Offered as a Retry button; dismisses the toast when pressed
+}
+
+// How long a toast stays up. Errors with a retry stay until dismissed.
+const TIMEOUT_MS: Record<ToastTone, number> = { success: 4000, info: 6000, error: 8000 };
+
+let toasts: Toast[] = [];
+let nextId = 1;
+const listeners = new Set<(toasts: Toast[]) => void>();
+
+const publish = () => listeners.forEach(listener => listener(toasts));
+
+const show = (tone: ToastTone, message: string, retry?: () => unknown): number => {
+  const id = nextId++;
+  toasts = [...toasts, { id, tone, message, retry }];
+  publish();
+  if (!retry) setTimeout(() => dismiss(id), TIMEOUT_MS[tone]);
+  return id;
+};
+
+const dismiss = (id: number) => {
+  if (!toasts.some(t => t.id === id)) return;
+  toasts = toasts.filter(t => t.id !== id);
+  publish();
+};
+
+export const toast = {
+  success: (message: string) => show('success', message),
+  info: (message: string) => show('info', message),
+  error: (message: string, retry?: () => unknown) => show('error', message, retry),
+
+  /**
+   * Reports a caught error. The message comes from the DataError when there is one; `retry` is only
+   * offered for errors where trying again can help, such as a dropped connection.
+   */
+  fail: (error: unknown, retry?: () => unknown, fallback?: string) => {
+    const retryable = !(error instanceof DataError) || error.retryable;
+    return show('error', describeError(error, fallback), retryable ? retry : undefined);
+  },
+
+  dismiss,
+
+  /** Calls back with the current toasts now and on every change. Returns an unsubscribe function. */
+  subscribe: (listener: (toasts: Toast[]) => void): (() => void) => {
+    listeners.add(listener);
+    listener(toasts);
+    return () => { listeners.delete(listener); };
+  },
+};
@@ -1,16 +1,31 @@
 
-export type UserRole = 'student' | 'organizer' | 'admin';
+export type UserRole = 'student' | 'organizer' | 'coordinator' | 'volunteer' | 'auditor' | 'admin';
 
 export interface User {
   _id: string;
   name: string;
   email: string;
-  password?: string;
   role: UserRole;
   indexNumber?: string;
   uniId: string; // University ID is now mandatory
+  intakeYear?: number; // Derived from a student uniId
+  department?: string; // Derived from the uniId
   profilePhoto?: string; // Base64 encoded string
-  status?: 'pending' | 'approved' | 'rejected';
+  status?: 'pending' | 'approved' | 'rejected' | 'changes_requested';
+  reviewComment?: string; // Latest comment from the reviewer
+  emailVerified?: boolean; // Only known for the signed-in user
+  staffGrants?: StaffGrant[]; // Gate duty held by the signed-in user
+}
+
+// Time-limited permission to run the entry terminal for one event.
+export interface StaffGrant {
+  eventId: string;
+  userId: string;
+  userName: string;
+  userEmail: string;
+  validFrom: string;
+  validUntil: string;
+  createdAt: string;
 }
 
 export interface Event {
@@ -20,15 +35,91 @@ export interface Event {
   organizerName: string;
   organizerEmail: string;
   organizerId: string;
-  department: string;
-  venue: string;
+  department: string; // Code from the departments list
+  tagIds: string[];
+  venue: string; // Venue name; 'Multiple Venues' when sessions are spread over several
+  venueId?: string; // Unset for free-text venues booked before the venue registry
   date: string;
   startTime: string;
   endTime: string;
   maxParticipants: number;
-  status: 'pending' | 'approved' | 'rejected';
+  cancellationCutoffHours: number; // Passes can no longer be released this many hours before start
+  minAttendanceMinutes: number; // Check-in to check-out time needed for attendance to count as complete
+  status: 'pending' | 'approved' | 'rejected' | 'changes_requested' | 'cancelled';
+  reviewComment?: string; // Latest comment from the reviewer
   createdAt: string;
   posterUrl?: string;
+  cancellationReason?: string; // Required when status is 'cancelled'
+  cancelledAt?: string;
+  seriesId?: string; // Set on occurrences generated from a recurrence rule
+  seriesIndex?: number; // 1-based position within the series
+  sessions: EventSession[]; // Empty for single-session events; sorted by date and start time
+}
+
+export interface RecurrenceRule {
+  frequency: 'weekly' | 'daily'; // With `interval`: every N weeks or every N days
+  interval: number;
+  until?: string; // Last date an occurrence may fall on; one of `until` or `count` is required
+  count?: number; // Occurrences to generate, skipped dates not counted
+  skipDates: string[]; // Dates the rule lands on that get no occurrence, e.g. holidays
+}
+
+export interface EventSeries {
+  _id: string;
+  organizerId: string;
+  title: string;
+  rule: RecurrenceRule;
+  createdAt: string;
+}
+
+export interface Department {
+  code: string; // As carried in University IDs, e.g. 'ICT'
+  name: string;
+}
+
+export interface Tag {
+  _id: string;
+  name: string;
+}
+
+export interface Venue {
+  _id: string;
+  name: string;
+  building: string;
+  capacity: number;
+}
+
+// Another active booking overlapping one of an event's slots in the same venue.
+export interface VenueConflict {
+  eventId?: string; // Unset while the event is still an unsaved proposal
+  conflictingEventId: string;
+  title: string; // Of the conflicting event
+  status: Event['status'];
+  venueId: string;
+  date: string;
+  startTime: string;
+  endTime: string;
+}
+
+export interface EventSession {
+  _id: string;
+  eventId: string;
+  title: string;
+  venue: string;
+  venueId?: string;
+  date: string;
+  startTime: string;
+  endTime: string;
+  capacity?: number; // Optional per-session cap on top of the event's maxParticipants
+}
+
+export interface SessionCheckIn {
+  sessionId: string;
+  registrationId: string;
+  userId: string;
+  userName: string;
+  checkInTime: string;
+  scannedByName?: string;
 }
 
 export interface Registration {
@@ -38,7 +129,67 @@ export interface Registration {
   eventId: string;
   eventTitle: string;
   timestamp: string;
-  status: 'registered' | 'checked-in';
+  status: 'registered' | 'checked-in' | 'waitlisted' | 'cancelled' | 'voided'; // 'voided' when the workshop was cancelled
   qrPayload: string;
   checkInTime?: string;
+  checkOutTime?: string;
+  cancelledAt?: string;
+}
+
+export interface EventOccupancy {
+  seatsTaken: number;
+  waitlist: string[]; // Registration ids, earliest first
+}
+
+// Event-day snapshot behind the live entrance display.
+export interface LiveAttendance {
+  registered: number; // Passes admitted or still admissible; the waitlist is not counted
+  checkIns: string[]; // Every check-in time, earliest first
+  latest: Arrival[]; // Most recent arrivals, newest first
+}
+
+export interface Arrival {
+  registrationId: string;
+  userName: string;
+  uniId?: string;
+  profilePhoto?: string;
+  checkInTime: string;
+}
+
+// One field changed by an edit. Values are shown as stored; a replaced poster has neither.
+export interface EventChange {
+  field: string; // Event property name, or 'sessions' for the session list as a whole
+  from: string | null;
+  to: string | null;
+}
+
+export interface EventRevision {
+  _id: string;
+  eventId: string;
+  changedByName: string;
+  changes: EventChange[];
+  sentForReview: boolean;
+  createdAt: string;
+}
+
+export interface UserNotification {
+  _id: string;
+  userId: string;
+  eventId: string;
+  kind: 'event_updated' | 'event_cancelled';
+  title: string; // Event title at the time of the notice
+  changes: EventChange[]; // Empty for a cancellation
+  message?: string; // Cancellation reason
+  readAt?: string;
+  createdAt: string;
+}
+
+// One status transition of a workshop or account.
+export interface StatusChange {
+  _id: string;
+  fromStatus?: string;
+  toStatus: string;
+  comment?: string;
+  actedByName: string;
+  createdAt: string;
 }
@@ -12,7 +12,12 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.MAIL_TRANSPORT': JSON.stringify(env.MAIL_TRANSPORT),
+        'process.env.ALLOWED_EMAIL_DOMAINS': JSON.stringify(env.ALLOWED_EMAIL_DOMAINS),
+        'process.env.DB_BACKEND': JSON.stringify(env.DB_BACKEND),
+        'process.env.SUPABASE_URL': JSON.stringify(env.SUPABASE_URL),
+        'process.env.SUPABASE_ANON_KEY': JSON.stringify(env.SUPABASE_ANON_KEY)
       },
       resolve: {
         alias: {
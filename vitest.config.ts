@@ -0,0 +1,20 @@
+import path from 'path';
+import { defineConfig } from 'vitest/config';
+import react from '@vitejs/plugin-react';
+
+// Tests run against the in-memory repository, so no Supabase project or network is needed.
+export default defineConfig({
+  plugins: [react()],
+  resolve: {
+    alias: {
+      '@': path.resolve(__dirname, '.'),
+      // The scanner loads jsQR from a CDN; tests resolve it to a local stand-in they can mock.
+      'https://cdn.jsdelivr.net/npm/jsqr@1.4.0/+esm': path.resolve(__dirname, 'test/jsqr.ts'),
+    },
+  },
+  test: {
+    environment: 'jsdom',
+    env: { DB_BACKEND: 'memory', MAIL_TRANSPORT: 'stub' },
+    setupFiles: ['test/setup.ts'],
+  },
+});